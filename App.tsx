@@ -1,55 +1,279 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import GameCanvas from './components/GameCanvas';
 import Menu from './components/Menu';
 import GameOver from './components/GameOver';
-import { GameState, Language } from './types';
+import ReplayViewer from './components/ReplayViewer';
+import LevelEditor from './components/LevelEditor';
+import { CatOutfit, GameState, GameMode, Language, Progress, SkillUpgradeId } from './types';
+import { SaveGame, ClearedLevel, loadSave, writeSave, createSave, getSaveProgress, applyProgress, purchaseUpgrade } from './utils/saveGame';
+import { UPGRADES } from './utils/skills';
+import { DifficultySettings, loadDifficulty, saveDifficulty, resolveDifficulty } from './utils/difficulty';
+import { GraphicsSettings, loadGraphics, saveGraphics } from './utils/graphics';
+import { ReplayFile, createReplayRecorder, downloadReplay } from './utils/replay';
+import { LeaderboardResult, submitEndlessRun } from './utils/leaderboard';
+import { HighScoreResult, submitHighScore } from './utils/highScores';
+import { RunStats, createRunStatsCollector } from './utils/runStats';
+import { LevelWave, StoredWaves, getWaveProgress, loadWaves, saveWaves } from './utils/waves';
+import { SimulationStatus } from './utils/gameSimulation';
+import { DailyChallenge, encodeDailyResult, getDailyChallenge, getDailyDifficulty, getDailyProgress } from './utils/dailyChallenge';
+import { createTranslator, detectLanguage, getLanguageTag, loadLanguage, saveLanguage } from './utils/i18n';
 
 const App: React.FC = () => {
+  const [savedGame, setSavedGame] = useState<SaveGame | null>(() => loadSave());
   const [gameState, setGameState] = useState<GameState>(GameState.MENU);
   const [catName, setCatName] = useState<string>('Gato');
   const [score, setScore] = useState<number>(0);
-  const [language, setLanguage] = useState<Language>('pt');
+  // An explicit pick wins over the save's copy, then the browser's preference
+  const [language, setLanguageState] = useState<Language>(() => loadLanguage() ?? savedGame?.language ?? detectLanguage());
+  const [initialProgress, setInitialProgress] = useState<Progress | undefined>(undefined);
+  // Bumped on every new/continued run so GameCanvas remounts with fresh progression
+  const [runId, setRunId] = useState(0);
+  const [mode, setMode] = useState<GameMode>('campaign');
+  const [difficulty, setDifficultyState] = useState<DifficultySettings>(() => loadDifficulty());
+  const [graphics, setGraphicsState] = useState<GraphicsSettings>(() => loadGraphics());
+  // Endless leaderboard after the last Endless run ended
+  const [leaderboard, setLeaderboard] = useState<LeaderboardResult | null>(null);
+  const statsRef = useRef(createRunStatsCollector());
+  // Filled in when a run ends, for the Game Over screen
+  const [runStats, setRunStats] = useState<RunStats | null>(null);
+  const [highScores, setHighScores] = useState<HighScoreResult | null>(null);
+  const [daily, setDaily] = useState<DailyChallenge | null>(null);
+  // Shareable result of the last Daily Challenge run
+  const [dailyCode, setDailyCode] = useState<string | null>(null);
+  const recorderRef = useRef(createReplayRecorder('Gato'));
+  const [replay, setReplay] = useState<ReplayFile | null>(null);
+  // Where to go when the replay viewer closes
+  const [replayOrigin, setReplayOrigin] = useState<GameState>(GameState.MENU);
+  const [waves, setWavesState] = useState<StoredWaves>(() => loadWaves());
+  // Level being play-tested from the editor, and how the last play-test ended
+  const [playtestWave, setPlaytestWave] = useState<LevelWave | null>(null);
+  const [playtestResult, setPlaytestResult] = useState<{ outcome: SimulationStatus; score: number } | null>(null);
 
-  const startGame = (name: string) => {
+  const beginRun = () => {
+    statsRef.current = createRunStatsCollector();
+    setLeaderboard(null);
+    setRunStats(null);
+    setHighScores(null);
+    setDailyCode(null);
+  };
+
+  const persist = (save: SaveGame) => {
+      writeSave(save);
+      setSavedGame(save);
+  };
+
+  const setLanguage = (lang: Language) => {
+    setLanguageState(lang);
+    saveLanguage(lang);
+    if (savedGame) persist({ ...savedGame, language: lang });
+  };
+
+  useEffect(() => {
+    document.documentElement.lang = getLanguageTag(language);
+    document.title = createTranslator(language)('app.title');
+  }, [language]);
+
+  const setDifficulty = (settings: DifficultySettings) => {
+    setDifficultyState(settings);
+    saveDifficulty(settings);
+  };
+
+  const setGraphics = (settings: GraphicsSettings) => {
+    setGraphicsState(settings);
+    saveGraphics(settings);
+  };
+
+  const setOutfit = (outfit: CatOutfit) => {
+    if (savedGame) persist({ ...savedGame, outfit });
+  };
+
+  const setWaves = (next: StoredWaves) => {
+    setWavesState(next);
+    saveWaves(next);
+  };
+
+  const startGame = (name: string, nextMode: GameMode) => {
+    setPlaytestWave(null);
     setCatName(name);
+    // Endless runs are separate from the campaign and leave the save alone
+    if (nextMode === 'campaign') persist(createSave(name, language, savedGame));
+    setMode(nextMode);
+    beginRun();
+    recorderRef.current = createReplayRecorder(name);
+    if (nextMode === 'daily') {
+      const challenge = getDailyChallenge();
+      setDaily(challenge);
+      setInitialProgress(getDailyProgress(challenge));
+    } else {
+      setInitialProgress(undefined);
+    }
+    setRunId(prev => prev + 1);
+    setGameState(GameState.PLAYING);
+    setScore(0);
+  };
+
+  const continueGame = () => {
+    if (!savedGame) return;
+    setPlaytestWave(null);
+    setCatName(savedGame.catName);
+    setMode('campaign');
+    beginRun();
+    recorderRef.current = createReplayRecorder(savedGame.catName);
+    setInitialProgress(getSaveProgress(savedGame));
+    setRunId(prev => prev + 1);
     setGameState(GameState.PLAYING);
     setScore(0);
   };
 
   const restartGame = () => {
+    beginRun();
+    recorderRef.current = createReplayRecorder(catName);
+    setGameState(GameState.PLAYING);
+    setScore(0);
+  };
+
+  const returnToMenu = () => {
+    setGameState(GameState.MENU);
+    setScore(0);
+  };
+
+  // Play-tests run one level outside the campaign: nothing is saved or recorded
+  const startPlaytest = (wave: LevelWave) => {
+    setPlaytestWave(wave);
+    setMode('campaign');
+    setInitialProgress(getWaveProgress(wave));
+    setRunId(prev => prev + 1);
     setGameState(GameState.PLAYING);
     setScore(0);
   };
 
+  const endPlaytest = (result: { outcome: SimulationStatus; score: number }) => {
+    setPlaytestResult(result);
+    setGameState(GameState.EDITOR);
+  };
+
+  const watchReplay = (file: ReplayFile, origin: GameState) => {
+    setReplay(file);
+    setReplayOrigin(origin);
+    setGameState(GameState.REPLAY);
+  };
+
+  const closeReplay = () => {
+    setReplay(null);
+    setGameState(replayOrigin);
+  };
+
+  const handleGameOver = (result: { score: number; survivedMs: number; biomeIndex: number }) => {
+    const stats = statsRef.current.snapshot();
+    setRunStats(stats);
+    if (mode === 'endless') {
+      setLeaderboard(submitEndlessRun({ catName, ...result }));
+    } else if (mode === 'daily') {
+      if (daily) setDailyCode(encodeDailyResult({ date: daily.date, score: result.score, catName }));
+    } else {
+      setHighScores(submitHighScore({
+        catName,
+        score: stats.totalScore,
+        levelsCleared: stats.levelsCleared,
+        biomeReached: stats.biomeReached
+      }));
+    }
+  };
+
+  const handleProgress = (progress: Progress, cleared: ClearedLevel) => {
+    const base = savedGame && savedGame.catName === catName ? savedGame : createSave(catName, language, savedGame);
+    persist(applyProgress(base, progress, cleared));
+  };
+
+  const handlePurchaseUpgrade = (id: SkillUpgradeId) => {
+    const upgrade = UPGRADES.find(u => u.id === id);
+    const next = savedGame && upgrade ? purchaseUpgrade(savedGame, upgrade) : null;
+    if (next) persist(next);
+  };
+
   return (
     <div className="w-full h-screen bg-[#050f18] text-white overflow-hidden font-sans select-none">
-      <GameCanvas 
-        gameState={gameState} 
+      <GameCanvas
+        key={runId}
+        gameState={gameState}
         setGameState={setGameState}
         score={score}
         setScore={setScore}
         catName={catName}
         language={language}
+        initialProgress={initialProgress}
+        onProgress={handleProgress}
+        recorder={playtestWave ? undefined : recorderRef.current}
+        mode={mode}
+        stats={playtestWave ? undefined : statsRef.current}
+        onGameOver={handleGameOver}
+        upgrades={mode === 'campaign' ? savedGame?.upgrades : undefined}
+        essence={savedGame?.essence}
+        onPurchaseUpgrade={mode === 'campaign' ? handlePurchaseUpgrade : undefined}
+        difficulty={mode === 'daily' && daily ? getDailyDifficulty(daily, difficulty.assists.autoPause) : resolveDifficulty(difficulty)}
+        waves={waves.useInCampaign ? waves.file : null}
+        playtest={playtestWave ?? undefined}
+        onPlaytestEnd={endPlaytest}
+        daily={mode === 'daily' ? daily ?? undefined : undefined}
+        graphics={graphics}
+        outfit={savedGame?.outfit}
+        cosmetics={savedGame?.cosmetics}
       />
 
       {gameState === GameState.MENU && (
-        <Menu 
-            onStart={startGame} 
+        <Menu
+            onStart={startGame}
+            onContinue={continueGame}
+            onWatchReplay={(file) => watchReplay(file, GameState.MENU)}
+            onOpenEditor={() => setGameState(GameState.EDITOR)}
+            savedGame={savedGame}
             language={language}
             setLanguage={setLanguage}
+            difficulty={difficulty}
+            setDifficulty={setDifficulty}
+            graphics={graphics}
+            setGraphics={setGraphics}
+            setOutfit={setOutfit}
         />
       )}
 
       {gameState === GameState.GAME_OVER && (
-        <GameOver 
-            score={score} 
-            catName={catName} 
-            onRestart={restartGame} 
+        <GameOver
+            score={runStats?.totalScore ?? score}
+            catName={catName}
+            onRestart={restartGame}
+            onMenu={returnToMenu}
+            onWatchReplay={() => watchReplay(recorderRef.current.toReplay(), GameState.GAME_OVER)}
+            onExportReplay={() => downloadReplay(recorderRef.current.toReplay())}
+            leaderboard={leaderboard}
+            runStats={runStats}
+            highScores={highScores}
+            dailyCode={dailyCode}
+            language={language}
+        />
+      )}
+
+      {gameState === GameState.EDITOR && (
+        <LevelEditor
+            language={language}
+            waves={waves}
+            setWaves={setWaves}
+            onPlaytest={startPlaytest}
+            lastPlaytest={playtestResult}
+            onClose={returnToMenu}
+        />
+      )}
+
+      {gameState === GameState.REPLAY && replay && (
+        <ReplayViewer
+            replay={replay}
             language={language}
+            graphics={graphics}
+            onClose={closeReplay}
         />
       )}
     </div>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,189 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, ChevronLeft, ChevronRight, Check, Trash2 } from 'lucide-react';
+import { Language, Point } from '../types';
+import { SPELL_ORDER, getSymbolIcon, getSymbolColor, recognizeGesture } from '../utils/gesture';
+import { createStrokeTracker } from '../utils/pointerStrokes';
+import { createTranslator } from '../utils/i18n';
+import { GestureTemplate, matchTemplates, getTemplatesForPlayer, addPlayerSample, clearPlayerSamples, loadPlayerTemplates } from '../utils/templateRecognizer';
+
+interface CalibrationProps {
+  playerName: string;
+  language: Language;
+  onClose: () => void;
+}
+
+const Calibration: React.FC<CalibrationProps> = ({ playerName, language, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pointsRef = useRef<Point[]>([]);
+  const strokesRef = useRef(createStrokeTracker((clientX, clientY) => toLocal(clientX, clientY)));
+
+  const [spellIndex, setSpellIndex] = useState(0);
+  const [templates, setTemplates] = useState<GestureTemplate[]>(() => getTemplatesForPlayer(playerName));
+  const [customCount, setCustomCount] = useState(() => loadPlayerTemplates(playerName).length);
+  const [lastStroke, setLastStroke] = useState<Point[] | null>(null);
+  const [result, setResult] = useState<{ template: string; heuristic: string } | null>(null);
+
+  const spell = SPELL_ORDER[spellIndex];
+  const samplesForSpell = templates.filter(tpl => tpl.isCustom && tpl.type === spell).length;
+
+  const t = createTranslator(language);
+
+  const redraw = () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+
+      const rect = canvas.getBoundingClientRect();
+      if (canvas.width !== rect.width || canvas.height !== rect.height) {
+          canvas.width = rect.width;
+          canvas.height = rect.height;
+      }
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+      const points = pointsRef.current;
+      if (points.length < 2) return;
+      ctx.strokeStyle = getSymbolColor(spell);
+      ctx.lineWidth = 4;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      for (let i = 1; i < points.length; i++) ctx.lineTo(points[i].x, points[i].y);
+      ctx.stroke();
+  };
+
+  useEffect(() => {
+      pointsRef.current = [];
+      setLastStroke(null);
+      setResult(null);
+      redraw();
+  }, [spellIndex]);
+
+  const toLocal = (clientX: number, clientY: number): Point => {
+      const rect = canvasRef.current!.getBoundingClientRect();
+      return { x: clientX - rect.left, y: clientY - rect.top };
+  };
+
+  // One sample at a time: extra fingers are ignored while a stroke is drawn
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (strokesRef.current.active().length > 0) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      strokesRef.current.begin(e.nativeEvent);
+      pointsRef.current = strokesRef.current.active()[0];
+      setResult(null);
+      redraw();
+  };
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      strokesRef.current.move(e.nativeEvent);
+      const [stroke] = strokesRef.current.active();
+      if (!stroke) return;
+      pointsRef.current = stroke;
+      redraw();
+  };
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const points = strokesRef.current.end(e.nativeEvent);
+      if (!points) return;
+      pointsRef.current = points;
+      redraw();
+      if (points.length < 2) return;
+
+      // Show both recognizers side by side so players (and we) can compare them
+      const match = matchTemplates(points, templates);
+      const heuristic = recognizeGesture(points);
+      setResult({
+          template: match ? `${getSymbolIcon(match.type)} ${Math.round(match.score * 100)}%` : t('calibration.none'),
+          heuristic: heuristic ? getSymbolIcon(heuristic) : t('calibration.none')
+      });
+      setLastStroke([...points]);
+  };
+
+  const saveSample = () => {
+      if (!lastStroke) return;
+      const custom = addPlayerSample(playerName, spell, lastStroke);
+      setTemplates(getTemplatesForPlayer(playerName));
+      setCustomCount(custom.length);
+      pointsRef.current = [];
+      setLastStroke(null);
+      setResult(null);
+      redraw();
+  };
+
+  const clearSamples = () => {
+      const custom = clearPlayerSamples(playerName, spell);
+      setTemplates(getTemplatesForPlayer(playerName));
+      setCustomCount(custom.length);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-[#050f18]/95 backdrop-blur-md p-6 animate-fade-in text-white select-none">
+        <button
+            onClick={onClose}
+            className="absolute top-6 right-6 text-white/50 hover:text-white transition-colors"
+        >
+            <X size={32} strokeWidth={1} />
+        </button>
+
+        <h2 className="text-3xl font-thin mb-2 uppercase tracking-[0.2em] text-center">{t('calibration.title')}</h2>
+        <p className="text-xs text-white/40 mb-6">{t('calibration.subtitle', { name: playerName })}</p>
+
+        {/* Symbol Selector */}
+        <div className="flex items-center gap-6 mb-4">
+            <button onClick={() => setSpellIndex((spellIndex + SPELL_ORDER.length - 1) % SPELL_ORDER.length)} className="text-white/50 hover:text-white">
+                <ChevronLeft size={28} strokeWidth={1} />
+            </button>
+            <span className="font-mono text-5xl w-16 text-center" style={{ color: getSymbolColor(spell) }}>{getSymbolIcon(spell)}</span>
+            <button onClick={() => setSpellIndex((spellIndex + 1) % SPELL_ORDER.length)} className="text-white/50 hover:text-white">
+                <ChevronRight size={28} strokeWidth={1} />
+            </button>
+        </div>
+        <div className="text-[10px] uppercase tracking-widest text-white/40 mb-4">
+            {t('calibration.samples', { count: samplesForSpell })} · {t('calibration.total', { count: customCount })}
+        </div>
+
+        {/* Drawing Pad */}
+        <div className="relative w-full max-w-sm aspect-square border border-white/20 rounded bg-white/5 touch-none">
+            <canvas
+                ref={canvasRef}
+                className="block w-full h-full"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={e => strokesRef.current.cancel(e.nativeEvent)}
+            />
+            {!lastStroke && (
+                <span className="absolute inset-0 flex items-center justify-center text-xs text-white/20 pointer-events-none">{t('calibration.drawHere')}</span>
+            )}
+        </div>
+
+        {/* Recognizer Comparison */}
+        <div className="h-8 mt-4 flex gap-6 text-xs font-mono text-white/60">
+            {result && (
+                <>
+                    <span>{t('calibration.template')}: <span className="text-white">{result.template}</span></span>
+                    <span>{t('calibration.heuristic')}: <span className="text-white">{result.heuristic}</span></span>
+                </>
+            )}
+        </div>
+
+        <div className="flex gap-4 mt-4">
+            <button
+                onClick={clearSamples}
+                disabled={samplesForSpell === 0}
+                className="flex items-center gap-2 px-6 py-3 border border-white/30 rounded-full hover:bg-white hover:text-black transition-all uppercase tracking-widest text-xs disabled:opacity-30 disabled:pointer-events-none"
+            >
+                <Trash2 size={14} /> {t('calibration.clear')}
+            </button>
+            <button
+                onClick={saveSample}
+                disabled={!lastStroke}
+                className="flex items-center gap-2 px-6 py-3 border border-white/30 rounded-full hover:bg-white hover:text-black transition-all uppercase tracking-widest text-xs disabled:opacity-30 disabled:pointer-events-none"
+            >
+                <Check size={14} /> {t('calibration.save')}
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default Calibration;
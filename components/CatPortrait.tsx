@@ -0,0 +1,44 @@
+import React, { useEffect, useRef } from 'react';
+import { CatOutfit } from '../types';
+import { CatPose, drawCat } from '../utils/catAvatar';
+
+interface CatPortraitProps {
+  outfit: CatOutfit;
+  pose?: Extract<CatPose, 'idle' | 'victory'>;
+  name?: string;
+  size?: number; // CSS pixels, square
+}
+
+// Drawing units across the portrait: room for the tallest hat mid-hop and the name
+const VIEW_SIZE = 84;
+
+// The animated cat on its own (menu wardrobe, Level Complete), on a wall clock
+const CatPortrait: React.FC<CatPortraitProps> = ({ outfit, pose = 'idle', name, size = 120 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = canvas.height = Math.round(size * pixelRatio);
+    const scale = (size * pixelRatio) / VIEW_SIZE;
+
+    let id: number;
+    const start = performance.now();
+    const loop = (now: number) => {
+        const elapsed = now - start;
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.setTransform(scale, 0, 0, scale, 0, 0);
+        drawCat(ctx, VIEW_SIZE / 2, VIEW_SIZE / 2 + 8, { pose: pose as CatPose, elapsed }, now, { outfit, name });
+        id = requestAnimationFrame(loop);
+    };
+    id = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(id);
+  }, [outfit, pose, name, size]);
+
+  return <canvas ref={canvasRef} style={{ width: size, height: size }} className="pointer-events-none" />;
+};
+
+export default CatPortrait;
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { Keyboard, Gamepad2, RotateCcw, Pause } from 'lucide-react';
+import { Language, SkillId } from '../types';
+import { getSymbolColor, getSymbolIcon } from '../utils/gesture';
+import {
+  BINDING_ACTIONS, BindingAction, DEFAULT_BINDINGS, InputBindings, InputDevice,
+  createGamepadReader, formatButton, formatKey, isSpellAction, loadBindings, rebind, saveBindings
+} from '../utils/inputBindings';
+import { createTranslator } from '../utils/i18n';
+import SkillIcon from './SkillIcon';
+
+interface ControlBindingsProps {
+  language: Language;
+}
+
+// Tutorial section listing the keyboard/gamepad bindings. Clicking a binding
+// waits for the next key or button press and assigns it.
+const ControlBindings: React.FC<ControlBindingsProps> = ({ language }) => {
+  const [bindings, setBindings] = useState<InputBindings>(() => loadBindings());
+  const [listening, setListening] = useState<{ action: BindingAction; device: InputDevice } | null>(null);
+
+  const t = createTranslator(language);
+
+  const assign = (action: BindingAction, device: InputDevice, value: string | number) => {
+      const next = rebind(bindings, device, action, value);
+      setBindings(next);
+      saveBindings(next);
+      setListening(null);
+  };
+
+  useEffect(() => {
+    if (!listening) return;
+
+    if (listening.device === 'keyboard') {
+        const onKeyDown = (e: KeyboardEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            assign(listening.action, 'keyboard', e.code);
+        };
+        window.addEventListener('keydown', onKeyDown, true);
+        return () => window.removeEventListener('keydown', onKeyDown, true);
+    }
+
+    const reader = createGamepadReader();
+    reader.poll(); // Ignore buttons already held when listening started
+    let id: number;
+    const loop = () => {
+        const [button] = reader.poll();
+        if (button !== undefined) assign(listening.action, 'gamepad', button);
+        else id = requestAnimationFrame(loop);
+    };
+    id = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(id);
+  }, [listening, bindings]);
+
+  // Keys and buttons only: casting with them stays as the player set it
+  const resetBindings = () => {
+      const defaults = { ...bindings, keyboard: { ...DEFAULT_BINDINGS.keyboard }, gamepad: { ...DEFAULT_BINDINGS.gamepad } };
+      setBindings(defaults);
+      saveBindings(defaults);
+      setListening(null);
+  };
+
+  const setCastWithButtons = (castWithButtons: boolean) => {
+      const next = { ...bindings, castWithButtons };
+      setBindings(next);
+      saveBindings(next);
+  };
+
+  const renderAction = (action: BindingAction) => {
+      if (isSpellAction(action)) {
+          return <span className="font-mono text-lg" style={{ color: getSymbolColor(action) }}>{getSymbolIcon(action)}</span>;
+      }
+      if (action === 'pause') return <Pause size={16} strokeWidth={1.5} />;
+      return <SkillIcon skill={action as SkillId} size={16} strokeWidth={1.5} />;
+  };
+
+  const renderBinding = (action: BindingAction, device: InputDevice) => {
+      const isListening = listening?.action === action && listening.device === device;
+      return (
+          <button
+              onClick={() => setListening(isListening ? null : { action, device })}
+              className={`min-w-[3rem] px-2 py-0.5 border rounded font-mono text-xs transition-colors ${isListening ? 'border-yellow-300 text-yellow-300 animate-pulse' : 'border-white/20 hover:border-white'}`}
+          >
+              {isListening ? t('controls.press') : device === 'keyboard' ? formatKey(bindings.keyboard[action]) : formatButton(bindings.gamepad[action])}
+          </button>
+      );
+  };
+
+  return (
+      <div className="flex flex-col items-center gap-2">
+          <div className="flex items-center gap-2 text-white font-normal mb-1">
+              <Keyboard size={20} />
+              <span>{t('controls.title')}</span>
+          </div>
+          <p className="text-white/60">{t('controls.description')}</p>
+          <label className="flex items-center gap-2 mt-1 cursor-pointer">
+              <input type="checkbox" checked={bindings.castWithButtons} onChange={e => setCastWithButtons(e.target.checked)} className="accent-white" />
+              <span>{t('controls.castWithButtons')}</span>
+          </label>
+          <p className="text-[10px] text-white/40">{t('controls.castWithButtonsHint')}</p>
+          <div className="grid grid-cols-2 gap-x-6 gap-y-1 mt-2 w-full max-w-xs">
+              {BINDING_ACTIONS.map(action => (
+                  <div key={action} className={`flex items-center justify-between gap-1 ${isSpellAction(action) && !bindings.castWithButtons ? 'opacity-40' : ''}`}>
+                      <span className="w-6 flex justify-center">{renderAction(action)}</span>
+                      {renderBinding(action, 'keyboard')}
+                      {renderBinding(action, 'gamepad')}
+                  </div>
+              ))}
+          </div>
+          <div className="flex items-center gap-4 text-[10px] text-white/40 uppercase tracking-widest mt-1">
+              <span className="flex items-center gap-1"><Keyboard size={12} /> / <Gamepad2 size={12} /></span>
+              <button onClick={resetBindings} className="flex items-center gap-1 hover:text-white transition-colors">
+                  <RotateCcw size={12} /> {t('controls.reset')}
+              </button>
+          </div>
+      </div>
+  );
+};
+
+export default ControlBindings;
@@ -1,8 +1,31 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { GameState, Enemy, Point, SpellType, Particle, BiomeType, Language } from '../types';
-import { recognizeGesture, getSymbolIcon, getSymbolColor } from '../utils/gesture';
+import { GameState, GameMode, Point, TimedPoint, BiomeType, CatOutfit, CosmeticId, Language, Progress, SkillId, SkillUpgradeId, SkillUpgrades, SpellType } from '../types';
+import { classifyGesture, getSymbolIcon, getSymbolColor, MIN_TEMPLATE_CONFIDENCE } from '../utils/gesture';
+import { getTemplatesForPlayer } from '../utils/templateRecognizer';
 import { BIOME_CONFIG, BIOME_ORDER, getTargetScore } from '../utils/gameConfig';
-import { Cat, Heart, Shield, Hourglass, Bomb, Pause, Play, Lock } from 'lucide-react';
+import { BOSS_CONFIG } from '../utils/bosses';
+import { GameSimulation, SimulationConfig, SimulationEvent, SimulationStatus, createGameSimulation, FIXED_STEP_MS } from '../utils/gameSimulation';
+import { randomSeed } from '../utils/random';
+import { ParticleSystem, createParticleSystem, spawnEventParticles, spawnCastParticles, updateParticles, drawScene } from '../utils/sceneRenderer';
+import { ReplayRecorder } from '../utils/replay';
+import { RunStatsCollector } from '../utils/runStats';
+import { SoundEffect, audioEngine } from '../utils/audio';
+import { ScoreBreakdown } from '../utils/scoring';
+import { SKILL_ORDER, UPGRADES, getCooldownRemaining, getLevelEssence, getUpgradeCost } from '../utils/skills';
+import { ClearedLevel } from '../utils/saveGame';
+import { createStrokeTracker } from '../utils/pointerStrokes';
+import { DEFAULT_DIFFICULTY, DifficultyConfig, resolveDifficulty } from '../utils/difficulty';
+import { DEFAULT_GRAPHICS, FrameStats, GraphicsQuality, GraphicsSettings, createQualityGovernor, getPixelRatio } from '../utils/graphics';
+import { BindingAction, createGamepadReader, findButtonAction, findKeyAction, formatKey, isSpellAction, loadBindings } from '../utils/inputBindings';
+import { LevelWave, WaveFile, findLevelWave, resolveWaveBoss } from '../utils/waves';
+import { DAILY_DURATION_MS, DailyChallenge, getDailyConfig } from '../utils/dailyChallenge';
+import { createTranslator, localize } from '../utils/i18n';
+import { animateCast, animateEvent, createCatAnimation } from '../utils/catAvatar';
+import { DEFAULT_OUTFIT, getBiomeCosmetic } from '../utils/cosmetics';
+import { GESTURE_DEBUG_KEY, GestureTrace, appendTrace, describeDecision, downloadGestureFixtures, drawGestureDebug, isGestureDebugRequested, traceGesture } from '../utils/gestureDebug';
+import { Heart, Shield, Shirt, Pause, Play, Lock, Flame, Sparkles, Hourglass, X, Download } from 'lucide-react';
+import SkillIcon from './SkillIcon';
+import CatPortrait from './CatPortrait';
 
 interface GameCanvasProps {
   gameState: GameState;
@@ -11,524 +34,407 @@ interface GameCanvasProps {
   setScore: React.Dispatch<React.SetStateAction<number>>;
   catName: string;
   language: Language;
+  initialProgress?: Progress;
+  onProgress: (progress: Progress, cleared: ClearedLevel) => void;
+  recorder?: ReplayRecorder;
+  mode?: GameMode;
+  stats?: RunStatsCollector;
+  onGameOver?: (result: { score: number; survivedMs: number; biomeIndex: number }) => void;
+  // Campaign only: Endless runs use base skills and earn no essence
+  upgrades?: SkillUpgrades;
+  essence?: number;
+  onPurchaseUpgrade?: (upgrade: SkillUpgradeId) => void;
+  difficulty?: DifficultyConfig;
+  // Custom levels that replace the formula ones in the campaign
+  waves?: WaveFile | null;
+  // Level editor play-test: runs this one level, then hands the result back
+  playtest?: LevelWave;
+  onPlaytestEnd?: (result: { outcome: SimulationStatus; score: number }) => void;
+  daily?: DailyChallenge; // Required in 'daily' mode
+  graphics?: GraphicsSettings;
+  outfit?: CatOutfit;
+  cosmetics?: CosmeticId[]; // Already unlocked, so Level Complete only announces new ones
 }
 
-const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, score, setScore, catName, language }) => {
+// Never simulate more than this per frame (e.g. after a background tab resumes)
+const MAX_FRAME_MS = 250;
+// How often the FPS overlay re-renders
+const FRAME_STATS_REFRESH_MS = 500;
+
+const EVENT_SOUNDS: Partial<Record<SimulationEvent['type'], SoundEffect>> = {
+  enemyKilled: 'kill',
+  enemyHit: 'hit',
+  catHit: 'damage',
+  shieldBlocked: 'shieldBlock',
+  skillActivated: 'skill',
+  healed: 'heal',
+  chainLightning: 'zap',
+  orbCollected: 'collect',
+  bossAttack: 'bossAttack',
+  bossPhase: 'bossPhase',
+  bossShieldBroken: 'shieldBlock',
+  levelComplete: 'levelComplete',
+  gameOver: 'gameOver'
+};
+
+const createCooldownMirror = (remaining: (id: SkillId) => number = () => 0) =>
+  Object.fromEntries(SKILL_ORDER.map(id => [id, remaining(id)])) as Record<SkillId, number>;
+
+const formatClock = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, score, setScore, catName, language, initialProgress, onProgress, recorder, mode = 'campaign', stats, onGameOver, upgrades = {}, essence = 0, onPurchaseUpgrade, difficulty = resolveDifficulty(DEFAULT_DIFFICULTY), waves = null, playtest, onPlaytestEnd, daily, graphics = DEFAULT_GRAPHICS, outfit = DEFAULT_OUTFIT, cosmetics = [] }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   
   // -- Progression State --
-  const [currentBiomeIndex, setCurrentBiomeIndex] = useState(0);
-  const [currentLevel, setCurrentLevel] = useState(1);
-  const [totalLevelsCleared, setTotalLevelsCleared] = useState(0); 
+  const [currentBiomeIndex, setCurrentBiomeIndex] = useState(initialProgress?.biomeIndex ?? 0);
+  const [currentLevel, setCurrentLevel] = useState(initialProgress?.level ?? 1);
+  const [totalLevelsCleared, setTotalLevelsCleared] = useState(initialProgress?.totalLevelsCleared ?? 0);
   
-  // -- Mutable Game State --
-  const enemiesRef = useRef<Enemy[]>([]);
-  const particlesRef = useRef<Particle[]>([]);
-  const drawingPointsRef = useRef<Point[]>([]);
-  const isDrawingRef = useRef(false);
-  const frameIdRef = useRef<number>(0);
-  const lastSpawnTimeRef = useRef<number>(0);
+  // -- Simulation (rules live in utils/gameSimulation, this component only renders) --
+  const simRef = useRef<GameSimulation | null>(null);
+  const accumulatorRef = useRef(0);
+  const lastFrameTimeRef = useRef<number | null>(null);
+
+  // -- Render-only State --
+  const particlesRef = useRef<ParticleSystem>(createParticleSystem(0));
+  const strokesRef = useRef(createStrokeTracker());
+  const templatesRef = useRef(getTemplatesForPlayer(catName));
+  const catAnimationRef = useRef(createCatAnimation());
   const [isPaused, setIsPaused] = useState(false);
+  const governorRef = useRef(createQualityGovernor(graphics.preset));
+  const frameStatsTimeRef = useRef(0);
+  const [frameStats, setFrameStats] = useState<(FrameStats & { quality: GraphicsQuality }) | null>(null);
+
+  // -- Keyboard / Gamepad (casting without drawing) --
+  const bindingsRef = useRef(loadBindings());
+  const gamepadRef = useRef(createGamepadReader());
+
+  // -- Gesture debug overlay (developer tool) --
+  const [gestureDebug, setGestureDebug] = useState(isGestureDebugRequested);
+  const gestureLogRef = useRef<GestureTrace[]>([]);
+  const [lastTrace, setLastTrace] = useState<GestureTrace | null>(null);
   
-  // -- Skills State --
-  const skillsRef = useRef({
-      shieldActive: false,
-      shieldEndTime: 0,
-      timeSlowActive: false,
-      timeSlowEndTime: 0,
-      timeScale: 1.0,
-  });
-  const [cooldowns, setCooldowns] = useState({
-      shield: { end: 0, total: 15000 },
-      hourglass: { end: 0, total: 20000 },
-      bomb: { end: 0, total: 25000 }
-  });
+  // Mirror of the simulation cooldowns for SkillButton (fraction left, on the
+  // simulation clock, so they freeze while paused)
+  const [cooldowns, setCooldowns] = useState(() => createCooldownMirror());
   
-  const [health, setHealth] = useState(5);
-  const maxHealth = 5;
+  const maxHealth = difficulty.maxHealth;
+  const [health, setHealth] = useState(maxHealth);
+  const [bossHud, setBossHud] = useState<{ hp: number; maxHp: number; shield: SpellType[] }>({ hp: 0, maxHp: 0, shield: [] });
+  const [combo, setCombo] = useState({ streak: 0, multiplier: 1 });
+  // Shown on the Level Complete overlay
+  const [levelSummary, setLevelSummary] = useState<{ breakdown: ScoreBreakdown; bestStreak: number; essence: number; unlocked?: CosmeticId } | null>(null);
+  const [endlessHud, setEndlessHud] = useState({ stage: 1, seconds: 0 });
+  // Seconds left on a timed level (a wave duration or the Daily Challenge)
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const isEndless = mode === 'endless';
+  const isDaily = mode === 'daily';
 
   // -- Derived Data --
+  const t = createTranslator(language);
   const currentBiome: BiomeType = BIOME_ORDER[currentBiomeIndex];
   const biomeData = BIOME_CONFIG[currentBiome];
-  const isBossLevel = currentLevel === 11;
+  const levelWave = playtest ?? (isEndless || isDaily ? undefined : findLevelWave(waves, currentBiome, currentLevel));
+  const bossData = levelWave?.boss ? resolveWaveBoss(levelWave) : BOSS_CONFIG[currentBiome];
+  const bossName = levelWave?.boss?.name ? localize(levelWave.boss.name, language) : t(`boss.${currentBiome}`);
+  const isBossLevel = !isEndless && (levelWave ? levelWave.boss !== undefined : currentLevel === 11);
   
   // Strict Progression Target
-  const targetScore = getTargetScore(currentBiome, currentLevel);
-
-  // Translation Map
-  const t = {
-      pt: {
-          level: 'Fase',
-          bossBattle: 'BATALHA DE CHEFE',
-          paused: 'PAUSADO',
-          bossDefeated: 'Boss Derrotado',
-          levelComplete: 'Fase Completa',
-          levelScore: 'Pontos da Fase',
-          nextLevel: 'Próxima Fase'
-      },
-      en: {
-          level: 'Level',
-          bossBattle: 'BOSS BATTLE',
-          paused: 'PAUSED',
-          bossDefeated: 'Boss Defeated',
-          levelComplete: 'Level Complete',
-          levelScore: 'Level Score',
-          nextLevel: 'Next Level'
-      }
-  }[language];
-
-  // -- Boss State --
-  const bossRef = useRef({
-      active: false,
-      maxSigils: 0,
-      currentSigils: 0,
-      nextAttackTime: 0
-  });
+  const targetScore = isDaily ? 0 : levelWave ? levelWave.targetScore ?? 0 : getTargetScore(currentBiome, currentLevel);
+  const timeLimit = isDaily ? DAILY_DURATION_MS : levelWave?.duration;
 
   // --------------------------------------------------------------------------
   // GAME LOGIC HELPERS
   // --------------------------------------------------------------------------
 
-  const spawnEnemy = (timestamp: number, width: number, height: number) => {
-    if (skillsRef.current.timeSlowActive && skillsRef.current.timeScale < 0.1) return;
+  const activateSkill = (skill: SkillId) => {
+      const sim = simRef.current;
+      if (sim?.activateSkill(skill)) recorder?.recordSkill(sim.state.tick, skill);
+  };
 
-    const id = Math.random().toString(36).substr(2, 9);
-    const side = Math.floor(Math.random() * 4); // 0: Top, 1: Right, 2: Bottom, 3: Left
-    let x = 0, y = 0;
-    const padding = 60;
+  const checkGesture = (points: TimedPoint[]) => {
+    const sim = simRef.current;
+    if (points.length < 2 || !sim) return;
 
-    switch(side) {
-        case 0: x = Math.random() * width; y = -padding; break;
-        case 1: x = width + padding; y = Math.random() * height; break;
-        case 2: x = Math.random() * width; y = height + padding; break;
-        case 3: x = -padding; y = Math.random() * height; break;
+    const result = classifyGesture(points, templatesRef.current, 'hybrid', difficulty.minConfidence);
+    if (gestureDebug) {
+        const trace = traceGesture(points, templatesRef.current, difficulty.minConfidence, result);
+        gestureLogRef.current = appendTrace(gestureLogRef.current, trace);
+        setLastTrace(trace);
     }
-
-    // Difficulty Scaling based on Biome and Level
-    // Biome multiplier effectively speeds up game per area
-    const difficultyMultiplier = 1 + (currentBiomeIndex * 0.25) + (currentLevel * 0.1);
-    
-    // Base speed: Boss levels are faster/chaotic
-    const speedBase = isBossLevel ? 2.5 : 0.8;
-    
-    // Spell Selection logic - PROGRESSION
-    const spellTypes = [SpellType.HORIZONTAL, SpellType.VERTICAL];
-    
-    // Level 2+: Add C (Simple Curve)
-    if (currentLevel > 1 || currentBiomeIndex > 0) spellTypes.push(SpellType.C_SHAPE);
-    
-    // Level 3+: Add 7 (was T)
-    if (currentLevel > 2 || currentBiomeIndex > 0) spellTypes.push(SpellType.SEVEN_SHAPE);
-    
-    // Level 5+: Add 8 (was N)
-    if (currentLevel > 4 || currentBiomeIndex > 0) spellTypes.push(SpellType.EIGHT_SHAPE);
-    
-    // Level 7+: Add S (Complex Curve)
-    if (currentLevel > 6 || currentBiomeIndex > 0) spellTypes.push(SpellType.S_SHAPE);
-    
-    // Level 9+: Add X (Intersection)
-    if (currentLevel > 8 || currentBiomeIndex > 1) spellTypes.push(SpellType.X_SHAPE);
-    
-    // Lightning only in later areas or high levels
-    if (currentLevel > 8 && currentBiomeIndex > 0 && Math.random() > 0.8) spellTypes.push(SpellType.LIGHTNING);
-
-    const symbol = spellTypes[Math.floor(Math.random() * spellTypes.length)];
-
-    const newEnemy: Enemy = {
-        id,
-        x,
-        y,
-        speed: (speedBase + (Math.random() * difficultyMultiplier)) * 0.7,
-        symbol,
-        color: getSymbolColor(symbol),
-        radius: 22,
-        spawnTime: timestamp,
-        isProjectile: isBossLevel
-    };
-
-    enemiesRef.current.push(newEnemy);
+    castSpell(sim, result?.type ?? null, result?.confidence ?? 0, points, points[points.length - 1]);
   };
 
-  const spawnBossSigils = (width: number, height: number) => {
-      enemiesRef.current = [];
-      
-      const sigilCount = 4 + currentBiomeIndex;
-      bossRef.current.maxSigils = sigilCount;
-      bossRef.current.currentSigils = sigilCount;
-      bossRef.current.active = true;
-
-      const centerX = width / 2;
-      const centerY = height / 2;
-      const radius = 130;
-
-      // Boss uses a mix of complex symbols
-      const bossSpells = [
-          SpellType.C_SHAPE, 
-          SpellType.SEVEN_SHAPE, 
-          SpellType.EIGHT_SHAPE, 
-          SpellType.S_SHAPE, 
-          SpellType.X_SHAPE, 
-          SpellType.LIGHTNING
-      ];
-
-      for (let i = 0; i < sigilCount; i++) {
-          const angle = (i / sigilCount) * Math.PI * 2;
-          const symbol = bossSpells[i % bossSpells.length];
-
-          enemiesRef.current.push({
-              id: `boss-sigil-${i}`,
-              x: centerX + Math.cos(angle) * radius,
-              y: centerY + Math.sin(angle) * radius,
-              speed: 0,
-              symbol,
-              color: '#ef4444', 
-              radius: 35,
-              spawnTime: 0,
-              isBossSigil: true
-          });
-      }
-  };
+  // Shared by drawn strokes and bound keys/buttons (which record an empty stroke)
+  const castSpell = (sim: GameSimulation, gesture: SpellType | null, confidence: number, points: TimedPoint[], at: Point) => {
+    recorder?.recordStroke(sim.state.tick, points, gesture, confidence);
 
-  const activateSkill = (skill: 'shield' | 'hourglass' | 'bomb') => {
-      const now = Date.now();
-      
-      if (skill === 'shield') {
-          skillsRef.current.shieldActive = true;
-          skillsRef.current.shieldEndTime = now + 4000;
-          setCooldowns(prev => ({...prev, shield: { end: now + 15000, total: 15000 }}));
-      }
-      else if (skill === 'hourglass') {
-          skillsRef.current.timeSlowActive = true;
-          skillsRef.current.timeScale = 0.1;
-          skillsRef.current.timeSlowEndTime = now + 4000;
-          setCooldowns(prev => ({...prev, hourglass: { end: now + 20000, total: 20000 }}));
-      }
-      else if (skill === 'bomb') {
-          createParticles(window.innerWidth/2, window.innerHeight/2, '#FFFFFF', 50, true);
-          
-          enemiesRef.current = enemiesRef.current.filter(e => {
-              if (e.isBossSigil) return true;
-              return false;
-          });
-          setCooldowns(prev => ({...prev, bomb: { end: now + 25000, total: 25000 }}));
-      }
+    const hits = sim.castSpell(gesture, confidence);
+    stats?.recordCast(gesture !== null, hits);
+    if (gesture === null) {
+        audioEngine.playEffect('unrecognized');
+    } else {
+        animateCast(catAnimationRef.current, gesture, sim.state.time);
+        audioEngine.playSpell(gesture);
+        if (hits === 0) audioEngine.playEffect('miss');
+    }
+    spawnCastParticles(particlesRef.current, at, gesture !== null, hits);
   };
 
-  // --------------------------------------------------------------------------
-  // GAME LOOP
-  // --------------------------------------------------------------------------
-
-  const checkGesture = () => {
-    const points = drawingPointsRef.current;
-    if (points.length < 2) return;
-
-    const gesture = recognizeGesture(points);
-    const lastPoint = points[points.length - 1];
-
-    if (!gesture) {
-        createParticles(lastPoint.x, lastPoint.y, '#555555', 5);
+  const handleBoundAction = (action: BindingAction) => {
+    const sim = simRef.current;
+    if (gameState !== GameState.PLAYING || !sim) return;
+    if (action === 'pause') {
+        setIsPaused(prev => !prev);
+    } else if (isPaused) {
         return;
-    }
-
-    const targets = enemiesRef.current.filter(e => e.symbol === gesture);
-
-    if (targets.length > 0) {
-        let scoreToAdd = 0;
-        let bossSigilsDestroyed = 0;
-
-        targets.forEach(target => {
-            createParticles(target.x, target.y, target.color, 20, true);
-            
-            if (target.isBossSigil) {
-                bossSigilsDestroyed++;
-            } else {
-                // Score calculation: 10 base * Area Multiplier
-                // Note: This score adds to the LEVEL total.
-                // We use biome index as a rough multiplier for individual kills too.
-                scoreToAdd += isBossLevel ? 0 : 10 * (1 + currentBiomeIndex * 0.5);
-            }
-        });
-
-        const targetIds = new Set(targets.map(t => t.id));
-        enemiesRef.current = enemiesRef.current.filter(e => !targetIds.has(e.id));
-
-        if (scoreToAdd > 0) {
-            setScore(prev => prev + Math.ceil(scoreToAdd));
-        }
-
-        if (bossSigilsDestroyed > 0) {
-            bossRef.current.currentSigils -= bossSigilsDestroyed;
-            if (bossRef.current.currentSigils <= 0) {
-                // Boss Defeated!
-                // Add a big bonus just for satisfaction, but progress is triggered by sigils=0
-                setScore(prev => prev + 1000);
-                handleLevelComplete();
-            }
-        }
+    } else if (isSpellAction(action)) {
+        // Opt-in, and kept out of the Daily Challenge and Endless (see utils/inputBindings)
+        if (!bindingsRef.current.castWithButtons || mode !== 'campaign') return;
+        // Nothing was drawn, so there is no accuracy bonus to earn
+        castSpell(sim, action, MIN_TEMPLATE_CONFIDENCE, [], { x: sim.state.width / 2, y: sim.state.height / 2 });
     } else {
-        createParticles(lastPoint.x, lastPoint.y, '#ef4444', 8); 
+        activateSkill(action);
     }
   };
 
-  const handleLevelComplete = useCallback(() => {
+  const handleLevelComplete = useCallback((levelScore: number, levelEssence: number) => {
       // Logic to advance level/biome
+      let nextBiomeIndex = currentBiomeIndex;
+      let nextLevel = currentLevel + 1;
       if (currentLevel === 11) {
           // Boss Defeated, move to next biome
-          if (currentBiomeIndex < BIOME_ORDER.length - 1) {
-              setCurrentBiomeIndex(prev => prev + 1);
-              setCurrentLevel(1);
-          } else {
-              // Loop back to start (New Game+ style) or End Game?
-              // For now loop back to garden but harder (level 1)
-              setCurrentBiomeIndex(0);
-              setCurrentLevel(1); 
-          }
-      } else {
-          // Normal level complete
-          setCurrentLevel(prev => prev + 1);
+          // After the last biome, loop back to garden but harder (level 1)
+          nextBiomeIndex = currentBiomeIndex < BIOME_ORDER.length - 1 ? currentBiomeIndex + 1 : 0;
+          nextLevel = 1;
       }
-      
-      setTotalLevelsCleared(prev => prev + 1);
+      const nextTotal = totalLevelsCleared + 1;
+
+      setCurrentBiomeIndex(nextBiomeIndex);
+      setCurrentLevel(nextLevel);
+      setTotalLevelsCleared(nextTotal);
+      onProgress(
+          { biomeIndex: nextBiomeIndex, level: nextLevel, totalLevelsCleared: nextTotal },
+          { biome: currentBiome, level: currentLevel, score: levelScore, essence: levelEssence }
+      );
       setGameState(GameState.LEVEL_COMPLETE);
       // NOTE: We do NOT reset score here. We reset it when re-entering PLAYING state.
       // This allows the Level Complete screen to show the score achieved.
-  }, [currentLevel, currentBiomeIndex, setGameState]);
-
-  const createParticles = (x: number, y: number, color: string, count: number = 10, glow: boolean = false) => {
-    for (let i = 0; i < count; i++) {
-        particlesRef.current.push({
-            id: Math.random().toString(),
-            x,
-            y,
-            vx: (Math.random() - 0.5) * 15, 
-            vy: (Math.random() - 0.5) * 15,
-            life: 1.0,
-            color,
-            size: Math.random() * 4 + 2,
-            glow
-        });
-    }
+  }, [currentLevel, currentBiomeIndex, currentBiome, totalLevelsCleared, onProgress, setGameState]);
+
+  // Turns simulation events into effects and React state
+  const handleSimEvents = (sim: GameSimulation, events: SimulationEvent[]) => {
+    events.forEach(event => {
+        spawnEventParticles(particlesRef.current, sim.state, event);
+        animateEvent(catAnimationRef.current, event, sim.state.time);
+        stats?.recordEvent(sim, event);
+        const sound = EVENT_SOUNDS[event.type];
+        if (sound) audioEngine.playEffect(sound);
+
+        switch (event.type) {
+            case 'catHit':
+            case 'healed':
+                setHealth(event.health);
+                break;
+            case 'levelComplete': {
+                if (playtest) {
+                    onPlaytestEnd?.({ outcome: 'complete', score: event.score });
+                    break;
+                }
+                if (isDaily) {
+                    // Lasting the whole challenge ends the run like falling does, just later
+                    recorder?.endLevel(sim.state.tick, sim.state.status);
+                    setScore(event.score);
+                    onGameOver?.({ score: event.score, survivedMs: sim.state.time, biomeIndex: sim.state.biomeIndex });
+                    setGameState(GameState.GAME_OVER);
+                    break;
+                }
+                recorder?.endLevel(sim.state.tick, sim.state.status);
+                const levelEssence = getLevelEssence(sim.state.biomeIndex, event.isBoss) + sim.state.essence;
+                // Same rule as the save: beating a biome's boss unlocks its cosmetic
+                const unlocked = currentLevel === 11 ? getBiomeCosmetic(currentBiome) : undefined;
+                setLevelSummary({
+                    breakdown: { ...sim.state.scoring.breakdown },
+                    bestStreak: sim.state.scoring.bestStreak,
+                    essence: levelEssence,
+                    unlocked: unlocked && !cosmetics.includes(unlocked) ? unlocked : undefined
+                });
+                setScore(event.score);
+                handleLevelComplete(event.score, levelEssence);
+                break;
+            }
+            case 'biomeChanged':
+                setCurrentBiomeIndex(event.biomeIndex);
+                break;
+            case 'gameOver':
+                if (playtest) {
+                    onPlaytestEnd?.({ outcome: 'over', score: event.score });
+                    break;
+                }
+                recorder?.endLevel(sim.state.tick, sim.state.status);
+                // Endless score is the whole run, so hand it over before Game Over shows
+                if (isEndless || isDaily) setScore(event.score);
+                onGameOver?.({ score: event.score, survivedMs: sim.state.time, biomeIndex: sim.state.biomeIndex });
+                setGameState(GameState.GAME_OVER);
+                break;
+        }
+    });
   };
 
+  // --------------------------------------------------------------------------
+  // GAME LOOP
+  // --------------------------------------------------------------------------
+
   const gameLoop = useCallback((timestamp: number) => {
     if (isPaused) {
-        lastSpawnTimeRef.current = timestamp;
+        lastFrameTimeRef.current = timestamp;
         return; 
     }
 
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    const sim = simRef.current;
+    if (!canvas || !sim) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    if (canvas.width !== window.innerWidth || canvas.height !== window.innerHeight) {
-        canvas.width = window.innerWidth;
-        canvas.height = window.innerHeight;
+    // The simulation (and replays) work in CSS pixels, whatever the screen density
+    const viewWidth = window.innerWidth;
+    const viewHeight = window.innerHeight;
+    if (sim.state.width !== viewWidth || sim.state.height !== viewHeight) {
+        sim.setViewport(viewWidth, viewHeight);
+        recorder?.recordResize(sim.state.tick, viewWidth, viewHeight);
     }
 
-    const width = canvas.width;
-    const height = canvas.height;
-    const centerX = width / 2;
-    const centerY = height / 2;
-
-    const now = Date.now();
-    if (skillsRef.current.shieldActive && now > skillsRef.current.shieldEndTime) {
-        skillsRef.current.shieldActive = false;
+    // -- Advance Simulation (fixed timestep) --
+    const frameMs = Math.min(lastFrameTimeRef.current === null ? 0 : timestamp - lastFrameTimeRef.current, MAX_FRAME_MS);
+    lastFrameTimeRef.current = timestamp;
+    const quality = governorRef.current.sample(frameMs);
+    if (graphics.showFps && timestamp - frameStatsTimeRef.current >= FRAME_STATS_REFRESH_MS) {
+        frameStatsTimeRef.current = timestamp;
+        setFrameStats({ ...governorRef.current.stats(), quality: quality.quality });
     }
-    if (skillsRef.current.timeSlowActive && now > skillsRef.current.timeSlowEndTime) {
-        skillsRef.current.timeSlowActive = false;
-        skillsRef.current.timeScale = 1.0;
+    accumulatorRef.current += frameMs;
+    while (accumulatorRef.current >= FIXED_STEP_MS) {
+        sim.step(FIXED_STEP_MS);
+        accumulatorRef.current -= FIXED_STEP_MS;
     }
-    const dt = skillsRef.current.timeScale;
 
-    // -- Check Level Progression --
-    // Only check score for levels 1-10. Level 11 is boss mechanics only.
-    if (!isBossLevel && score >= targetScore) {
-        handleLevelComplete();
-        return;
+    const events = sim.drainEvents();
+    const { state } = sim;
+    if (state.score !== score && state.status === 'playing') setScore(state.score);
+    handleSimEvents(sim, events);
+    if (state.status !== 'playing') return;
+
+    if (isEndless) {
+        const seconds = Math.floor(state.time / 1000);
+        if (seconds !== endlessHud.seconds || state.level !== endlessHud.stage) setEndlessHud({ stage: state.level, seconds });
+        // Skills unlock with survival time in Endless
+        if (state.totalLevelsCleared !== totalLevelsCleared) setTotalLevelsCleared(state.totalLevelsCleared);
     }
 
-    // -- Render Background --
-    ctx.fillStyle = biomeData.bg;
-    ctx.fillRect(0, 0, width, height);
-    
-    ctx.strokeStyle = 'rgba(255,255,255,0.03)';
-    ctx.lineWidth = 1;
-    const gridSize = 50;
-    for (let x = 0; x < width; x += gridSize) {
-        ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, height); ctx.stroke();
-    }
-    for (let y = 0; y < height; y += gridSize) {
-        ctx.beginPath(); ctx.moveTo(0, y); ctx.lineTo(width, y); ctx.stroke();
+    if (timeLimit !== undefined) {
+        // Waves count world time (the hourglass buys time), the Daily Challenge doesn't
+        const elapsed = isDaily ? state.time : state.worldTime;
+        const nextSecondsLeft = Math.ceil(Math.max(0, timeLimit - elapsed) / 1000);
+        if (nextSecondsLeft !== secondsLeft) setSecondsLeft(nextSecondsLeft);
     }
 
-    // -- Boss Spawning / Logic --
-    if (isBossLevel) {
-        if (!bossRef.current.active) {
-            spawnBossSigils(width, height);
-        }
-        
-        const rotationSpeed = 0.002 * dt;
-        enemiesRef.current.forEach(e => {
-            if (e.isBossSigil) {
-                const dx = e.x - centerX;
-                const dy = e.y - centerY;
-                const dist = Math.sqrt(dx*dx + dy*dy);
-                const angle = Math.atan2(dy, dx) + rotationSpeed;
-                e.x = centerX + Math.cos(angle) * dist;
-                e.y = centerY + Math.sin(angle) * dist;
-            }
-        });
-
-        if (timestamp - lastSpawnTimeRef.current > (1500 / (1 + currentBiomeIndex * 0.2))) {
-             spawnEnemy(timestamp, width, height); 
-             lastSpawnTimeRef.current = timestamp;
-        }
-    } else {
-        // Normal Spawning - Use Biome Index to increase spawn rate
-        const spawnRate = 1800 / (1 + (currentLevel * 0.1) + (currentBiomeIndex * 0.3));
-        if (timestamp - lastSpawnTimeRef.current > spawnRate) {
-            spawnEnemy(timestamp, width, height);
-            lastSpawnTimeRef.current = timestamp;
-        }
-    }
-
-    // -- Move Enemies --
-    for (let i = enemiesRef.current.length - 1; i >= 0; i--) {
-        const enemy = enemiesRef.current[i];
-        
-        if (!enemy.isBossSigil) {
-            const dx = centerX - enemy.x;
-            const dy = centerY - enemy.y;
-            const angle = Math.atan2(dy, dx);
-            
-            enemy.x += Math.cos(angle) * enemy.speed * dt;
-            enemy.y += Math.sin(angle) * enemy.speed * dt;
-
-            const dist = Math.hypot(dx, dy);
-            if (dist < 45) { 
-                enemiesRef.current.splice(i, 1);
-                
-                if (!skillsRef.current.shieldActive) {
-                    setHealth(prev => {
-                        const newHealth = prev - 1;
-                        if (newHealth <= 0) setGameState(GameState.GAME_OVER);
-                        createParticles(centerX, centerY, '#ef4444', 30, true);
-                        return newHealth;
-                    });
-                } else {
-                    createParticles(centerX, centerY, '#60a5fa', 15, true);
-                }
-            }
-        }
-    }
+    const { streak, multiplier } = state.scoring;
+    if (streak !== combo.streak || multiplier !== combo.multiplier) setCombo({ streak, multiplier });
 
-    // -- Render Entities --
-
-    if (isBossLevel) {
-        ctx.save();
-        ctx.translate(centerX, centerY);
-        ctx.rotate(timestamp / 2000);
-        ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
-        ctx.lineWidth = 2;
-        ctx.beginPath();
-        const bossSize = 100 + Math.sin(timestamp / 500) * 10;
-        ctx.rect(-bossSize/2, -bossSize/2, bossSize, bossSize);
-        ctx.stroke();
-        ctx.restore();
+    const { boss } = state;
+    if (boss.hp !== bossHud.hp || boss.maxHp !== bossHud.maxHp || boss.shieldSequence.length !== bossHud.shield.length) {
+        setBossHud({ hp: boss.hp, maxHp: boss.maxHp, shield: [...boss.shieldSequence] });
     }
 
-    ctx.save();
-    ctx.translate(centerX, centerY);
-    if (skillsRef.current.shieldActive) {
-        ctx.strokeStyle = '#60a5fa';
-        ctx.lineWidth = 2;
-        ctx.shadowColor = '#60a5fa';
-        ctx.shadowBlur = 10;
-        ctx.beginPath();
-        ctx.arc(0, 0, 50, 0, Math.PI * 2);
-        ctx.stroke();
-        ctx.shadowBlur = 0;
+    // Cooldown arcs are quantized so React only re-renders when they visibly move
+    const nextCooldowns = createCooldownMirror(id => Math.ceil(getCooldownRemaining(state.skills[id], state.time) * 100) / 100);
+    if (SKILL_ORDER.some(id => nextCooldowns[id] !== cooldowns[id])) setCooldowns(nextCooldowns);
+
+    // Backing store in device pixels, capped by the quality level
+    const pixelRatio = getPixelRatio(quality);
+    const backingWidth = Math.round(viewWidth * pixelRatio);
+    const backingHeight = Math.round(viewHeight * pixelRatio);
+    if (canvas.width !== backingWidth || canvas.height !== backingHeight) {
+        canvas.width = backingWidth;
+        canvas.height = backingHeight;
     }
-    ctx.fillStyle = '#FFFFFF';
-    ctx.beginPath(); ctx.arc(0, 0, 15, 0, Math.PI * 2); ctx.fill();
-    ctx.restore();
-
-    enemiesRef.current.forEach(enemy => {
-        ctx.strokeStyle = enemy.isBossSigil ? '#f87171' : '#FFFFFF';
-        ctx.lineWidth = 2;
-        ctx.beginPath();
-        ctx.arc(enemy.x, enemy.y, enemy.radius, 0, Math.PI * 2);
-        ctx.stroke();
-        
-        ctx.fillStyle = enemy.isBossSigil ? '#f87171' : enemy.color;
-        ctx.shadowColor = enemy.color;
-        ctx.shadowBlur = 5;
-        ctx.font = 'bold 22px monospace';
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-        ctx.fillText(getSymbolIcon(enemy.symbol), enemy.x, enemy.y);
-        ctx.shadowBlur = 0;
-    });
 
-    particlesRef.current.forEach(p => {
-        p.x += p.vx * dt;
-        p.y += p.vy * dt;
-        p.life -= 0.02;
-        if (p.life <= 0) return;
-
-        ctx.globalAlpha = Math.max(0, p.life);
-        ctx.fillStyle = p.color;
-        if (p.glow) {
-            ctx.shadowColor = p.color;
-            ctx.shadowBlur = 10;
-        }
-        ctx.beginPath();
-        const radius = Math.max(0, p.size * p.life);
-        ctx.arc(p.x, p.y, radius, 0, Math.PI * 2); 
-        ctx.fill();
-        ctx.shadowBlur = 0;
-        ctx.globalAlpha = 1.0;
+    particlesRef.current.maxParticles = quality.maxParticles;
+    updateParticles(particlesRef.current, frameMs, state.timeScale);
+    drawScene(ctx, {
+        state,
+        background: biomeData.bg,
+        bossColor: bossData.color,
+        particles: particlesRef.current,
+        strokes: strokesRef.current.active(),
+        cat: { animation: catAnimationRef.current, look: { outfit, name: catName } },
+        upgrades: sim.config.upgrades,
+        quality
     });
-    particlesRef.current = particlesRef.current.filter(p => p.life > 0);
-
-    if (drawingPointsRef.current.length > 0) {
-        ctx.strokeStyle = '#FFFFFF';
-        ctx.lineWidth = 4;
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-        ctx.shadowColor = '#FFFFFF';
-        ctx.shadowBlur = 15;
-        
-        ctx.beginPath();
-        ctx.moveTo(drawingPointsRef.current[0].x, drawingPointsRef.current[0].y);
-        for (let i = 1; i < drawingPointsRef.current.length; i++) {
-            ctx.lineTo(drawingPointsRef.current[i].x, drawingPointsRef.current[i].y);
-        }
-        ctx.stroke();
-        ctx.shadowBlur = 0;
-    }
+    if (gestureDebug && lastTrace) drawGestureDebug(ctx, lastTrace);
 
-  }, [gameState, score, targetScore, isBossLevel, currentBiomeIndex, currentLevel, handleLevelComplete, biomeData, isPaused, t]);
+  }, [score, bossHud, combo, cooldowns, endlessHud, secondsLeft, timeLimit, totalLevelsCleared, isEndless, isDaily, biomeData, bossData, isPaused, gestureDebug, lastTrace, graphics.showFps, outfit, catName, handleLevelComplete, setScore, setGameState]);
 
   // -- Event Listeners & Setup --
   
   // 1. Initialization Effect
-  // IMPORTANT: Resets game data when entering PLAYING state
+  // IMPORTANT: Starts a fresh level simulation when entering PLAYING state
   useEffect(() => {
     if (gameState === GameState.PLAYING) {
-        enemiesRef.current = [];
-        particlesRef.current = [];
-        bossRef.current.active = false;
+        // Endless always starts from scratch; the campaign resumes where it is
+        const config: SimulationConfig = {
+            seed: randomSeed(),
+            width: window.innerWidth,
+            height: window.innerHeight,
+            biomeIndex: isEndless ? 0 : currentBiomeIndex,
+            level: isEndless ? 1 : currentLevel,
+            totalLevelsCleared: isEndless ? 0 : totalLevelsCleared,
+            maxHealth,
+            mode: isEndless ? 'endless' : isDaily ? 'daily' : 'campaign',
+            upgrades: isEndless || isDaily ? {} : upgrades,
+            enemySpeed: difficulty.enemySpeed,
+            spawnRate: difficulty.spawnRate,
+            wave: levelWave,
+            ...(daily ? getDailyConfig(daily) : {})
+        };
+        if (isEndless) {
+            setCurrentBiomeIndex(0);
+            setTotalLevelsCleared(0);
+            setEndlessHud({ stage: 1, seconds: 0 });
+        }
+        simRef.current = createGameSimulation(config);
+        recorder?.beginLevel(config);
+        accumulatorRef.current = 0;
+        lastFrameTimeRef.current = null;
+        particlesRef.current = createParticleSystem(config.seed);
+        catAnimationRef.current = createCatAnimation();
+        bindingsRef.current = loadBindings(); // May have been remapped in the menu
+        strokesRef.current.clear();
         setIsPaused(false);
         setHealth(maxHealth); 
+        setCombo({ streak: 0, multiplier: 1 });
+        setCooldowns(createCooldownMirror());
+        setSecondsLeft(Math.ceil((timeLimit ?? 0) / 1000));
         // FIX: Reset score on every level start to allow progression check to work correctly
         setScore(0);
-        lastSpawnTimeRef.current = performance.now();
     }
   }, [gameState, setScore]);
 
+  // Ambient loop for the current biome, silent outside of play and while paused
+  useEffect(() => {
+    if (gameState === GameState.PLAYING && !isPaused) audioEngine.startMusic(currentBiome);
+    else audioEngine.stopMusic();
+  }, [gameState, isPaused, currentBiome]);
+
+  useEffect(() => () => audioEngine.stopMusic(), []);
+
+  // Calibration is per cat, so reload templates whenever the name changes
+  useEffect(() => {
+    templatesRef.current = getTemplatesForPlayer(catName);
+  }, [catName]);
+
   // 2. Loop Management Effect
   useEffect(() => {
     if (gameState !== GameState.PLAYING) return;
@@ -543,36 +449,77 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, score,
     return () => cancelAnimationFrame(id);
   }, [gameState, gameLoop]);
 
-  const handleInputStart = (x: number, y: number) => {
+  // Auto-pause assist: stop when the tab is hidden or the window loses focus
+  useEffect(() => {
+    if (gameState !== GameState.PLAYING || !difficulty.autoPause) return;
+    const pause = () => setIsPaused(true);
+    const onVisibilityChange = () => { if (document.hidden) pause(); };
+    window.addEventListener('blur', pause);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+        window.removeEventListener('blur', pause);
+        document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [gameState, difficulty.autoPause]);
+
+  // 3. Keyboard and gamepad bindings
+  useEffect(() => {
+    if (gameState !== GameState.PLAYING) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+        if (e.repeat) return;
+        if (e.code === GESTURE_DEBUG_KEY) {
+            setGestureDebug(prev => !prev);
+            return;
+        }
+        const action = findKeyAction(bindingsRef.current, e.code);
+        if (!action) return;
+        e.preventDefault();
+        handleBoundAction(action);
+    };
+    window.addEventListener('keydown', onKeyDown);
+
+    // The Gamepad API has no events; poll for newly pressed buttons every frame
+    let id: number;
+    const poll = () => {
+        gamepadRef.current.poll().forEach(button => {
+            const action = findButtonAction(bindingsRef.current, button);
+            if (action) handleBoundAction(action);
+        });
+        id = requestAnimationFrame(poll);
+    };
+    id = requestAnimationFrame(poll);
+
+    return () => {
+        window.removeEventListener('keydown', onKeyDown);
+        cancelAnimationFrame(id);
+    };
+  }, [gameState, isPaused]);
+
+  // Every pointer draws its own stroke; capture keeps it alive off-canvas
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
       if (gameState !== GameState.PLAYING || isPaused) return;
-      isDrawingRef.current = true;
-      drawingPointsRef.current = [{x, y}];
+      if ((e.target as Element).closest('button, [data-hud]')) return; // Let the HUD take its own presses
+      e.currentTarget.setPointerCapture(e.pointerId);
+      strokesRef.current.begin(e.nativeEvent);
   };
-  const handleInputMove = (x: number, y: number) => {
-      if (!isDrawingRef.current || gameState !== GameState.PLAYING || isPaused) return;
-      const last = drawingPointsRef.current[drawingPointsRef.current.length-1];
-      if (Math.hypot(x - last.x, y - last.y) > 5) {
-          drawingPointsRef.current.push({x, y});
-      }
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+      if (gameState !== GameState.PLAYING || isPaused) return;
+      strokesRef.current.move(e.nativeEvent);
   };
-  const handleInputEnd = () => {
-      if (!isDrawingRef.current) return;
-      isDrawingRef.current = false;
-      checkGesture();
-      drawingPointsRef.current = [];
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+      const points = strokesRef.current.end(e.nativeEvent);
+      if (points && !isPaused) checkGesture(points);
   };
 
   return (
     <div 
         ref={containerRef}
         className="relative w-full h-full overflow-hidden select-none touch-none"
-        onTouchStart={e => handleInputStart(e.touches[0].clientX, e.touches[0].clientY)}
-        onTouchMove={e => handleInputMove(e.touches[0].clientX, e.touches[0].clientY)}
-        onTouchEnd={handleInputEnd}
-        onMouseDown={e => handleInputStart(e.clientX, e.clientY)}
-        onMouseMove={e => handleInputMove(e.clientX, e.clientY)}
-        onMouseUp={handleInputEnd}
-        onMouseLeave={handleInputEnd}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={e => strokesRef.current.cancel(e.nativeEvent)}
     >
       <canvas ref={canvasRef} className="block w-full h-full" />
 
@@ -582,12 +529,26 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, score,
             {/* Top Bar */}
             <div className="absolute top-4 left-0 w-full flex justify-between px-6 items-center pointer-events-none">
                 <div className="text-xs uppercase tracking-widest text-white/50">
-                    {biomeData.name[language]} <span className="text-white">| {currentLevel === 11 ? 'BOSS' : `${t.level} ${currentLevel}`}</span>
+                    {t(`biome.${currentBiome}`)} <span className="text-white">| {isEndless
+                        ? `${t('common.endless')} · ${t('game.stage')} ${endlessHud.stage} · ${formatClock(endlessHud.seconds)}`
+                        : isDaily ? t('common.daily')
+                        : `${isBossLevel ? t('common.boss') : `${t('common.level')} ${currentLevel}`}${playtest ? ` · ${t('common.playtest')}` : ''}`}</span>
                 </div>
                 
                 {/* Score & Pause Button Area */}
                 <div className="flex items-center gap-4">
-                    {!isBossLevel && (
+                    {isEndless && (
+                        <span className="text-2xl font-thin font-serif pointer-events-none">{score}</span>
+                    )}
+                    {timeLimit !== undefined && (
+                        <span className="flex items-center gap-1 text-sm font-mono text-white/60 pointer-events-none">
+                            <Hourglass size={14} strokeWidth={1.5} /> {formatClock(secondsLeft)}
+                        </span>
+                    )}
+                    {!isBossLevel && !isEndless && targetScore === 0 && (
+                        <span className="text-2xl font-thin font-serif pointer-events-none">{score}</span>
+                    )}
+                    {!isBossLevel && !isEndless && targetScore > 0 && (
                         <div className="flex flex-col items-end pointer-events-none">
                              <span className="text-2xl font-thin font-serif">{score} <span className="text-sm text-white/40">/ {targetScore}</span></span>
                              <div className="w-24 h-1 bg-white/10 mt-1">
@@ -596,7 +557,20 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, score,
                         </div>
                     )}
                     {isBossLevel && (
-                         <div className="text-red-500 font-bold tracking-widest animate-pulse pointer-events-none">{t.bossBattle}</div>
+                        <div className="flex flex-col items-end pointer-events-none">
+                            <span className="text-xs uppercase tracking-widest" style={{ color: bossData.color }}>{bossName}</span>
+                            <div className="w-40 h-1.5 bg-white/10 mt-1">
+                                <div className="h-full transition-all duration-300" style={{ width: `${bossHud.maxHp ? (bossHud.hp / bossHud.maxHp) * 100 : 100}%`, backgroundColor: bossData.color }}></div>
+                            </div>
+                            {bossHud.shield.length > 0 && (
+                                <div className="flex gap-1 mt-2 font-mono text-sm">
+                                    <Shield size={14} className="text-white/60 mr-1" />
+                                    {bossHud.shield.map((spell, i) => (
+                                        <span key={i} className={i === 0 ? 'animate-pulse' : 'opacity-40'} style={{ color: getSymbolColor(spell) }}>{getSymbolIcon(spell)}</span>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
                     )}
                     
                     <button 
@@ -605,6 +579,14 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, score,
                     >
                         {isPaused ? <Play size={24} fill="white" /> : <Pause size={24} fill="white" />}
                     </button>
+                    {playtest && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onPlaytestEnd?.({ outcome: 'playing', score }); }}
+                            className="pointer-events-auto p-2 hover:bg-white/10 rounded-full transition-colors z-50"
+                        >
+                            <X size={24} />
+                        </button>
+                    )}
                 </div>
             </div>
 
@@ -619,55 +601,149 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, score,
                     />
                 ))}
             </div>
+
+            {/* Combo */}
+            {combo.streak > 1 && (
+                <div className="absolute top-24 left-0 w-full flex justify-center items-center gap-2 pointer-events-none font-mono">
+                    <Flame size={16} className={combo.multiplier > 1 ? 'text-orange-400' : 'text-white/40'} />
+                    <span className="text-sm text-white/70">{t('game.combo')} {combo.streak}</span>
+                    {combo.multiplier > 1 && <span className="text-lg text-orange-300">×{combo.multiplier}</span>}
+                </div>
+            )}
             
             {/* Pause Overlay */}
             {isPaused && (
                 <div className="absolute inset-0 bg-black/40 backdrop-blur-sm z-40 flex items-center justify-center pointer-events-none">
-                    <span className="text-4xl font-thin tracking-[0.5em] text-white animate-pulse">{t.paused}</span>
+                    <span className="text-4xl font-thin tracking-[0.5em] text-white animate-pulse">{t('game.paused')}</span>
                 </div>
             )}
 
             {/* Skills Bar */}
-            <div className="absolute bottom-8 w-full flex justify-center gap-6 pointer-events-auto z-30">
-                <SkillButton 
-                    icon={<Shield size={20} />} 
-                    isUnlocked={totalLevelsCleared >= 5}
-                    cooldownInfo={cooldowns.shield}
-                    onClick={() => activateSkill('shield')}
-                />
-                <SkillButton 
-                    icon={<Hourglass size={20} />} 
-                    isUnlocked={totalLevelsCleared >= 10}
-                    cooldownInfo={cooldowns.hourglass}
-                    onClick={() => activateSkill('hourglass')}
-                />
-                <SkillButton 
-                    icon={<Bomb size={20} />} 
-                    isUnlocked={totalLevelsCleared >= 15}
-                    cooldownInfo={cooldowns.bomb}
-                    onClick={() => activateSkill('bomb')}
-                />
+            <div data-hud className="absolute bottom-8 left-1/2 -translate-x-1/2 flex gap-4 pointer-events-auto z-30">
+                {SKILL_ORDER.map(skill => (
+                    <SkillButton
+                        key={skill}
+                        icon={<SkillIcon skill={skill} />}
+                        isUnlocked={simRef.current?.state.skills[skill].isUnlocked ?? false}
+                        cooldown={cooldowns[skill]}
+                        hotkey={formatKey(bindingsRef.current.keyboard[skill])}
+                        onClick={() => activateSkill(skill)}
+                    />
+                ))}
             </div>
             
-            {/* Center Character Anchor */}
-            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 pointer-events-none opacity-80">
-                <Cat size={48} strokeWidth={1} className="text-white" />
-            </div>
+            {/* FPS Overlay */}
+            {graphics.showFps && frameStats && (
+                <div className="absolute top-10 left-6 font-mono text-[10px] text-white/40 pointer-events-none">
+                    {Math.round(frameStats.fps)} fps · {frameStats.frameMs.toFixed(1)} ms · max {frameStats.worstMs.toFixed(1)} ms · {t(`graphics.${frameStats.quality as GraphicsQuality}`)}
+                </div>
+            )}
+
+            {/* Gesture Debug Panel */}
+            {gestureDebug && (
+                <div data-hud className="absolute bottom-28 left-4 w-56 p-3 bg-black/60 border border-white/10 rounded font-mono text-[10px] text-white/70 pointer-events-auto z-30">
+                    {lastTrace?.heuristics && (
+                        <div className="grid grid-cols-2 gap-x-2 mb-2">
+                            <span>linearity</span><span className="text-right">{lastTrace.heuristics.linearity.toFixed(3)}</span>
+                            <span>aspectRatio</span><span className="text-right">{lastTrace.heuristics.aspectRatio.toFixed(3)}</span>
+                            <span>intersectionCount</span><span className="text-right">{lastTrace.heuristics.intersectionCount}</span>
+                            <span>xTravelRatio</span><span className="text-right">{lastTrace.heuristics.xTravelRatio.toFixed(3)}</span>
+                            <span>isClosed</span><span className="text-right">{String(lastTrace.heuristics.isClosed)}</span>
+                        </div>
+                    )}
+                    {lastTrace && (
+                        <div className="mb-2 space-y-0.5">
+                            <div className="text-white/40">{lastTrace.points.length} pts</div>
+                            {describeDecision(lastTrace).map((line, i) => <div key={i}>{line}</div>)}
+                        </div>
+                    )}
+                    <button
+                        onClick={(e) => { e.stopPropagation(); downloadGestureFixtures(gestureLogRef.current); }}
+                        disabled={!lastTrace}
+                        className="flex items-center gap-1 px-2 py-1 border border-white/20 hover:border-white/60 disabled:opacity-30 transition-colors"
+                    >
+                        <Download size={12} /> fixtures.json
+                    </button>
+                </div>
+            )}
+
           </>
       )}
 
       {/* Level Complete Overlay */}
       {gameState === GameState.LEVEL_COMPLETE && (
-          <div className="absolute inset-0 bg-black/80 flex flex-col items-center justify-center animate-fade-in z-50">
+          <div className="absolute inset-0 bg-black/80 flex flex-col items-center justify-center animate-fade-in z-50 overflow-y-auto py-8">
+              <CatPortrait outfit={outfit} pose="victory" name={catName} size={96} />
               <h2 className="text-3xl font-thin text-white mb-4 tracking-widest uppercase">
-                  {currentLevel === 11 ? t.bossDefeated : t.levelComplete}
+                  {currentLevel === 11 ? t('game.bossDefeated') : t('game.levelComplete')}
               </h2>
-              <div className="text-white/60 mb-8">{t.levelScore}: {score}</div>
+              <div className="text-white/60 mb-4">{t('game.levelScore')}: {score}</div>
+              {levelSummary?.unlocked && (
+                  <div className="flex items-center gap-2 mb-4 text-xs uppercase tracking-widest text-yellow-300 animate-fade-in">
+                      <Shirt size={14} strokeWidth={1.5} />
+                      {t('game.cosmeticUnlocked', { name: t(`cosmetic.${levelSummary.unlocked as CosmeticId}`) })}
+                  </div>
+              )}
+              {levelSummary && (
+                  <div className="w-64 mb-8 text-xs font-mono text-white/50 space-y-1">
+                      {([
+                          [t('score.base'), levelSummary.breakdown.base],
+                          [t('score.multiKill'), levelSummary.breakdown.multiKill],
+                          [t('score.nearMiss'), levelSummary.breakdown.nearMiss],
+                          [t('score.accuracy'), levelSummary.breakdown.accuracy],
+                          [t('score.boss'), levelSummary.breakdown.boss],
+                          [t('score.streak'), levelSummary.breakdown.streak]
+                      ] as [string, number][]).filter(([, points]) => points > 0).map(([label, points]) => (
+                          <div key={label} className="flex justify-between">
+                              <span className="uppercase tracking-wider">{label}</span>
+                              <span className="text-white/80">+{points}</span>
+                          </div>
+                      ))}
+                      <div className="flex justify-between pt-2 border-t border-white/10">
+                          <span className="uppercase tracking-wider">{t('game.bestStreak')}</span>
+                          <span className="text-white/80">{levelSummary.bestStreak}</span>
+                      </div>
+                      <div className="flex justify-between">
+                          <span className="uppercase tracking-wider">{t('game.essenceEarned')}</span>
+                          <span className="text-yellow-300">+{levelSummary.essence}</span>
+                      </div>
+                  </div>
+              )}
+
+              {/* Skill Shop */}
+              {onPurchaseUpgrade && (
+                  <div className="w-72 mb-8 text-xs font-mono text-white/50">
+                      <div className="flex justify-between items-center mb-2 uppercase tracking-wider">
+                          <span>{t('game.upgrades')}</span>
+                          <span className="flex items-center gap-1 text-yellow-300"><Sparkles size={12} /> {essence}</span>
+                      </div>
+                      {UPGRADES.map(upgrade => {
+                          const level = upgrades[upgrade.id] ?? 0;
+                          const cost = getUpgradeCost(upgrade, upgrades);
+                          return (
+                              <div key={upgrade.id} className="flex items-center gap-2 py-1 border-t border-white/5">
+                                  {upgrade.skill ? <SkillIcon skill={upgrade.skill} size={14} strokeWidth={1.5} /> : <Sparkles size={14} strokeWidth={1.5} />}
+                                  <div className="flex-1 text-left">
+                                      <div className="text-white/80">{t(`upgrade.${upgrade.id}`)} <span className="text-white/30">{level}/{upgrade.maxLevel}</span></div>
+                                      <div className="text-[10px]">{t(`upgrade.${upgrade.id}.description`)}</div>
+                                  </div>
+                                  <button
+                                      disabled={cost === null || essence < cost}
+                                      onClick={() => onPurchaseUpgrade(upgrade.id)}
+                                      className="px-2 py-1 border border-white/20 hover:border-yellow-300 disabled:opacity-30 disabled:hover:border-white/20 transition-colors"
+                                  >
+                                      {cost === null ? t('game.maxed') : cost}
+                                  </button>
+                              </div>
+                          );
+                      })}
+                  </div>
+              )}
               <button 
                 onClick={() => setGameState(GameState.PLAYING)}
                 className="px-8 py-3 border border-white text-white hover:bg-white hover:text-black transition-all uppercase tracking-widest text-sm"
               >
-                  {t.nextLevel}
+                  {t('game.nextLevel')}
               </button>
           </div>
       )}
@@ -679,24 +755,10 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, score,
 const SkillButton: React.FC<{
     icon: React.ReactNode; 
     isUnlocked: boolean; 
-    cooldownInfo: { end: number, total: number };
+    cooldown: number; // Fraction left, 0 = ready
+    hotkey: string;
     onClick: () => void;
-}> = ({ icon, isUnlocked, cooldownInfo, onClick }) => {
-    const [progress, setProgress] = useState(0); // 0 to 1
-
-    useEffect(() => {
-        const interval = setInterval(() => {
-            const now = Date.now();
-            if (now >= cooldownInfo.end) {
-                setProgress(0);
-            } else {
-                const remaining = cooldownInfo.end - now;
-                setProgress(remaining / cooldownInfo.total);
-            }
-        }, 50);
-        return () => clearInterval(interval);
-    }, [cooldownInfo]);
-
+}> = ({ icon, isUnlocked, cooldown: progress, hotkey, onClick }) => {
     if (!isUnlocked) {
         return (
             <div className="w-14 h-14 rounded-full border border-white/10 flex items-center justify-center opacity-30">
@@ -737,8 +799,10 @@ const SkillButton: React.FC<{
             
             {/* Icon */}
             <div className="relative z-10">{icon}</div>
+            <span className="absolute -bottom-4 text-[9px] font-mono text-white/30">{hotkey}</span>
         </button>
     );
 }
 
+
 export default GameCanvas;
\ No newline at end of file
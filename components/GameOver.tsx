@@ -1,51 +1,154 @@
-import React from 'react';
-import { RotateCcw, Home } from 'lucide-react';
-import { Language } from '../types';
+import React, { useState } from 'react';
+import { RotateCcw, Home, Film, Download, Trophy, CalendarDays, Copy, Check } from 'lucide-react';
+import { Language, SkillId, SpellType } from '../types';
+import { BIOME_ORDER } from '../utils/gameConfig';
+import { getSymbolColor, getSymbolIcon } from '../utils/gesture';
+import { LeaderboardResult } from '../utils/leaderboard';
+import { HighScoreResult } from '../utils/highScores';
+import { RunStats } from '../utils/runStats';
+import { createTranslator } from '../utils/i18n';
+import SkillIcon from './SkillIcon';
 
 interface GameOverProps {
   score: number;
   catName: string;
   onRestart: () => void;
+  onMenu: () => void;
+  onWatchReplay: () => void;
+  onExportReplay: () => void;
+  leaderboard?: LeaderboardResult | null; // Only after an Endless run
+  runStats?: RunStats | null;
+  highScores?: HighScoreResult | null; // Only after a campaign run
+  dailyCode?: string | null; // Only after a Daily Challenge run
   language: Language;
 }
 
-const GameOver: React.FC<GameOverProps> = ({ score, catName, onRestart, language }) => {
-  const t = {
-      pt: {
-          finalScore: 'Pontuação Final',
-          journeyEnd: (name: string) => <>A jornada de <span className="font-bold border-b border-white/20">{name}</span> terminou.</>,
-          menu: 'Menu',
-          restart: 'Reiniciar'
-      },
-      en: {
-          finalScore: 'Final Score',
-          journeyEnd: (name: string) => <>The journey of <span className="font-bold border-b border-white/20">{name}</span> has ended.</>,
-          menu: 'Menu',
-          restart: 'Restart'
-      }
-  }[language];
+const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const GameOver: React.FC<GameOverProps> = ({ score, catName, onRestart, onMenu, onWatchReplay, onExportReplay, leaderboard, runStats, highScores, dailyCode, language }) => {
+  const [copied, setCopied] = useState(false);
+
+  const t = createTranslator(language);
+
+  // Stored scores may come from a build with more biomes
+  const biomeName = (index: number) => BIOME_ORDER[index] ? t(`biome.${BIOME_ORDER[index]}`) : '';
 
   return (
-    <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/90 backdrop-blur-md p-6 text-center animate-fade-in">
+    <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/90 backdrop-blur-md p-6 text-center animate-fade-in overflow-y-auto">
       
       <div className="mb-8">
           <span className="text-6xl font-thin text-white block mb-2">{score}</span>
-          <span className="text-xs text-white/40 uppercase tracking-[0.3em]">{t.finalScore}</span>
+          <span className="text-xs text-white/40 uppercase tracking-[0.3em]">{t('gameOver.finalScore')}</span>
       </div>
 
       <h2 className="text-xl text-white/80 mb-12 font-light">
-        {t.journeyEnd(catName)}
+        {t.parts('gameOver.journeyEnd', { name: <span key="name" className="font-bold border-b border-white/20">{catName}</span> })}
       </h2>
 
+      {runStats && (
+          <div className="w-full max-w-sm mb-8 text-xs font-mono text-white/50">
+              <div className="grid grid-cols-3 gap-y-2 mb-3">
+                  <div className="flex flex-col"><span className="text-white text-base">{runStats.levelsCleared}</span>{t('gameOver.levelsCleared')}</div>
+                  <div className="flex flex-col"><span className="text-white text-base">{biomeName(runStats.biomeReached)}</span>{t('gameOver.biomeReached')}</div>
+                  <div className="flex flex-col"><span className="text-white text-base">{formatDuration(runStats.playTimeMs)}</span>{t('gameOver.playTime')}</div>
+                  <div className="flex flex-col"><span className="text-white text-base">{runStats.damageTaken}</span>{t('gameOver.damageTaken')}</div>
+                  <div className="flex flex-col"><span className="text-white text-base">{runStats.failedGestures}</span>{t('gameOver.failedGestures')}</div>
+                  <div className="flex flex-col"><span className="text-white text-base">{runStats.unrecognizedGestures}</span>{t('gameOver.unrecognizedGestures')}</div>
+              </div>
+              <div className="flex justify-center flex-wrap gap-3 mb-2">
+                  <span className="uppercase tracking-wider">{t('gameOver.kills')}</span>
+                  {Object.values(SpellType).filter(spell => runStats.killsBySpell[spell]).map(spell => (
+                      <span key={spell}>
+                          <span style={{ color: getSymbolColor(spell) }}>{getSymbolIcon(spell)}</span> {runStats.killsBySpell[spell]}
+                      </span>
+                  ))}
+              </div>
+              {Object.keys(runStats.skillsUsed).length > 0 && (
+                  <div className="flex justify-center items-center gap-3">
+                      <span className="uppercase tracking-wider">{t('gameOver.skillsUsed')}</span>
+                      {(Object.keys(runStats.skillsUsed) as SkillId[]).map(skill => (
+                          <span key={skill} className="flex items-center gap-1"><SkillIcon skill={skill} size={12} strokeWidth={1.5} /> {runStats.skillsUsed[skill]}</span>
+                      ))}
+                  </div>
+              )}
+          </div>
+      )}
+
+      {highScores && (
+          <div className="w-full max-w-xs mb-10 text-xs font-mono">
+              <div className="flex items-center justify-center gap-2 text-white/40 uppercase tracking-[0.3em] mb-3">
+                  <Trophy size={14} strokeWidth={1.5} /> {t('gameOver.highScores')}
+              </div>
+              {highScores.isNewBest && highScores.rank === 0 && <div className="text-yellow-300 mb-2 animate-pulse">{t('gameOver.newRecord')}</div>}
+              {highScores.entries.map((entry, i) => (
+                  <div
+                      key={entry.catName}
+                      className={`flex justify-between px-2 py-0.5 ${highScores.isNewBest && i === highScores.rank ? 'bg-white/10 text-white' : 'text-white/50'}`}
+                  >
+                      <span>{i + 1}. {entry.catName}</span>
+                      <span className="text-white/30">{biomeName(entry.biomeReached)} · {entry.levelsCleared}</span>
+                      <span>{entry.score}</span>
+                  </div>
+              ))}
+              {!highScores.isNewBest && (
+                  <div className="flex justify-between px-2 py-0.5 mt-2 border-t border-white/10 bg-white/10 text-white">
+                      <span>{t('gameOver.thisRun')}</span>
+                      <span>{score}</span>
+                  </div>
+              )}
+          </div>
+      )}
+
+      {dailyCode && (
+          <div className="w-full max-w-xs mb-10 text-xs font-mono">
+              <div className="flex items-center justify-center gap-2 text-white/40 uppercase tracking-[0.3em] mb-3">
+                  <CalendarDays size={14} strokeWidth={1.5} /> {t('gameOver.dailyCode')}
+              </div>
+              <div className="flex items-center gap-2 px-3 py-2 border border-white/20 bg-white/5">
+                  <span className="flex-1 text-white select-all break-all">{dailyCode}</span>
+                  <button
+                      onClick={() => navigator.clipboard?.writeText(dailyCode).then(() => setCopied(true), () => {})}
+                      className="text-white/50 hover:text-white transition-colors"
+                      title={t('gameOver.copy')}
+                  >
+                      {copied ? <Check size={14} /> : <Copy size={14} />}
+                  </button>
+              </div>
+              <div className="text-white/30 mt-2">{t('gameOver.dailyShare')}</div>
+          </div>
+      )}
+
+      {leaderboard && (
+          <div className="w-full max-w-xs mb-10 text-xs font-mono">
+              <div className="flex items-center justify-center gap-2 text-white/40 uppercase tracking-[0.3em] mb-3">
+                  <Trophy size={14} strokeWidth={1.5} /> {t('gameOver.leaderboard')}
+              </div>
+              {leaderboard.rank === 0 && <div className="text-yellow-300 mb-2 animate-pulse">{t('gameOver.newRecord')}</div>}
+              {leaderboard.entries.map((entry, i) => (
+                  <div
+                      key={entry.id}
+                      className={`flex justify-between px-2 py-0.5 ${entry.id === leaderboard.entryId ? 'bg-white/10 text-white' : 'text-white/50'}`}
+                  >
+                      <span>{i + 1}. {entry.catName}</span>
+                      <span className="text-white/30">{biomeName(entry.biomeIndex)} · {Math.floor(entry.survivedMs / 1000)}s</span>
+                      <span>{entry.score}</span>
+                  </div>
+              ))}
+          </div>
+      )}
+
       <div className="flex gap-8">
         <button
-            onClick={() => window.location.reload()} // Simple way to go to menu for now
+            onClick={onMenu}
             className="flex flex-col items-center gap-2 text-white/50 hover:text-white transition-colors group"
         >
             <div className="w-16 h-16 rounded-full border border-white/20 flex items-center justify-center group-hover:border-white transition-colors">
                 <Home size={24} strokeWidth={1} />
             </div>
-            <span className="text-[10px] uppercase tracking-widest">{t.menu}</span>
+            <span className="text-[10px] uppercase tracking-widest">{t('gameOver.menu')}</span>
         </button>
 
         <button
@@ -55,7 +158,23 @@ const GameOver: React.FC<GameOverProps> = ({ score, catName, onRestart, language
             <div className="w-16 h-16 rounded-full border border-white/20 flex items-center justify-center group-hover:border-white transition-colors">
                 <RotateCcw size={24} strokeWidth={1} />
             </div>
-            <span className="text-[10px] uppercase tracking-widest">{t.restart}</span>
+            <span className="text-[10px] uppercase tracking-widest">{t('gameOver.restart')}</span>
+        </button>
+      </div>
+
+      {/* Replay */}
+      <div className="flex gap-6 mt-10">
+        <button
+            onClick={onWatchReplay}
+            className="flex items-center gap-2 text-white/40 hover:text-white transition-colors text-[10px] uppercase tracking-widest"
+        >
+            <Film size={16} strokeWidth={1.5} /> {t('gameOver.watchReplay')}
+        </button>
+        <button
+            onClick={onExportReplay}
+            className="flex items-center gap-2 text-white/40 hover:text-white transition-colors text-[10px] uppercase tracking-widest"
+        >
+            <Download size={16} strokeWidth={1.5} /> {t('gameOver.exportReplay')}
         </button>
       </div>
     </div>
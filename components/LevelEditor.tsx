@@ -0,0 +1,397 @@
+import React, { useRef, useState } from 'react';
+import { X, Plus, Trash2, Upload, Download, Play, Shuffle, Skull } from 'lucide-react';
+import { BiomeType, BossPhase, Language, SpellType } from '../types';
+import { BIOME_CONFIG, BIOME_ORDER } from '../utils/gameConfig';
+import { getSymbolColor, getSymbolIcon } from '../utils/gesture';
+import { SimulationStatus } from '../utils/gameSimulation';
+import {
+  LevelWave, SPAWN_SIDES, SpawnSide, StoredWaves, WaveSpawn,
+  BOSS_LEVEL, createLevelWave, decodeWaveFile, downloadWaveFile, getWaveMonsters, resolveWaveBoss, sortSpawns
+} from '../utils/waves';
+import { createTranslator } from '../utils/i18n';
+
+interface LevelEditorProps {
+  language: Language;
+  waves: StoredWaves;
+  setWaves: (waves: StoredWaves) => void;
+  onPlaytest: (wave: LevelWave) => void;
+  lastPlaytest: { outcome: SimulationStatus; score: number } | null;
+  onClose: () => void;
+}
+
+const LANES: SpawnSide[] = [...SPAWN_SIDES, 'random'];
+const MIN_TIMELINE_MS = 30000;
+const TIME_SNAP_MS = 100;
+const MAX_CHAIN = 4;
+
+const snapTime = (ms: number) => Math.max(0, Math.round(ms / TIME_SNAP_MS) * TIME_SNAP_MS);
+
+// Empty input means "not set"
+const parseOptional = (value: string, scale = 1): number | undefined =>
+  value.trim() === '' || !Number.isFinite(Number(value)) ? undefined : Number(value) * scale;
+
+// Designer screen for wave files: a level list, goal and boss settings, and a
+// timeline with one lane per spawn side. Click a lane to add a spawn there,
+// drag a marker to retime it.
+const LevelEditor: React.FC<LevelEditorProps> = ({ language, waves, setWaves, onPlaytest, lastPlaytest, onClose }) => {
+  const [levelIndex, setLevelIndex] = useState(0);
+  const [spawnIndex, setSpawnIndex] = useState<number | null>(null);
+  const [importError, setImportError] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef(false);
+
+  const t = createTranslator(language);
+
+  const { file } = waves;
+  const level: LevelWave | undefined = file.levels[levelIndex];
+  const spawn = level && spawnIndex !== null ? level.spawns[spawnIndex] : undefined;
+  const timelineMs = level
+      ? Math.max(MIN_TIMELINE_MS, level.duration ?? 0, (level.spawns[level.spawns.length - 1]?.time ?? 0) + 5000)
+      : MIN_TIMELINE_MS;
+
+  // --------------------------------------------------------------------------
+  // EDITING
+  // --------------------------------------------------------------------------
+
+  const updateLevels = (levels: LevelWave[]) => setWaves({ ...waves, file: { ...file, levels } });
+
+  const updateLevel = (changes: Partial<LevelWave>) => {
+      if (!level) return;
+      updateLevels(file.levels.map((l, i) => i === levelIndex ? { ...l, ...changes } : l));
+  };
+
+  const addLevel = () => {
+      const last = file.levels[file.levels.length - 1];
+      const biome: BiomeType = last?.biome ?? BIOME_ORDER[0];
+      updateLevels([...file.levels, createLevelWave(biome, last ? Math.min(BOSS_LEVEL, last.level + 1) : 1)]);
+      setLevelIndex(file.levels.length);
+      setSpawnIndex(null);
+  };
+
+  const removeLevel = (index: number) => {
+      updateLevels(file.levels.filter((_, i) => i !== index));
+      setLevelIndex(Math.max(0, Math.min(levelIndex, file.levels.length - 2)));
+      setSpawnIndex(null);
+  };
+
+  // Keeps the schedule sorted and the same spawn selected afterwards
+  const setSpawns = (spawns: WaveSpawn[], selected: WaveSpawn | null) => {
+      const sorted = sortSpawns(spawns);
+      updateLevel({ spawns: sorted });
+      setSpawnIndex(selected ? sorted.indexOf(selected) : null);
+  };
+
+  const updateSpawn = (changes: Partial<WaveSpawn>) => {
+      if (!level || !spawn) return;
+      const next = { ...spawn, ...changes };
+      setSpawns(level.spawns.map(s => s === spawn ? next : s), next);
+  };
+
+  const addSpawn = (time: number, side: SpawnSide) => {
+      if (!level) return;
+      // New spawns copy the selected one, so a run of similar enemies is quick to lay out
+      const next: WaveSpawn = spawn
+          ? { ...spawn, time, side }
+          : { time, side, monster: BIOME_CONFIG[level.biome].monsters[0] };
+      setSpawns([...level.spawns, next], next);
+  };
+
+  const removeSpawn = () => {
+      if (!level || !spawn) return;
+      setSpawns(level.spawns.filter(s => s !== spawn), null);
+  };
+
+  const timeAt = (clientX: number) => {
+      const rect = timelineRef.current?.getBoundingClientRect();
+      if (!rect || rect.width === 0) return 0;
+      return snapTime(((clientX - rect.left) / rect.width) * timelineMs);
+  };
+
+  const handleMarkerDown = (e: React.PointerEvent<HTMLDivElement>, index: number) => {
+      e.stopPropagation();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      draggingRef.current = true;
+      setSpawnIndex(index);
+  };
+
+  const handleMarkerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+      if (!draggingRef.current || !spawn) return;
+      const time = timeAt(e.clientX);
+      if (time !== spawn.time) updateSpawn({ time });
+  };
+
+  const toggleBoss = (enabled: boolean) => {
+      updateLevel({ boss: enabled ? {} : undefined });
+  };
+
+  // The last level of a biome is always its boss fight
+  const changeLevelNumber = (levelNumber: number) => {
+      if (!level) return;
+      updateLevel(levelNumber === BOSS_LEVEL ? { level: levelNumber, boss: level.boss ?? {} } : { level: levelNumber });
+  };
+
+  const updatePhase = (index: number, changes: Partial<BossPhase>) => {
+      if (!level) return;
+      const phases = resolveWaveBoss(level).phases.map((p, i) => i === index ? { ...p, ...changes } : p);
+      updateLevel({ boss: { ...level.boss, phases } });
+  };
+
+  const addPhase = () => {
+      if (!level) return;
+      const phases = resolveWaveBoss(level).phases;
+      updateLevel({ boss: { ...level.boss, phases: [...phases, { ...phases[phases.length - 1] }] } });
+  };
+
+  const removePhase = (index: number) => {
+      if (!level) return;
+      const phases = resolveWaveBoss(level).phases;
+      if (phases.length > 1) updateLevel({ boss: { ...level.boss, phases: phases.filter((_, i) => i !== index) } });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const selected = e.target.files?.[0];
+      e.target.value = '';
+      if (!selected) return;
+      const imported = decodeWaveFile(await selected.text());
+      setImportError(!imported);
+      if (!imported) return;
+      setWaves({ ...waves, file: imported });
+      setLevelIndex(0);
+      setSpawnIndex(null);
+  };
+
+  // --------------------------------------------------------------------------
+  // RENDER
+  // --------------------------------------------------------------------------
+
+  const fieldClass = 'bg-transparent border-b border-white/20 focus:border-white focus:outline-none py-0.5 w-20 text-white';
+
+  const renderSpawnEditor = (current: WaveSpawn) => (
+      <div className="grid grid-cols-2 gap-x-6 gap-y-2 p-4 border border-white/10 rounded bg-white/5">
+          <label className="flex items-center justify-between gap-2">
+              <span>{t('editor.time')}</span>
+              <input type="number" min={0} step={TIME_SNAP_MS / 1000} value={current.time / 1000}
+                  onChange={e => updateSpawn({ time: snapTime(Number(e.target.value) * 1000) })} className={fieldClass} />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+              <span>{t('editor.side')}</span>
+              <select value={current.side} onChange={e => updateSpawn({ side: e.target.value as SpawnSide })} className="bg-[#050f18] border border-white/20 px-1">
+                  {LANES.map(side => <option key={side} value={side}>{t(`side.${side}`)}</option>)}
+              </select>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+              <span>{t('editor.monster')}</span>
+              <select value={current.monster} onChange={e => updateSpawn({ monster: e.target.value })} className="bg-[#050f18] border border-white/20 px-1">
+                  {getWaveMonsters(level!.biome).map(id => <option key={id} value={id}>{id}</option>)}
+              </select>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+              <span>{t('editor.speed')}</span>
+              <input type="number" min={0.1} step={0.1} placeholder={t('editor.random')} value={current.speed ?? ''}
+                  onChange={e => updateSpawn({ speed: parseOptional(e.target.value) })} className={fieldClass} />
+          </label>
+          <label className="col-span-2 flex items-center justify-between gap-2">
+              <span>{t('editor.position')}</span>
+              <input type="range" min={0} max={1} step={0.05} value={current.position ?? 0.5}
+                  onChange={e => updateSpawn({ position: Number(e.target.value) })} className="flex-1 accent-white" />
+              <button onClick={() => updateSpawn({ position: undefined })} title={t('editor.random')}
+                  className={`p-1 rounded ${current.position === undefined ? 'text-white' : 'text-white/30 hover:text-white'}`}>
+                  <Shuffle size={14} />
+              </button>
+          </label>
+          <div className="col-span-2 flex items-center gap-2 flex-wrap">
+              <span>{t('editor.symbols')}</span>
+              <span className="flex gap-1 font-mono text-base min-w-[4rem]">
+                  {current.symbols
+                      ? current.symbols.map((s, i) => <span key={i} style={{ color: getSymbolColor(s) }}>{getSymbolIcon(s)}</span>)
+                      : <span className="text-white/30 text-xs">{t('editor.random')}</span>}
+              </span>
+              {Object.values(SpellType).map(spell => (
+                  <button key={spell}
+                      disabled={(current.symbols?.length ?? 0) >= MAX_CHAIN}
+                      onClick={() => updateSpawn({ symbols: [...(current.symbols ?? []), spell] })}
+                      className="w-7 h-7 border border-white/20 rounded font-mono hover:border-white disabled:opacity-30"
+                      style={{ color: getSymbolColor(spell) }}
+                  >
+                      {getSymbolIcon(spell)}
+                  </button>
+              ))}
+              <button onClick={() => updateSpawn({ symbols: undefined })} title={t('editor.random')} className="p-1 text-white/40 hover:text-white">
+                  <Shuffle size={14} />
+              </button>
+          </div>
+          <button onClick={removeSpawn} className="col-span-2 flex items-center justify-center gap-1 py-1 border border-red-400/30 text-red-300 hover:bg-red-400/10">
+              <Trash2 size={12} /> {t('editor.spawn')}
+          </button>
+      </div>
+  );
+
+  const renderLevelEditor = (current: LevelWave) => (
+      <div className="flex flex-col gap-4 flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-6">
+              <label className="flex items-center gap-2">
+                  <span>{t('editor.biome')}</span>
+                  <select value={current.biome} onChange={e => updateLevel({ biome: e.target.value as BiomeType })} className="bg-[#050f18] border border-white/20 px-1">
+                      {BIOME_ORDER.map(biome => <option key={biome} value={biome}>{t(`biome.${biome}`)}</option>)}
+                  </select>
+              </label>
+              <label className="flex items-center gap-2">
+                  <span>{t('common.level')}</span>
+                  <input type="number" min={1} max={BOSS_LEVEL} value={current.level}
+                      onChange={e => changeLevelNumber(Math.max(1, Math.min(BOSS_LEVEL, Math.round(Number(e.target.value)) || 1)))} className={fieldClass} />
+              </label>
+              <label className="flex items-center gap-2">
+                  <span>{t('editor.targetScore')}</span>
+                  <input type="number" min={0} value={current.targetScore ?? ''} disabled={current.boss !== undefined}
+                      onChange={e => updateLevel({ targetScore: parseOptional(e.target.value) })} className={fieldClass} />
+              </label>
+              <label className="flex items-center gap-2">
+                  <span>{t('editor.duration')}</span>
+                  <input type="number" min={0} value={current.duration === undefined ? '' : current.duration / 1000} disabled={current.boss !== undefined}
+                      onChange={e => updateLevel({ duration: parseOptional(e.target.value, 1000) })} className={fieldClass} />
+              </label>
+              <label className="flex items-center gap-2">
+                  <Skull size={14} />
+                  <span>{t('editor.boss')}</span>
+                  <input type="checkbox" checked={current.boss !== undefined} disabled={current.level === BOSS_LEVEL} onChange={e => toggleBoss(e.target.checked)} className="accent-white" />
+              </label>
+          </div>
+          {current.targetScore === undefined && current.duration === undefined && current.boss === undefined && (
+              <p className="text-white/40 normal-case tracking-normal">{t('editor.goalHint')}</p>
+          )}
+
+          {current.boss && (
+              <div className="flex flex-wrap gap-3">
+                  {resolveWaveBoss(current).phases.map((phase, i) => (
+                      <div key={i} className="flex items-center gap-3 px-3 py-2 border border-red-400/20 rounded">
+                          <span className="text-red-300">{t('editor.phase')} {i + 1}</span>
+                          <label className="flex items-center gap-1">
+                              <span>{t('editor.sigils')}</span>
+                              <input type="number" min={1} max={12} value={phase.sigils}
+                                  onChange={e => updatePhase(i, { sigils: Math.max(1, Math.round(Number(e.target.value)) || 1) })} className="bg-transparent border-b border-white/20 w-10" />
+                          </label>
+                          <label className="flex items-center gap-1">
+                              <span>{t('editor.interval')}</span>
+                              <input type="number" min={0.5} step={0.1} value={phase.attackInterval / 1000}
+                                  onChange={e => updatePhase(i, { attackInterval: Math.max(500, Number(e.target.value) * 1000) || 500 })} className="bg-transparent border-b border-white/20 w-12" />
+                          </label>
+                          <button onClick={() => removePhase(i)} className="text-white/30 hover:text-red-300"><Trash2 size={12} /></button>
+                      </div>
+                  ))}
+                  <button onClick={addPhase} className="px-2 border border-white/20 rounded hover:border-white"><Plus size={12} /></button>
+              </div>
+          )}
+
+          {/* Timeline */}
+          <div>
+              <div className="flex justify-between mb-1">
+                  <span>{t('editor.timeline')}</span>
+                  <span className="text-white/30 normal-case tracking-normal">{t('editor.timelineHint')}</span>
+              </div>
+              <div ref={timelineRef} className="relative border border-white/10 bg-white/5 select-none touch-none">
+                  {LANES.map(side => (
+                      <div key={side}
+                          onPointerDown={e => addSpawn(timeAt(e.clientX), side)}
+                          className="relative h-8 border-b border-white/5 last:border-b-0 cursor-copy"
+                      >
+                          <span className="absolute left-1 top-1 text-white/20 pointer-events-none">{t(`side.${side}`)}</span>
+                      </div>
+                  ))}
+                  {current.duration !== undefined && (
+                      <div className="absolute top-0 bottom-0 w-px bg-yellow-300/50 pointer-events-none" style={{ left: `${(current.duration / timelineMs) * 100}%` }} />
+                  )}
+                  {current.spawns.map((s, i) => (
+                      <div key={i}
+                          onPointerDown={e => handleMarkerDown(e, i)}
+                          onPointerMove={handleMarkerMove}
+                          onPointerUp={() => { draggingRef.current = false; }}
+                          className={`absolute w-4 h-4 -ml-2 mt-2 rounded-full border cursor-ew-resize ${i === spawnIndex ? 'border-white scale-125' : 'border-white/40'}`}
+                          style={{
+                              left: `${(s.time / timelineMs) * 100}%`,
+                              top: `${LANES.indexOf(s.side) * 2}rem`,
+                              backgroundColor: s.symbols ? getSymbolColor(s.symbols[0]) : 'rgba(255,255,255,0.2)'
+                          }}
+                          title={`${s.monster} · ${(s.time / 1000).toFixed(1)}s`}
+                      />
+                  ))}
+              </div>
+              <div className="flex justify-between text-white/30 mt-1">
+                  <span>0s</span>
+                  <span>{Math.round(timelineMs / 1000)}s</span>
+              </div>
+          </div>
+
+          {spawn && renderSpawnEditor(spawn)}
+      </div>
+  );
+
+  return (
+    <div className="absolute inset-0 z-50 flex flex-col bg-[#050f18] text-white p-6 animate-fade-in overflow-y-auto text-[10px] uppercase tracking-wider text-white/60">
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+          <h2 className="text-2xl font-thin tracking-[0.2em] text-white mr-4">{t('editor.title')}</h2>
+          <input
+              type="text"
+              value={file.name}
+              onChange={e => setWaves({ ...waves, file: { ...file, name: e.target.value } })}
+              placeholder={t('editor.fileName')}
+              className="bg-transparent border-b border-white/20 focus:border-white focus:outline-none py-1 text-sm text-white normal-case tracking-normal"
+          />
+          <label className="flex items-center gap-2">
+              <input type="checkbox" checked={waves.useInCampaign} onChange={e => setWaves({ ...waves, useInCampaign: e.target.checked })} className="accent-white" />
+              <span>{t('editor.useInCampaign')}</span>
+          </label>
+          <div className="flex items-center gap-2 ml-auto">
+              <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 px-3 py-1 border border-white/20 hover:border-white">
+                  <Upload size={12} /> {t('editor.import')}
+              </button>
+              <button onClick={() => downloadWaveFile(file)} className="flex items-center gap-1 px-3 py-1 border border-white/20 hover:border-white">
+                  <Download size={12} /> {t('editor.export')}
+              </button>
+              <button onClick={onClose} className="ml-2 text-white/50 hover:text-white transition-colors">
+                  <X size={28} strokeWidth={1} />
+              </button>
+          </div>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      </div>
+
+      {importError && <div className="mb-4 text-red-300">{t('editor.invalidFile')}</div>}
+
+      <div className="flex gap-6 items-start">
+          {/* Level List */}
+          <div className="w-48 shrink-0 flex flex-col gap-1">
+              <span className="mb-1">{t('editor.levels')}</span>
+              {file.levels.map((l: LevelWave, i: number) => (
+                  <div key={i} className={`flex items-center justify-between px-2 py-1 border rounded cursor-pointer ${i === levelIndex ? 'border-white text-white' : 'border-white/10 hover:border-white/40'}`}
+                      onClick={() => { setLevelIndex(i); setSpawnIndex(null); }}
+                  >
+                      <span>{t(`biome.${l.biome}`)} · {l.boss ? t('common.boss') : l.level}</span>
+                      <button onClick={e => { e.stopPropagation(); removeLevel(i); }} className="text-white/30 hover:text-red-300"><Trash2 size={12} /></button>
+                  </div>
+              ))}
+              <button onClick={addLevel} className="flex items-center justify-center gap-1 mt-1 py-1 border border-dashed border-white/20 hover:border-white">
+                  <Plus size={12} /> {t('editor.addLevel')}
+              </button>
+          </div>
+
+          {level ? renderLevelEditor(level) : <p className="normal-case tracking-normal">{t('editor.noLevels')}</p>}
+      </div>
+
+      {level && (
+          <div className="flex items-center gap-4 mt-8">
+              <button
+                  onClick={() => onPlaytest(level)}
+                  className="flex items-center gap-2 px-8 py-3 border border-white text-white hover:bg-white hover:text-black transition-all uppercase tracking-widest text-sm"
+              >
+                  <Play size={16} /> {t('editor.playtest')}
+              </button>
+              {lastPlaytest && (
+                  <span className="text-white/50">{t(`editor.outcome.${lastPlaytest.outcome as SimulationStatus}`)} · {lastPlaytest.score}</span>
+              )}
+          </div>
+      )}
+    </div>
+  );
+};
+
+export default LevelEditor;
@@ -1,64 +1,75 @@
-import React, { useState } from 'react';
-import { Cat, PlayCircle, MessageCircle, BookOpen, X, MousePointer2, Skull, Zap, Shield, Hourglass, Bomb } from 'lucide-react';
-import { Language } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { PlayCircle, MessageCircle, BookOpen, X, MousePointer2, Skull, Zap, PenTool, StepForward, Film, InfinityIcon, Volume2, VolumeX, Accessibility, LayoutGrid, CalendarDays, Target, Languages, RefreshCw, Gauge, Shirt, Lock } from 'lucide-react';
+import { BiomeType, CatOutfit, CosmeticId, CosmeticSlot, GameMode, Language } from '../types';
+import { BIOME_ORDER } from '../utils/gameConfig';
+import { SaveGame } from '../utils/saveGame';
+import { ReplayFile, decodeReplay } from '../utils/replay';
+import { AudioSettings, audioEngine } from '../utils/audio';
+import { AssistOptions, DifficultySettings, PRESET_ORDER, resolveDifficulty } from '../utils/difficulty';
+import { GRAPHICS_PRESETS, GraphicsSettings } from '../utils/graphics';
+import { COSMETICS, COSMETIC_SLOTS, DEFAULT_OUTFIT, equipCosmetic, getSlotCosmetics } from '../utils/cosmetics';
+import { SKILL_DEFS, SKILL_ORDER } from '../utils/skills';
+import { DailyModifier, decodeDailyResult, getDailyChallenge } from '../utils/dailyChallenge';
+import { LANGUAGES, LANGUAGE_NAMES, createTranslator } from '../utils/i18n';
+import { applyUpdate, onUpdateAvailable } from '../utils/serviceWorker';
+import Calibration from './Calibration';
+import Training from './Training';
+import SkillIcon from './SkillIcon';
+import ControlBindings from './ControlBindings';
+import CatPortrait from './CatPortrait';
 
 interface MenuProps {
-  onStart: (catName: string) => void;
+  onStart: (catName: string, mode: GameMode) => void;
+  onContinue: () => void;
+  onWatchReplay: (replay: ReplayFile) => void;
+  onOpenEditor: () => void;
+  savedGame: SaveGame | null;
   language: Language;
   setLanguage: (lang: Language) => void;
+  difficulty: DifficultySettings;
+  setDifficulty: (settings: DifficultySettings) => void;
+  graphics: GraphicsSettings;
+  setGraphics: (settings: GraphicsSettings) => void;
+  setOutfit: (outfit: CatOutfit) => void;
 }
 
-const Menu: React.FC<MenuProps> = ({ onStart, language, setLanguage }) => {
+const Menu: React.FC<MenuProps> = ({ onStart, onContinue, onWatchReplay, onOpenEditor, savedGame, language, setLanguage, difficulty, setDifficulty, graphics, setGraphics, setOutfit }) => {
   const [name, setName] = useState('');
   const [showInput, setShowInput] = useState(false);
+  // Mode to start once a name has been typed in
+  const [pendingMode, setPendingMode] = useState<GameMode>('campaign');
+  // A new campaign replaces the saved one, so Play asks first when there is one
+  const [confirmNewGame, setConfirmNewGame] = useState(false);
+  const [showAudio, setShowAudio] = useState(false);
+  const [showGraphics, setShowGraphics] = useState(false);
+  const [showWardrobe, setShowWardrobe] = useState(false);
+  const [showAssists, setShowAssists] = useState(false);
+  const [showLanguages, setShowLanguages] = useState(false);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(() => audioEngine.getSettings());
   const [showTutorial, setShowTutorial] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [showTraining, setShowTraining] = useState(false);
+  const [replayError, setReplayError] = useState(false);
+  const [dailyChallenge] = useState(() => getDailyChallenge());
+  const [showDailyCodes, setShowDailyCodes] = useState(false);
+  const [dailyCodeInput, setDailyCodeInput] = useState('');
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  // A newer version finished caching in the background
+  const [updateReady, setUpdateReady] = useState(false);
 
-  const t = {
-    pt: {
-      grimoire: "Grimório",
-      magicGestures: "Gestos Mágicos",
-      gesturesDesc: "Desenhe os símbolos que aparecem acima dos inimigos para exorcizá-los.",
-      centerTip: "Dica: Realize os gestos preferencialmente no centro da tela.",
-      biomesBoss: "Biomas & Chefes",
-      biomesDesc: "Sobreviva a 10 fases para enfrentar o Boss do bioma.",
-      biomesTip: "Dica: Destrua os sigilos vermelhos que protegem o Boss.",
-      skills: "Habilidades",
-      skillsDesc: "Desbloqueie suportes ao avançar fases (Total de Níveis).",
-      shield: "Escudo",
-      time: "Tempo",
-      bomb: "Bomba",
-      level: "Nível",
-      understood: "Entendi",
-      catNamePlaceholder: "Nome do Gato",
-      tutorial: "Tutorial",
-      feedback: "Feedback"
-    },
-    en: {
-      grimoire: "Grimoire",
-      magicGestures: "Magic Gestures",
-      gesturesDesc: "Draw the symbols appearing above enemies to exorcise them.",
-      centerTip: "Tip: Perform gestures preferably in the center of the screen.",
-      biomesBoss: "Biomes & Bosses",
-      biomesDesc: "Survive 10 waves to face the Biome Boss.",
-      biomesTip: "Tip: Destroy red sigils protecting the Boss.",
-      skills: "Skills",
-      skillsDesc: "Unlock supports by clearing levels (Total Levels).",
-      shield: "Shield",
-      time: "Time",
-      bomb: "Bomb",
-      level: "Level",
-      understood: "Got it",
-      catNamePlaceholder: "Cat Name",
-      tutorial: "Guide",
-      feedback: "Feedback"
-    }
-  };
+  useEffect(() => onUpdateAvailable(() => setUpdateReady(true)), []);
 
-  const text = t[language];
+  const t = createTranslator(language);
 
-  const handleStartClick = () => {
+  const handleStartClick = (mode: GameMode = 'campaign', confirmed = false) => {
+    if (mode === 'campaign' && savedGame && !confirmed) {
+        setConfirmNewGame(true);
+        return;
+    }
+    setConfirmNewGame(false);
+    setPendingMode(mode);
     if (name.trim()) {
-        onStart(name.trim());
+        onStart(name.trim(), mode);
     } else {
         setShowInput(true);
     }
@@ -66,11 +77,67 @@ const Menu: React.FC<MenuProps> = ({ onStart, language, setLanguage }) => {
 
   const handleFormSubmit = (e: React.FormEvent) => {
       e.preventDefault();
-      if (name.trim()) onStart(name.trim());
+      if (name.trim()) onStart(name.trim(), pendingMode);
+  }
+
+  const updateAudio = (changes: Partial<AudioSettings>) => {
+      setAudioSettings(audioEngine.updateSettings(changes));
+  };
+
+  const updateAssist = (assist: keyof AssistOptions, enabled: boolean) => {
+      setDifficulty({ ...difficulty, assists: { ...difficulty.assists, [assist]: enabled } });
+  };
+
+  const pickLanguage = (lang: Language) => {
+      setLanguage(lang);
+      setShowLanguages(false);
+  };
+
+  // Calibration samples and training stats are stored per cat, so we need a name first
+  const handleCalibrateClick = () => {
+    if (name.trim()) {
+        setShowCalibration(true);
+    } else {
+        setShowInput(true);
+    }
+  };
+
+  const handleTrainingClick = () => {
+    if (name.trim()) {
+        setShowTraining(true);
+    } else {
+        setShowInput(true);
+    }
+  };
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const replay = decodeReplay(await file.text());
+    setReplayError(!replay);
+    if (replay) onWatchReplay(replay);
+  };
+
+  if (showCalibration) {
+    return (
+        <Calibration
+            playerName={name.trim()}
+            language={language}
+            onClose={() => setShowCalibration(false)}
+        />
+    );
   }
 
-  const toggleLanguage = () => {
-      setLanguage(language === 'pt' ? 'en' : 'pt');
+  if (showTraining) {
+    return (
+        <Training
+            playerName={name.trim()}
+            language={language}
+            minConfidence={resolveDifficulty(difficulty).minConfidence}
+            onClose={() => setShowTraining(false)}
+        />
+    );
   }
 
   if (showTutorial) {
@@ -84,7 +151,7 @@ const Menu: React.FC<MenuProps> = ({ onStart, language, setLanguage }) => {
             </button>
 
             <h2 className="text-3xl font-thin mb-8 uppercase tracking-[0.2em] text-center border-b border-white/20 pb-4">
-                {text.grimoire}
+                {t('tutorial.grimoire')}
             </h2>
             
             <div className="max-w-md w-full space-y-8 text-center text-sm font-light text-white/80 overflow-y-auto max-h-[70vh] px-4 scrollbar-hide">
@@ -92,11 +159,11 @@ const Menu: React.FC<MenuProps> = ({ onStart, language, setLanguage }) => {
                 <div className="flex flex-col items-center gap-2">
                     <div className="flex items-center gap-2 text-white font-normal mb-1">
                         <MousePointer2 size={20} />
-                        <span>{text.magicGestures}</span>
+                        <span>{t('tutorial.magicGestures')}</span>
                     </div>
-                    <p className="text-white/60">{text.gesturesDesc}</p>
+                    <p className="text-white/60">{t('tutorial.gesturesDesc')}</p>
                     <p className="text-xs text-blue-200/80 mt-1 italic max-w-[250px] leading-tight border border-blue-500/30 p-2 rounded bg-blue-500/10">
-                        {text.centerTip}
+                        {t('tutorial.centerTip')}
                     </p>
                     <div className="flex justify-center flex-wrap gap-4 mt-2 opacity-80 font-mono text-lg">
                         <div className="flex flex-col items-center gap-1"><span className="border border-white/30 px-3 py-1 rounded">—</span></div>
@@ -108,50 +175,47 @@ const Menu: React.FC<MenuProps> = ({ onStart, language, setLanguage }) => {
                         <div className="flex flex-col items-center gap-1"><span className="border border-white/30 px-3 py-1 rounded">X</span></div>
                         <div className="flex flex-col items-center gap-1"><span className="border border-white/30 px-3 py-1 rounded">Z</span></div>
                     </div>
+                    <p className="text-xs text-white/50 mt-2 max-w-[250px] leading-tight">{t('tutorial.comboTip')}</p>
                 </div>
 
                 {/* Mechanic 2 */}
                 <div className="flex flex-col items-center gap-2">
                     <div className="flex items-center gap-2 text-white font-normal mb-1">
                         <Skull size={20} />
-                        <span>{text.biomesBoss}</span>
+                        <span>{t('tutorial.biomesBoss')}</span>
                     </div>
-                    <p className="text-white/60">{text.biomesDesc}</p>
-                    <p className="text-xs text-red-300">{text.biomesTip}</p>
+                    <p className="text-white/60">{t('tutorial.biomesDesc')}</p>
+                    <p className="text-xs text-red-300">{t('tutorial.biomesTip')}</p>
                 </div>
 
                 {/* Mechanic 3 */}
                 <div className="flex flex-col items-center gap-2">
                     <div className="flex items-center gap-2 text-white font-normal mb-1">
                         <Zap size={20} />
-                        <span>{text.skills}</span>
+                        <span>{t('tutorial.skills')}</span>
                     </div>
-                    <p className="text-white/60">{text.skillsDesc}</p>
+                    <p className="text-white/60">{t('tutorial.skillsDesc')}</p>
                     <div className="grid grid-cols-3 gap-4 mt-2 w-full max-w-xs">
-                        <div className="flex flex-col items-center border border-white/10 p-2 rounded bg-white/5">
-                            <Shield className="text-white mb-1" size={24} strokeWidth={1.5} />
-                            <span className="text-[10px] mt-1 uppercase">{text.shield}</span>
-                            <span className="text-[8px] opacity-50">{text.level} 5</span>
-                        </div>
-                        <div className="flex flex-col items-center border border-white/10 p-2 rounded bg-white/5">
-                            <Hourglass className="text-white mb-1" size={24} strokeWidth={1.5} />
-                            <span className="text-[10px] mt-1 uppercase">{text.time}</span>
-                            <span className="text-[8px] opacity-50">{text.level} 10</span>
-                        </div>
-                        <div className="flex flex-col items-center border border-white/10 p-2 rounded bg-white/5">
-                            <Bomb className="text-white mb-1" size={24} strokeWidth={1.5} />
-                            <span className="text-[10px] mt-1 uppercase">{text.bomb}</span>
-                            <span className="text-[8px] opacity-50">{text.level} 15</span>
-                        </div>
+                        {SKILL_ORDER.map(skill => (
+                            <div key={skill} className="flex flex-col items-center border border-white/10 p-2 rounded bg-white/5">
+                                <SkillIcon skill={skill} className="text-white mb-1" size={24} strokeWidth={1.5} />
+                                <span className="text-[10px] mt-1 uppercase">{t(`skill.${skill}`)}</span>
+                                <span className="text-[8px] opacity-50">{t('tutorial.unlockLevel', { level: SKILL_DEFS[skill].unlockAt })}</span>
+                            </div>
+                        ))}
                     </div>
+                    <p className="text-xs text-white/50 mt-2 max-w-[250px] leading-tight">{t('tutorial.skillsUpgradeTip')}</p>
                 </div>
+
+                {/* Mechanic 4 */}
+                <ControlBindings language={language} />
             </div>
 
             <button 
                 onClick={() => setShowTutorial(false)}
                 className="mt-8 px-8 py-3 border border-white/30 rounded-full hover:bg-white hover:text-black transition-all uppercase tracking-widest text-xs"
             >
-                {text.understood}
+                {t('tutorial.understood')}
             </button>
         </div>
     );
@@ -160,16 +224,162 @@ const Menu: React.FC<MenuProps> = ({ onStart, language, setLanguage }) => {
   return (
     <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-[#050f18] text-white p-6 animate-fade-in">
       
-      {/* Language Toggle - Minimalist Initials */}
-      <button 
-        onClick={toggleLanguage}
-        className="absolute top-6 right-6 w-12 h-12 rounded-full border border-white/20 flex items-center justify-center hover:bg-white/10 hover:border-white transition-all group bg-white/5 backdrop-blur-sm"
-        title={language === 'pt' ? 'Mudar para Inglês' : 'Switch to Portuguese'}
-      >
-        <span className="font-mono font-bold text-xs tracking-wider text-white/80 group-hover:text-white transition-colors">
-            {language === 'pt' ? 'BR' : 'USA'}
-        </span>
-      </button>
+      {/* Language Picker - each option written in its own language */}
+      <div className="absolute top-6 right-6 flex flex-col items-end gap-3">
+          <button
+            onClick={() => setShowLanguages(!showLanguages)}
+            className="w-12 h-12 rounded-full border border-white/20 flex items-center justify-center hover:bg-white/10 hover:border-white transition-all group bg-white/5 backdrop-blur-sm"
+            title={t('menu.language')}
+          >
+            <span className="font-mono font-bold text-xs tracking-wider text-white/80 group-hover:text-white transition-colors uppercase">
+                {language}
+            </span>
+          </button>
+          {showLanguages && (
+              <div className="flex flex-col gap-1 p-2 border border-white/10 rounded bg-black/60 backdrop-blur-sm text-xs animate-fade-in">
+                  <span className="flex items-center gap-2 px-2 pb-1 text-[10px] uppercase tracking-wider text-white/40">
+                      <Languages size={12} strokeWidth={1.5} />
+                      {t('menu.language')}
+                  </span>
+                  {LANGUAGES.map(lang => (
+                      <button
+                          key={lang}
+                          lang={lang}
+                          onClick={() => pickLanguage(lang)}
+                          className={`px-2 py-1 rounded text-right transition-colors ${lang === language ? 'text-white bg-white/10' : 'text-white/50 hover:text-white'}`}
+                      >
+                          {LANGUAGE_NAMES[lang]}
+                      </button>
+                  ))}
+              </div>
+          )}
+      </div>
+
+      {/* Sound & Graphics Settings */}
+      <div className="absolute top-6 left-6 flex flex-col items-start gap-3">
+          <div className="flex gap-3">
+              <button
+                onClick={() => { setShowAudio(!showAudio); setShowGraphics(false); setShowWardrobe(false); }}
+                className="w-12 h-12 rounded-full border border-white/20 flex items-center justify-center hover:bg-white/10 hover:border-white transition-all bg-white/5 backdrop-blur-sm text-white/80"
+              >
+                {audioSettings.muted ? <VolumeX size={18} strokeWidth={1.5} /> : <Volume2 size={18} strokeWidth={1.5} />}
+              </button>
+              <button
+                onClick={() => { setShowGraphics(!showGraphics); setShowAudio(false); setShowWardrobe(false); }}
+                className="w-12 h-12 rounded-full border border-white/20 flex items-center justify-center hover:bg-white/10 hover:border-white transition-all bg-white/5 backdrop-blur-sm text-white/80"
+                title={t('graphics.title')}
+              >
+                <Gauge size={18} strokeWidth={1.5} />
+              </button>
+              {/* Cosmetics live in the save, so there is nothing to wear before a campaign */}
+              {savedGame && (
+                  <button
+                    onClick={() => { setShowWardrobe(!showWardrobe); setShowAudio(false); setShowGraphics(false); }}
+                    className="w-12 h-12 rounded-full border border-white/20 flex items-center justify-center hover:bg-white/10 hover:border-white transition-all bg-white/5 backdrop-blur-sm text-white/80"
+                    title={t('menu.wardrobe')}
+                  >
+                    <Shirt size={18} strokeWidth={1.5} />
+                  </button>
+              )}
+          </div>
+          {showWardrobe && savedGame && (
+              <div className="flex flex-col gap-3 p-4 border border-white/10 rounded bg-black/60 backdrop-blur-sm text-[10px] uppercase tracking-wider text-white/60 animate-fade-in">
+                  <span>{t('menu.wardrobe')}</span>
+                  {COSMETIC_SLOTS.map((slot: CosmeticSlot) => (
+                      <div key={slot} className="flex flex-col gap-1">
+                          <span className="text-white/40">{t(`wardrobe.${slot}`)}</span>
+                          <div className="flex flex-wrap gap-1">
+                              <button
+                                  onClick={() => setOutfit(equipCosmetic(savedGame.outfit, slot, null))}
+                                  className={`px-2 py-1 rounded-full border transition-colors ${!savedGame.outfit[slot] ? 'border-white text-white bg-white/10' : 'border-white/10 text-white/40 hover:text-white/80'}`}
+                              >
+                                  {t('wardrobe.none')}
+                              </button>
+                              {getSlotCosmetics(slot).map((id: CosmeticId) => savedGame.cosmetics.includes(id) ? (
+                                  <button
+                                      key={id}
+                                      onClick={() => setOutfit(equipCosmetic(savedGame.outfit, slot, id))}
+                                      className={`px-2 py-1 rounded-full border transition-colors ${savedGame.outfit[slot] === id ? 'border-white text-white bg-white/10' : 'border-white/10 text-white/40 hover:text-white/80'}`}
+                                  >
+                                      {t(`cosmetic.${id}`)}
+                                  </button>
+                              ) : (
+                                  <span
+                                      key={id}
+                                      className="flex items-center gap-1 px-2 py-1 rounded-full border border-white/5 text-white/20"
+                                      title={t('wardrobe.locked', { biome: t(`biome.${COSMETICS[id].biome}`) })}
+                                  >
+                                      <Lock size={10} strokeWidth={1.5} /> {t(`cosmetic.${id}`)}
+                                  </span>
+                              ))}
+                          </div>
+                      </div>
+                  ))}
+              </div>
+          )}
+          {showGraphics && (
+              <div className="flex flex-col gap-3 p-4 border border-white/10 rounded bg-black/60 backdrop-blur-sm text-[10px] uppercase tracking-wider text-white/60 animate-fade-in">
+                  <span>{t('graphics.title')}</span>
+                  <div className="flex gap-1">
+                      {GRAPHICS_PRESETS.map(preset => (
+                          <button
+                              key={preset}
+                              onClick={() => setGraphics({ ...graphics, preset })}
+                              className={`px-2 py-1 rounded-full border transition-colors ${graphics.preset === preset ? 'border-white text-white bg-white/10' : 'border-white/10 text-white/40 hover:text-white/80'}`}
+                          >
+                              {t(`graphics.${preset}`)}
+                          </button>
+                      ))}
+                  </div>
+                  <label className="flex items-center justify-between gap-3">
+                      <span>{t('graphics.showFps')}</span>
+                      <input
+                          type="checkbox"
+                          checked={graphics.showFps}
+                          onChange={(e) => setGraphics({ ...graphics, showFps: e.target.checked })}
+                          className="accent-white"
+                      />
+                  </label>
+              </div>
+          )}
+          {showAudio && (
+              <div className="flex flex-col gap-2 p-4 border border-white/10 rounded bg-black/60 backdrop-blur-sm text-[10px] uppercase tracking-wider text-white/60 animate-fade-in">
+                  {(['master', 'music', 'sfx'] as const).map(channel => (
+                      <label key={channel} className="flex items-center justify-between gap-3">
+                          <span>{t(`audio.${channel}`)}</span>
+                          <input
+                              type="range"
+                              min={0}
+                              max={1}
+                              step={0.05}
+                              value={audioSettings[channel]}
+                              onChange={(e) => updateAudio({ [channel]: Number(e.target.value) })}
+                              className="w-28 accent-white"
+                          />
+                      </label>
+                  ))}
+                  <label className="flex items-center justify-between gap-3 mt-1">
+                      <span>{t('audio.mute')}</span>
+                      <input
+                          type="checkbox"
+                          checked={audioSettings.muted}
+                          onChange={(e) => updateAudio({ muted: e.target.checked })}
+                          className="accent-white"
+                      />
+                  </label>
+              </div>
+          )}
+      </div>
+
+      {/* Update Prompt */}
+      {updateReady && (
+          <div className="absolute top-8 left-1/2 -translate-x-1/2 flex items-center gap-3 px-4 py-2 border border-white/20 rounded-full bg-white/5 backdrop-blur-sm text-[10px] uppercase tracking-wider text-white/60 animate-fade-in">
+              <span>{t('menu.updateAvailable')}</span>
+              <button onClick={applyUpdate} className="flex items-center gap-1 text-white hover:text-yellow-300 transition-colors">
+                  <RefreshCw size={12} strokeWidth={1.5} /> {t('menu.update')}
+              </button>
+          </div>
+      )}
 
       {/* Title */}
       <h1 className="flex flex-col items-center text-6xl font-thin tracking-[0.2em] mb-12 uppercase font-serif text-white/90 text-center gap-2">
@@ -178,20 +388,37 @@ const Menu: React.FC<MenuProps> = ({ onStart, language, setLanguage }) => {
       </h1>
 
       {/* Center Character */}
-      <div className="relative mb-16 group cursor-pointer" onClick={handleStartClick}>
+      <div className="relative mb-16 group cursor-pointer" onClick={() => handleStartClick()}>
         <div className="absolute inset-0 bg-white/5 rounded-full blur-2xl group-hover:bg-white/10 transition-all duration-700"></div>
-        <Cat strokeWidth={1} size={120} className="text-white relative z-10 drop-shadow-[0_0_15px_rgba(255,255,255,0.3)]" />
+        <div className="relative z-10">
+            <CatPortrait outfit={savedGame?.outfit ?? DEFAULT_OUTFIT} size={120} />
+        </div>
       </div>
 
       {/* Input / Play */}
-      {showInput ? (
+      {confirmNewGame && savedGame ? (
+          <div className="flex flex-col items-center gap-4 max-w-xs text-center animate-fade-in-up">
+            <p className="text-sm text-white/70">{t('menu.newGameWarning', { name: savedGame.catName })}</p>
+            <div className="flex items-center gap-6 text-[10px] uppercase tracking-widest">
+                <button onClick={onContinue} className="flex items-center gap-1 text-white hover:scale-105 transition-transform">
+                    <StepForward size={16} strokeWidth={1.5} /> {t('menu.continueGame')}
+                </button>
+                <button onClick={() => handleStartClick('campaign', true)} className="flex items-center gap-1 text-red-300/80 hover:text-red-300">
+                    <PlayCircle size={16} strokeWidth={1.5} /> {t('menu.newGame')}
+                </button>
+                <button onClick={() => setConfirmNewGame(false)} className="text-white/40 hover:text-white">
+                    <X size={16} />
+                </button>
+            </div>
+          </div>
+      ) : showInput ? (
           <form onSubmit={handleFormSubmit} className="flex flex-col items-center gap-4 animate-fade-in-up">
             <input 
                 autoFocus
                 type="text" 
                 value={name}
                 onChange={(e) => setName(e.target.value)}
-                placeholder={text.catNamePlaceholder}
+                placeholder={t('menu.catNamePlaceholder')}
                 className="bg-transparent border-b border-white/30 text-center text-xl py-2 focus:outline-none focus:border-white transition-colors placeholder-white/20"
                 maxLength={10}
             />
@@ -200,9 +427,98 @@ const Menu: React.FC<MenuProps> = ({ onStart, language, setLanguage }) => {
             </button>
           </form>
       ) : (
-        <button onClick={handleStartClick} className="group">
-            <PlayCircle size={64} strokeWidth={0.8} className="text-white/80 group-hover:text-white group-hover:scale-110 transition-all duration-500" />
-        </button>
+        <div className="flex items-center gap-8">
+            <button onClick={() => handleStartClick()} className="group">
+                <PlayCircle size={64} strokeWidth={0.8} className="text-white/80 group-hover:text-white group-hover:scale-110 transition-all duration-500" />
+            </button>
+            <button onClick={() => handleStartClick('endless')} className="group flex flex-col items-center gap-1 text-white/60 hover:text-white transition-colors">
+                <InfinityIcon size={40} strokeWidth={0.8} className="group-hover:scale-110 transition-transform duration-500" />
+                <span className="text-[10px] uppercase tracking-widest">{t('common.endless')}</span>
+            </button>
+            <div className="flex flex-col items-center gap-1">
+                <button onClick={() => handleStartClick('daily')} className="group flex flex-col items-center gap-1 text-white/60 hover:text-white transition-colors">
+                    <CalendarDays size={40} strokeWidth={0.8} className="group-hover:scale-110 transition-transform duration-500" />
+                    <span className="text-[10px] uppercase tracking-widest">{t('menu.daily')}</span>
+                    <span className="text-[9px] text-white/30">
+                        {t(`biome.${BIOME_ORDER[dailyChallenge.biomeIndex]}`)} · {dailyChallenge.modifiers.map((m: DailyModifier) => t(`modifier.${m}`)).join(' · ')}
+                    </span>
+                </button>
+                <button onClick={() => setShowDailyCodes(!showDailyCodes)} className="text-[9px] uppercase tracking-widest text-white/30 hover:text-white/80 underline underline-offset-2">
+                    {t('menu.compareCodes')}
+                </button>
+            </div>
+            {savedGame && (
+                <button onClick={onContinue} className="group flex flex-col items-center gap-1 text-white/60 hover:text-white transition-colors">
+                    <StepForward size={40} strokeWidth={0.8} className="group-hover:scale-110 transition-transform duration-500" />
+                    <span className="text-[10px] uppercase tracking-widest">{t('menu.continueGame')}</span>
+                    <span className="text-[9px] text-white/30">
+                        {savedGame.catName} · {t(`biome.${savedGame.biome as BiomeType}`)} {savedGame.level === 11 ? t('common.boss') : savedGame.level}
+                    </span>
+                </button>
+            )}
+        </div>
+      )}
+
+      {/* Difficulty */}
+      <div className="mt-10 flex flex-col items-center gap-3">
+          <div className="flex items-center gap-2">
+              {PRESET_ORDER.map(preset => (
+                  <button
+                      key={preset}
+                      onClick={() => setDifficulty({ ...difficulty, preset })}
+                      className={`px-3 py-1 rounded-full border text-[10px] uppercase tracking-widest transition-colors ${difficulty.preset === preset ? 'border-white text-white bg-white/10' : 'border-white/10 text-white/40 hover:text-white/80'}`}
+                  >
+                      {t(`difficulty.${preset}`)}
+                  </button>
+              ))}
+              <button
+                  onClick={() => setShowAssists(!showAssists)}
+                  className={`p-1.5 rounded-full border transition-colors ${showAssists ? 'border-white text-white' : 'border-white/10 text-white/40 hover:text-white/80'}`}
+                  title={t('menu.assists')}
+              >
+                  <Accessibility size={14} strokeWidth={1.5} />
+              </button>
+          </div>
+          {showAssists && (
+              <div className="flex flex-col gap-2 p-4 border border-white/10 rounded bg-black/60 backdrop-blur-sm text-[10px] uppercase tracking-wider text-white/60 animate-fade-in">
+                  {(['slowEnemies', 'extraHearts', 'relaxedGestures', 'autoPause'] as const).map(assist => (
+                      <label key={assist} className="flex items-center justify-between gap-6">
+                          <span>{t(`assist.${assist}`)}</span>
+                          <input
+                              type="checkbox"
+                              checked={difficulty.assists[assist]}
+                              onChange={(e) => updateAssist(assist, e.target.checked)}
+                              className="accent-white"
+                          />
+                      </label>
+                  ))}
+              </div>
+          )}
+      </div>
+
+      {showDailyCodes && (
+          <div className="mt-6 flex flex-col items-center gap-2 text-xs font-mono animate-fade-in">
+              <input
+                  type="text"
+                  value={dailyCodeInput}
+                  onChange={(e) => setDailyCodeInput(e.target.value)}
+                  placeholder={t('menu.pasteCode')}
+                  className="w-72 bg-transparent border-b border-white/30 text-center py-1 focus:outline-none focus:border-white transition-colors placeholder-white/20"
+              />
+              {dailyCodeInput.trim() && (() => {
+                  const result = decodeDailyResult(dailyCodeInput);
+                  if (!result) return <span className="text-red-300">{t('menu.invalidCode')}</span>;
+                  return (
+                      <span className="text-white/70">
+                          {result.date === dailyChallenge.date ? t('menu.today') : result.date} · {result.catName} · <span className="text-white">{result.score}</span>
+                      </span>
+                  );
+              })()}
+          </div>
+      )}
+
+      {replayError && (
+          <div className="absolute bottom-28 text-xs text-red-300">{t('menu.invalidReplay')}</div>
       )}
 
       {/* Footer */}
@@ -212,11 +528,40 @@ const Menu: React.FC<MenuProps> = ({ onStart, language, setLanguage }) => {
             className="flex flex-col items-center text-white/30 hover:text-white/80 transition-colors gap-2"
         >
             <BookOpen size={20} strokeWidth={1.5} />
-            <span className="text-[10px] uppercase tracking-wider">{text.tutorial}</span>
+            <span className="text-[10px] uppercase tracking-wider">{t('menu.tutorial')}</span>
+        </button>
+        <button 
+            onClick={handleCalibrateClick}
+            className="flex flex-col items-center text-white/30 hover:text-white/80 transition-colors gap-2"
+        >
+            <PenTool size={20} strokeWidth={1.5} />
+            <span className="text-[10px] uppercase tracking-wider">{t('menu.calibrate')}</span>
+        </button>
+        <button 
+            onClick={handleTrainingClick}
+            className="flex flex-col items-center text-white/30 hover:text-white/80 transition-colors gap-2"
+        >
+            <Target size={20} strokeWidth={1.5} />
+            <span className="text-[10px] uppercase tracking-wider">{t('menu.training')}</span>
+        </button>
+        <button 
+            onClick={() => replayInputRef.current?.click()}
+            className="flex flex-col items-center text-white/30 hover:text-white/80 transition-colors gap-2"
+        >
+            <Film size={20} strokeWidth={1.5} />
+            <span className="text-[10px] uppercase tracking-wider">{t('menu.replay')}</span>
+        </button>
+        <input ref={replayInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleReplayFile} />
+        <button 
+            onClick={onOpenEditor}
+            className="flex flex-col items-center text-white/30 hover:text-white/80 transition-colors gap-2"
+        >
+            <LayoutGrid size={20} strokeWidth={1.5} />
+            <span className="text-[10px] uppercase tracking-wider">{t('menu.editor')}</span>
         </button>
         <a href="https://t.me/Rurocoli" target="_blank" rel="noreferrer" className="flex flex-col items-center text-white/30 hover:text-white/80 transition-colors gap-2">
             <MessageCircle size={20} strokeWidth={1.5} />
-            <span className="text-[10px] uppercase tracking-wider">{text.feedback}</span>
+            <span className="text-[10px] uppercase tracking-wider">{t('menu.feedback')}</span>
         </a>
       </div>
     </div>
@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Heart, FastForward } from 'lucide-react';
+import { Language, TimedPoint } from '../types';
+import { BIOME_CONFIG, BIOME_ORDER } from '../utils/gameConfig';
+import { BOSS_CONFIG } from '../utils/bosses';
+import { GameSimulation, createGameSimulation, FIXED_STEP_MS } from '../utils/gameSimulation';
+import { ParticleSystem, createParticleSystem, spawnEventParticles, spawnCastParticles, updateParticles, drawScene } from '../utils/sceneRenderer';
+import { ReplayFile, applyReplayInputs, unflattenStroke } from '../utils/replay';
+import { resolveWaveBoss } from '../utils/waves';
+import { CatAnimation, animateCast, animateEvent, createCatAnimation } from '../utils/catAvatar';
+import { DEFAULT_OUTFIT } from '../utils/cosmetics';
+import { createTranslator } from '../utils/i18n';
+import { DEFAULT_GRAPHICS, GraphicsSettings, createQualityGovernor, getPixelRatio } from '../utils/graphics';
+
+interface ReplayViewerProps {
+  replay: ReplayFile;
+  language: Language;
+  graphics?: GraphicsSettings;
+  onClose: () => void;
+}
+
+const SPEEDS = [1, 2, 4];
+// How long a finished stroke stays on screen after it was cast
+const STROKE_LINGER_MS = 250;
+// Real-time pause between levels
+const LEVEL_GAP_MS = 1200;
+const MAX_FRAME_MS = 250;
+
+interface Playback {
+  levelIndex: number;
+  sim: GameSimulation;
+  particles: ParticleSystem;
+  cat: CatAnimation;
+  cursor: number;
+  accumulator: number;
+  gapRemaining: number;
+  strokes: { castTime: number; points: TimedPoint[] }[];
+}
+
+const startLevel = (replay: ReplayFile, levelIndex: number): Playback => {
+  const level = replay.levels[levelIndex];
+  return {
+    levelIndex,
+    sim: createGameSimulation(level.config),
+    particles: createParticleSystem(level.config.seed),
+    cat: createCatAnimation(),
+    cursor: 0,
+    accumulator: 0,
+    gapRemaining: 0,
+    strokes: level.inputs.flatMap(input => input.kind === 'stroke'
+      ? [{ castTime: input.tick * FIXED_STEP_MS, points: unflattenStroke(input.points) }]
+      : [])
+  };
+};
+
+// Part of the recorded stroke that was on screen at simulation time `now`
+const visibleStroke = (strokes: Playback['strokes'], now: number): TimedPoint[] => {
+  for (const stroke of strokes) {
+    const duration = stroke.points.length ? stroke.points[stroke.points.length - 1].t : 0;
+    const start = stroke.castTime - duration;
+    if (now >= start && now < stroke.castTime + STROKE_LINGER_MS) {
+      return stroke.points.filter(p => start + p.t <= now);
+    }
+  }
+  return [];
+};
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, language, onClose, graphics = DEFAULT_GRAPHICS }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const playbackRef = useRef<Playback | null>(replay.levels.length ? startLevel(replay, 0) : null);
+  const [speedIndex, setSpeedIndex] = useState(0);
+  const [hud, setHud] = useState({ levelIndex: 0, score: 0, health: 0, maxHealth: 0, finished: replay.levels.length === 0 });
+
+  const t = createTranslator(language);
+
+  const speed = SPEEDS[speedIndex];
+
+  useEffect(() => {
+    let id: number;
+    let lastTime: number | null = null;
+    const governor = createQualityGovernor(graphics.preset);
+
+    const loop = (time: number) => {
+        id = requestAnimationFrame(loop);
+        const playback = playbackRef.current;
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!playback || !canvas || !ctx) return;
+
+        const frameMs = lastTime === null ? 0 : Math.min(time - lastTime, MAX_FRAME_MS);
+        lastTime = time;
+        const quality = governor.sample(frameMs);
+
+        const level = replay.levels[playback.levelIndex];
+        const { sim } = playback;
+
+        // Between levels: hold the last frame, then load the next one
+        if (playback.gapRemaining > 0) {
+            playback.gapRemaining -= frameMs;
+            if (playback.gapRemaining <= 0) {
+                if (playback.levelIndex + 1 < replay.levels.length) {
+                    playbackRef.current = startLevel(replay, playback.levelIndex + 1);
+                } else {
+                    setHud(prev => ({ ...prev, finished: true }));
+                }
+            }
+            return;
+        }
+
+        // Same fixed-step order as the live game: inputs for tick N, then step
+        playback.accumulator += frameMs * speed;
+        while (playback.accumulator >= FIXED_STEP_MS && sim.state.status === 'playing') {
+            playback.accumulator -= FIXED_STEP_MS;
+            const result = applyReplayInputs(sim, level, playback.cursor);
+            playback.cursor = result.cursor;
+            result.applied.forEach(({ input, hits }) => {
+                if (input.kind !== 'stroke') return;
+                if (input.spell !== null) animateCast(playback.cat, input.spell, sim.state.time);
+                const points = unflattenStroke(input.points);
+                if (points.length) spawnCastParticles(playback.particles, points[points.length - 1], input.spell !== null, hits);
+            });
+            if (sim.state.status !== 'playing' || sim.state.tick >= level.endTick) break;
+            sim.step(FIXED_STEP_MS);
+        }
+        sim.drainEvents().forEach(event => {
+            spawnEventParticles(playback.particles, sim.state, event);
+            animateEvent(playback.cat, event, sim.state.time);
+        });
+
+        if (sim.state.status !== 'playing' || sim.state.tick >= level.endTick) {
+            playback.gapRemaining = LEVEL_GAP_MS;
+        }
+
+        // Recorded viewport in CSS pixels, backing store in device pixels
+        const pixelRatio = getPixelRatio(quality);
+        const backingWidth = Math.round(sim.state.width * pixelRatio);
+        const backingHeight = Math.round(sim.state.height * pixelRatio);
+        if (canvas.width !== backingWidth || canvas.height !== backingHeight) {
+            canvas.width = backingWidth;
+            canvas.height = backingHeight;
+        }
+        playback.particles.maxParticles = quality.maxParticles;
+        updateParticles(playback.particles, frameMs * speed, sim.state.timeScale);
+        drawScene(ctx, {
+            state: sim.state,
+            background: BIOME_CONFIG[BIOME_ORDER[sim.state.biomeIndex]].bg,
+            bossColor: (level.config.wave?.boss ? resolveWaveBoss(level.config.wave) : BOSS_CONFIG[BIOME_ORDER[level.config.biomeIndex]]).color,
+            particles: playback.particles,
+            strokes: [visibleStroke(playback.strokes, sim.state.time)],
+            // Replays don't record the outfit
+            cat: { animation: playback.cat, look: { outfit: DEFAULT_OUTFIT, name: replay.catName } },
+            upgrades: level.config.upgrades,
+            quality
+        });
+
+        setHud(prev => (
+            prev.levelIndex === playback.levelIndex && prev.score === sim.state.score && prev.health === sim.state.health
+                ? prev
+                : { ...prev, levelIndex: playback.levelIndex, score: sim.state.score, health: sim.state.health, maxHealth: sim.state.maxHealth }
+        ));
+    };
+    id = requestAnimationFrame(loop);
+
+    return () => cancelAnimationFrame(id);
+  }, [replay, speed, graphics.preset]);
+
+  const level = replay.levels[hud.levelIndex];
+  const isBossLevel = level && (level.config.wave ? level.config.wave.boss !== undefined : level.config.level === 11);
+  const levelLabel = level
+      ? `${t(`biome.${BIOME_ORDER[level.config.biomeIndex]}`)} | ${level.config.mode === 'endless' ? t('common.endless') : level.config.mode === 'daily' ? t('common.daily') : isBossLevel ? t('common.boss') : `${t('common.level')} ${level.config.level}`}`
+      : '';
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black select-none">
+      <canvas ref={canvasRef} className="block w-full h-full object-contain" />
+
+      {/* Top Bar */}
+      <div className="absolute top-4 left-0 w-full flex justify-between px-6 items-center">
+          <div className="text-xs uppercase tracking-widest text-white/50">
+              {t('replay.title')} · {replay.catName} <span className="text-white">| {levelLabel}</span>
+          </div>
+          <div className="flex items-center gap-4">
+              <span className="text-2xl font-thin font-serif">{hud.score}</span>
+              <button
+                  onClick={() => setSpeedIndex((speedIndex + 1) % SPEEDS.length)}
+                  className="flex items-center gap-1 p-2 hover:bg-white/10 rounded-full transition-colors text-xs font-mono"
+              >
+                  <FastForward size={18} /> {speed}x
+              </button>
+              <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+                  <X size={24} strokeWidth={1} />
+              </button>
+          </div>
+      </div>
+
+      {/* Health */}
+      <div className="absolute top-16 left-0 w-full flex justify-center gap-2 pointer-events-none">
+          {[...Array(hud.maxHealth)].map((_, i) => (
+              <Heart
+                  key={i}
+                  size={24}
+                  strokeWidth={1}
+                  className={`${i < hud.health ? 'fill-white text-white' : 'text-white/20'}`}
+              />
+          ))}
+      </div>
+
+      {hud.finished && (
+          <div className="absolute inset-0 bg-black/80 flex flex-col items-center justify-center animate-fade-in">
+              <h2 className="text-3xl font-thin text-white mb-8 tracking-widest uppercase">{t('replay.finished')}</h2>
+              <button
+                  onClick={onClose}
+                  className="px-8 py-3 border border-white text-white hover:bg-white hover:text-black transition-all uppercase tracking-widest text-sm"
+              >
+                  {t('replay.close')}
+              </button>
+          </div>
+      )}
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,20 @@
+import React from 'react';
+import { Shield, Hourglass, Bomb, HeartPulse, Zap, Magnet } from 'lucide-react';
+import { SkillId } from '../types';
+
+const ICONS: Record<SkillId, typeof Shield> = {
+  shield: Shield,
+  heal: HeartPulse,
+  hourglass: Hourglass,
+  magnet: Magnet,
+  bomb: Bomb,
+  chainLightning: Zap
+};
+
+// The same icon per skill on the skill bar, the upgrade shop, the tutorial and Game Over
+const SkillIcon: React.FC<{ skill: SkillId; size?: number; strokeWidth?: number; className?: string }> = ({ skill, size = 20, strokeWidth = 2, className }) => {
+  const Icon = ICONS[skill];
+  return <Icon size={size} strokeWidth={strokeWidth} className={className} />;
+};
+
+export default SkillIcon;
@@ -0,0 +1,256 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, ChevronLeft, ChevronRight, Check, RotateCcw } from 'lucide-react';
+import { Language, Point, SpellType, TimedPoint } from '../types';
+import { GestureFailure, SPELL_ORDER, classifyGesture, diagnoseGesture, getSymbolColor, getSymbolIcon } from '../utils/gesture';
+import { createStrokeTracker } from '../utils/pointerStrokes';
+import { createTranslator } from '../utils/i18n';
+import { getCanonicalStroke, getTemplatesForPlayer } from '../utils/templateRecognizer';
+import { TrainingStats, clearTrainingStats, getSuccessRate, getTopFailure, loadTrainingStats, recordTrainingAttempt } from '../utils/trainingStats';
+
+interface TrainingProps {
+  playerName: string;
+  language: Language;
+  minConfidence: number; // Same bar as in play (relaxed-gestures assist)
+  onClose: () => void;
+}
+
+// Ghost stroke: drawn over GHOST_DRAW_MS, then held until the cycle restarts
+const GHOST_DRAW_MS = 1400;
+const GHOST_CYCLE_MS = 2200;
+const GHOST_SIZE = 0.6; // Of the pad's shorter side
+const NEXT_SYMBOL_DELAY_MS = 700;
+// Symbols with fewer attempts aren't called out as the weakest yet
+const MIN_ATTEMPTS_FOR_WEAKEST = 3;
+
+interface Attempt {
+  success: boolean;
+  confidence: number;
+  readAs: SpellType | null; // What the recognizer saw instead, on a miss
+  failure: GestureFailure | null;
+}
+
+// Fits the canonical stroke (unit box) into the middle of the pad
+const layoutGhost = (spell: SpellType, width: number, height: number): Point[] => {
+  const points = getCanonicalStroke(spell);
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs), minY = Math.min(...ys);
+  const boxW = Math.max(...xs) - minX, boxH = Math.max(...ys) - minY;
+  const scale = (Math.min(width, height) * GHOST_SIZE) / (Math.max(boxW, boxH) || 1);
+  const offsetX = (width - boxW * scale) / 2, offsetY = (height - boxH * scale) / 2;
+  return points.map(p => ({ x: offsetX + (p.x - minX) * scale, y: offsetY + (p.y - minY) * scale }));
+};
+
+const tracePath = (ctx: CanvasRenderingContext2D, points: Point[]) => {
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  for (let i = 1; i < points.length; i++) ctx.lineTo(points[i].x, points[i].y);
+  ctx.stroke();
+};
+
+// Practice pad: one symbol at a time with an animated ghost of its shape.
+// Rejected strokes say which heuristic failed, and results add up per symbol.
+const Training: React.FC<TrainingProps> = ({ playerName, language, minConfidence, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pointsRef = useRef<TimedPoint[]>([]);
+  const strokesRef = useRef(createStrokeTracker((clientX, clientY) => toLocal(clientX, clientY)));
+  const templatesRef = useRef(getTemplatesForPlayer(playerName));
+  const ghostStartRef = useRef(0);
+
+  const [spellIndex, setSpellIndex] = useState(0);
+  const [stats, setStats] = useState<TrainingStats>(() => loadTrainingStats(playerName));
+  const [attempt, setAttempt] = useState<Attempt | null>(null);
+
+  const spell = SPELL_ORDER[spellIndex];
+
+  const t = createTranslator(language);
+
+  const weakest = SPELL_ORDER
+      .filter(s => (stats[s]?.attempts ?? 0) >= MIN_ATTEMPTS_FOR_WEAKEST)
+      .reduce<SpellType | null>((worst, s) => worst === null || getSuccessRate(stats[s])! < getSuccessRate(stats[worst])! ? s : worst, null);
+  const topFailure = getTopFailure(stats[spell]);
+
+  useEffect(() => {
+      templatesRef.current = getTemplatesForPlayer(playerName);
+  }, [playerName]);
+
+  useEffect(() => {
+      pointsRef.current = [];
+      ghostStartRef.current = performance.now();
+      setAttempt(null);
+  }, [spellIndex]);
+
+  // Ghost and stroke are redrawn every frame
+  useEffect(() => {
+    let id: number;
+    const loop = (now: number) => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (canvas && ctx) {
+            const rect = canvas.getBoundingClientRect();
+            if (canvas.width !== rect.width || canvas.height !== rect.height) {
+                canvas.width = rect.width;
+                canvas.height = rect.height;
+            }
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+            ctx.lineCap = 'round';
+            ctx.lineJoin = 'round';
+
+            // Hidden while drawing so it doesn't get in the way
+            if (strokesRef.current.active().length === 0) {
+                const ghost = layoutGhost(spell, canvas.width, canvas.height);
+                const progress = Math.min(1, ((now - ghostStartRef.current) % GHOST_CYCLE_MS) / GHOST_DRAW_MS);
+                const visible = ghost.slice(0, Math.max(2, Math.ceil(ghost.length * progress)));
+                ctx.strokeStyle = 'rgba(255,255,255,0.15)';
+                ctx.lineWidth = 10;
+                tracePath(ctx, visible);
+                const head = visible[visible.length - 1];
+                ctx.fillStyle = 'rgba(255,255,255,0.5)';
+                ctx.beginPath();
+                ctx.arc(head.x, head.y, 6, 0, Math.PI * 2);
+                ctx.fill();
+            }
+
+            if (pointsRef.current.length >= 2) {
+                ctx.strokeStyle = getSymbolColor(spell);
+                ctx.lineWidth = 4;
+                tracePath(ctx, pointsRef.current);
+            }
+        }
+        id = requestAnimationFrame(loop);
+    };
+    id = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(id);
+  }, [spell]);
+
+  // Moves on after a hit, unless the player picked another symbol meanwhile
+  useEffect(() => {
+      if (!attempt?.success) return;
+      const id = window.setTimeout(() => setSpellIndex(i => (i + 1) % SPELL_ORDER.length), NEXT_SYMBOL_DELAY_MS);
+      return () => window.clearTimeout(id);
+  }, [attempt]);
+
+  const toLocal = (clientX: number, clientY: number): Point => {
+      const rect = canvasRef.current!.getBoundingClientRect();
+      return { x: clientX - rect.left, y: clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (strokesRef.current.active().length > 0) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      strokesRef.current.begin(e.nativeEvent);
+      pointsRef.current = strokesRef.current.active()[0];
+      setAttempt(null);
+  };
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      strokesRef.current.move(e.nativeEvent);
+      const [stroke] = strokesRef.current.active();
+      if (stroke) pointsRef.current = stroke;
+  };
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const points = strokesRef.current.end(e.nativeEvent);
+      if (!points) return;
+      pointsRef.current = points;
+      ghostStartRef.current = performance.now();
+      if (points.length < 2) return;
+
+      // Same recognizer as in play, then ask the heuristics what went wrong
+      const result = classifyGesture(points, templatesRef.current, 'hybrid', minConfidence);
+      const success = result?.type === spell;
+      const failure = success ? null : diagnoseGesture(points, spell);
+      setStats(recordTrainingAttempt(playerName, spell, success, failure));
+      setAttempt({ success, confidence: result?.confidence ?? 0, readAs: success ? null : result?.type ?? null, failure });
+  };
+
+  const renderAttempt = (current: Attempt) => {
+      if (current.success) {
+          return <span className="flex items-center gap-2 text-green-300"><Check size={16} /> {Math.round(current.confidence * 100)}%</span>;
+      }
+      return (
+          <span className="flex flex-col items-center gap-1">
+              <span className="text-red-300">
+                  {current.readAs
+                      ? <>{t('training.readAs')} <span style={{ color: getSymbolColor(current.readAs) }}>{getSymbolIcon(current.readAs)}</span></>
+                      : t('training.notRecognized')}
+              </span>
+              {current.failure && <span className="text-white/60">{t(`failure.${current.failure}`)}</span>}
+          </span>
+      );
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-[#050f18]/95 backdrop-blur-md p-6 animate-fade-in text-white select-none overflow-y-auto">
+        <button
+            onClick={onClose}
+            className="absolute top-6 right-6 text-white/50 hover:text-white transition-colors"
+        >
+            <X size={32} strokeWidth={1} />
+        </button>
+
+        <h2 className="text-3xl font-thin mb-2 uppercase tracking-[0.2em] text-center">{t('training.title')}</h2>
+        <p className="text-xs text-white/40 mb-6">{t('training.subtitle')}</p>
+
+        {/* Symbol Selector */}
+        <div className="flex items-center gap-6 mb-4">
+            <button onClick={() => setSpellIndex((spellIndex + SPELL_ORDER.length - 1) % SPELL_ORDER.length)} className="text-white/50 hover:text-white">
+                <ChevronLeft size={28} strokeWidth={1} />
+            </button>
+            <span className="font-mono text-5xl w-16 text-center" style={{ color: getSymbolColor(spell) }}>{getSymbolIcon(spell)}</span>
+            <button onClick={() => setSpellIndex((spellIndex + 1) % SPELL_ORDER.length)} className="text-white/50 hover:text-white">
+                <ChevronRight size={28} strokeWidth={1} />
+            </button>
+        </div>
+
+        {/* Drawing Pad */}
+        <div className="relative w-full max-w-sm aspect-square border border-white/20 rounded bg-white/5 touch-none">
+            <canvas
+                ref={canvasRef}
+                className="block w-full h-full"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={e => strokesRef.current.cancel(e.nativeEvent)}
+            />
+        </div>
+
+        {/* Feedback */}
+        <div className="h-12 mt-4 flex items-start justify-center text-xs font-mono text-center">
+            {attempt && renderAttempt(attempt)}
+        </div>
+
+        {/* Per-symbol Success Rates */}
+        <div className="grid grid-cols-8 gap-2 w-full max-w-sm mt-2 text-[10px] font-mono">
+            {SPELL_ORDER.map((s, i) => {
+                const rate = getSuccessRate(stats[s]);
+                return (
+                    <button
+                        key={s}
+                        onClick={() => setSpellIndex(i)}
+                        className={`flex flex-col items-center gap-1 py-1 rounded border transition-colors ${i === spellIndex ? 'border-white/60' : s === weakest ? 'border-red-400/40' : 'border-transparent hover:border-white/20'}`}
+                        title={t('training.attempts', { count: stats[s]?.attempts ?? 0 })}
+                    >
+                        <span className="text-base" style={{ color: getSymbolColor(s) }}>{getSymbolIcon(s)}</span>
+                        <span className="w-full h-1 bg-white/10">
+                            <span className="block h-full bg-white/60" style={{ width: `${(rate ?? 0) * 100}%` }} />
+                        </span>
+                        <span className="text-white/50">{rate === null ? '–' : `${Math.round(rate * 100)}%`}</span>
+                    </button>
+                );
+            })}
+        </div>
+        <div className="h-8 mt-3 flex flex-col items-center text-[10px] uppercase tracking-widest text-white/40">
+            {weakest && <span>{t('training.weakest')}: <span style={{ color: getSymbolColor(weakest) }}>{getSymbolIcon(weakest)}</span></span>}
+            {topFailure && <span className="normal-case tracking-normal">{t('training.commonIssue')}: {t(`failure.${topFailure}`)}</span>}
+        </div>
+
+        <button
+            onClick={() => setStats(clearTrainingStats(playerName))}
+            className="flex items-center gap-2 mt-4 px-6 py-3 border border-white/30 rounded-full hover:bg-white hover:text-black transition-all uppercase tracking-widest text-xs"
+        >
+            <RotateCcw size={14} /> {t('training.reset')}
+        </button>
+    </div>
+  );
+};
+
+export default Training;
@@ -0,0 +1,265 @@
+import { Message } from '../utils/i18n';
+
+// Reference catalog: its keys are the MessageKey type, and the other locales
+// are checked against it. Plural entries pick a form by the numeric {count}.
+export const en = {
+  'app.title': 'CatSalom - The Sorcerer',
+
+  // -- Shared --
+  'common.level': 'Level',
+  'common.boss': 'BOSS',
+  'common.endless': 'Endless',
+  'common.daily': 'Daily Challenge',
+  'common.playtest': 'Play-test',
+
+  // -- Menu --
+  'menu.language': 'Language',
+  'menu.catNamePlaceholder': 'Cat Name',
+  'menu.continueGame': 'Continue',
+  'menu.newGame': 'New game',
+  'menu.newGameWarning': "Start over? {name}'s campaign, essence and upgrades will be lost.",
+  'menu.daily': 'Daily',
+  'menu.compareCodes': 'Compare codes',
+  'menu.pasteCode': 'Paste a Daily Challenge code',
+  'menu.invalidCode': 'Invalid code',
+  'menu.today': 'Today',
+  'menu.assists': 'Assists',
+  'menu.invalidReplay': 'Invalid replay file',
+  'menu.tutorial': 'Guide',
+  'menu.calibrate': 'Calibrate',
+  'menu.training': 'Training',
+  'menu.replay': 'Replay',
+  'menu.editor': 'Editor',
+  'menu.feedback': 'Feedback',
+  'menu.updateAvailable': 'A new version is ready',
+  'menu.update': 'Update',
+  'menu.wardrobe': 'Wardrobe',
+
+  'audio.master': 'Master',
+  'audio.music': 'Music',
+  'audio.sfx': 'Effects',
+  'audio.mute': 'Mute',
+
+  'assist.slowEnemies': 'Slower enemies',
+  'assist.extraHearts': 'More hearts',
+  'assist.relaxedGestures': 'Relaxed gestures',
+  'assist.autoPause': 'Pause on tab blur',
+
+  'graphics.title': 'Graphics',
+  'graphics.auto': 'Auto',
+  'graphics.low': 'Low',
+  'graphics.medium': 'Medium',
+  'graphics.high': 'High',
+  'graphics.showFps': 'Show FPS',
+
+  'wardrobe.hat': 'Hat',
+  'wardrobe.robe': 'Robe',
+  'wardrobe.familiar': 'Familiar',
+  'wardrobe.none': 'None',
+  'wardrobe.locked': 'Defeat the boss of {biome}',
+
+  // -- Tutorial --
+  'tutorial.grimoire': 'Grimoire',
+  'tutorial.magicGestures': 'Magic Gestures',
+  'tutorial.gesturesDesc': 'Draw the symbols appearing above enemies to exorcise them.',
+  'tutorial.centerTip': 'Tip: Perform gestures preferably in the center of the screen.',
+  'tutorial.comboTip': 'Enemies with several symbols must be drawn in order, left to right.',
+  'tutorial.biomesBoss': 'Biomes & Bosses',
+  'tutorial.biomesDesc': 'Survive 10 waves to face the Biome Boss.',
+  'tutorial.biomesTip': 'Tip: Destroy red sigils protecting the Boss.',
+  'tutorial.skills': 'Skills',
+  'tutorial.skillsDesc': 'Unlock supports by clearing levels (Total Levels).',
+  'tutorial.unlockLevel': 'Level {level}',
+  'tutorial.skillsUpgradeTip': 'Tip: Spend Essence between levels to upgrade your skills.',
+  'tutorial.understood': 'Got it',
+
+  'controls.title': 'Controls',
+  'controls.description': 'Keys and gamepad buttons for skills and pause, and for symbols when casting with buttons is on. Click to change.',
+  'controls.press': '...',
+  'controls.reset': 'Reset',
+  'controls.castWithButtons': 'Cast symbols with keys and buttons',
+  'controls.castWithButtonsHint': 'Campaign only: the Daily Challenge and Endless always need drawn symbols.',
+
+  // -- Game --
+  'game.stage': 'Stage',
+  'game.paused': 'PAUSED',
+  'game.combo': 'Combo',
+  'game.bossDefeated': 'Boss Defeated',
+  'game.levelComplete': 'Level Complete',
+  'game.levelScore': 'Level Score',
+  'game.bestStreak': 'Best Streak',
+  'game.essenceEarned': 'Essence',
+  'game.upgrades': 'Upgrades',
+  'game.maxed': 'Max',
+  'game.nextLevel': 'Next Level',
+  'game.cosmeticUnlocked': 'Unlocked: {name}',
+
+  'score.base': 'Enemies',
+  'score.multiKill': 'Multi-kill',
+  'score.nearMiss': 'Near Miss',
+  'score.accuracy': 'Accuracy',
+  'score.boss': 'Boss Bonus',
+  'score.streak': 'Multiplier',
+
+  // -- Game Over --
+  'gameOver.finalScore': 'Final Score',
+  'gameOver.journeyEnd': 'The journey of {name} has ended.',
+  'gameOver.levelsCleared': 'Levels',
+  'gameOver.biomeReached': 'Biome',
+  'gameOver.playTime': 'Time',
+  'gameOver.damageTaken': 'Damage',
+  'gameOver.failedGestures': 'Misses',
+  'gameOver.unrecognizedGestures': 'Unrecognized',
+  'gameOver.kills': 'Kills',
+  'gameOver.skillsUsed': 'Skills',
+  'gameOver.highScores': 'High Scores',
+  'gameOver.leaderboard': 'Endless Leaderboard',
+  'gameOver.newRecord': 'New record!',
+  'gameOver.thisRun': 'This run',
+  'gameOver.dailyCode': 'Daily Challenge Code',
+  'gameOver.dailyShare': 'Share it to compare (paste it in the menu).',
+  'gameOver.copy': 'Copy',
+  'gameOver.menu': 'Menu',
+  'gameOver.restart': 'Restart',
+  'gameOver.watchReplay': 'Watch Replay',
+  'gameOver.exportReplay': 'Export',
+
+  // -- Replay --
+  'replay.title': 'Replay',
+  'replay.finished': 'Replay Finished',
+  'replay.close': 'Close',
+
+  // -- Calibration --
+  'calibration.title': 'Calibration',
+  'calibration.subtitle': 'Teach {name} your strokes',
+  'calibration.samples': { one: '{count} sample', other: '{count} samples' },
+  'calibration.total': '{count} in total',
+  'calibration.drawHere': 'Draw the symbol here',
+  'calibration.template': 'Template',
+  'calibration.heuristic': 'Heuristic',
+  'calibration.none': 'none',
+  'calibration.clear': 'Clear',
+  'calibration.save': 'Save sample',
+
+  // -- Training --
+  'training.title': 'Training',
+  'training.subtitle': 'Follow the ghost stroke. Hits move on to the next symbol.',
+  'training.notRecognized': 'Not recognized',
+  'training.readAs': 'Read as',
+  'training.attempts': { one: '{count} attempt', other: '{count} attempts' },
+  'training.weakest': 'Weakest',
+  'training.commonIssue': 'Most common issue',
+  'training.reset': 'Reset',
+
+  'failure.tooShort': 'Too short: draw it bigger and slower',
+  'failure.notClosed': 'Not closed: finish near where you started',
+  'failure.notOpen': 'Too closed: leave a gap between start and end',
+  'failure.noIntersection': 'No intersection: the lines must cross',
+  'failure.selfIntersecting': 'The stroke crosses itself',
+  'failure.tooSmall': 'Too small',
+  'failure.aspectRatio': 'Aspect ratio: too wide or too tall',
+  'failure.notStraight': 'Not straight enough',
+  'failure.tooStraight': 'Too straight: add the zigzag',
+  'failure.wrongStart': 'Starts in the wrong place: follow the ghost',
+  'failure.wrongEnd': 'Ends in the wrong place',
+  'failure.noTopBar': 'Start with a horizontal bar',
+  'failure.noDownStroke': 'Missing the downward stroke',
+  'failure.notCurved': 'Curve too shallow',
+  'failure.noZigzag': 'Not enough zigzag',
+  'failure.wrongDirection': 'Wrong direction: draw from top to bottom',
+
+  // -- Level Editor --
+  'editor.title': 'Level Editor',
+  'editor.fileName': 'File name',
+  'editor.useInCampaign': 'Use in campaign',
+  'editor.import': 'Import',
+  'editor.export': 'Export',
+  'editor.invalidFile': 'Invalid wave file',
+  'editor.levels': 'Levels',
+  'editor.addLevel': 'New level',
+  'editor.noLevels': 'No levels yet. Add one to start.',
+  'editor.biome': 'Biome',
+  'editor.targetScore': 'Score',
+  'editor.duration': 'Duration (s)',
+  'editor.goalHint': 'No goal: the level ends once every enemy is defeated.',
+  'editor.boss': 'Boss',
+  'editor.phase': 'Phase',
+  'editor.sigils': 'Sigils',
+  'editor.interval': 'Attack (s)',
+  'editor.timeline': 'Timeline',
+  'editor.timelineHint': 'Click a lane to add an enemy, drag one to retime it.',
+  'editor.spawn': 'Enemy',
+  'editor.time': 'Time (s)',
+  'editor.side': 'Side',
+  'editor.position': 'Position',
+  'editor.monster': 'Monster',
+  'editor.symbols': 'Symbols',
+  'editor.speed': 'Speed',
+  'editor.random': 'Random',
+  'editor.playtest': 'Play-test',
+  'editor.outcome.complete': 'Level complete',
+  'editor.outcome.over': 'Game over',
+  'editor.outcome.playing': 'Play-test stopped',
+
+  'side.top': 'Top',
+  'side.right': 'Right',
+  'side.bottom': 'Bottom',
+  'side.left': 'Left',
+  'side.random': 'Random',
+
+  // -- Game data --
+  'biome.GARDEN': 'Abandoned Garden',
+  'biome.CITY': 'Night City',
+  'biome.SEWER': 'Sewer',
+  'biome.HOUSE': 'Haunted House',
+  'biome.CEMETERY': 'Cemetery',
+  'biome.FACTORY': 'Factory',
+  'biome.ASTRAL': 'Astral Plane',
+
+  'boss.GARDEN': 'Thorn Queen',
+  'boss.CITY': 'Dark Beacon',
+  'boss.SEWER': 'Rat King',
+  'boss.HOUSE': 'Attic Matron',
+  'boss.CEMETERY': 'Silent Reaper',
+  'boss.FACTORY': 'Living Forge',
+  'boss.ASTRAL': 'Eye of the Void',
+
+  'skill.shield': 'Shield',
+  'skill.heal': 'Heal',
+  'skill.hourglass': 'Time',
+  'skill.magnet': 'Magnet',
+  'skill.bomb': 'Bomb',
+  'skill.chainLightning': 'Chain',
+
+  'upgrade.shieldDuration': 'Lasting Shield',
+  'upgrade.shieldDuration.description': '+1s shield',
+  'upgrade.cooldownReduction': 'Focus',
+  'upgrade.cooldownReduction.description': '-10% cooldowns',
+  'upgrade.bombSigils': 'Holy Bomb',
+  'upgrade.bombSigils.description': 'Destroys 1 boss sigil',
+  'upgrade.healAmount': 'Purr',
+  'upgrade.healAmount.description': '+1 health healed',
+  'upgrade.chainJumps': 'Long Chain',
+  'upgrade.chainJumps.description': '+1 jump',
+  'upgrade.magnetRadius': 'Strong Magnet',
+  'upgrade.magnetRadius.description': '+40% range',
+
+  'cosmetic.robe.moss': 'Moss Robe',
+  'cosmetic.familiar.firefly': 'Firefly',
+  'cosmetic.hat.crown': 'Rat Crown',
+  'cosmetic.hat.pointed': 'Wizard Hat',
+  'cosmetic.familiar.ghost': 'Little Ghost',
+  'cosmetic.robe.ember': 'Ember Robe',
+  'cosmetic.hat.halo': 'Astral Halo',
+
+  'difficulty.story': 'Story',
+  'difficulty.normal': 'Normal',
+  'difficulty.hard': 'Hard',
+  'difficulty.nightmare': 'Nightmare',
+
+  'modifier.curvedOnly': 'Curves only',
+  'modifier.doubleSpeed': 'Double speed',
+  'modifier.noSkills': 'No skills',
+  'modifier.swarm': 'Swarm',
+  'modifier.glassCat': 'Glass cat'
+} satisfies Record<string, Message>;
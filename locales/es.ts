@@ -0,0 +1,263 @@
+import { LocaleMessages } from '../utils/i18n';
+
+export const es: LocaleMessages = {
+  'app.title': 'CatSalom - El Hechicero',
+
+  // -- Shared --
+  'common.level': 'Fase',
+  'common.boss': 'JEFE',
+  'common.endless': 'Infinito',
+  'common.daily': 'Desafío Diario',
+  'common.playtest': 'Prueba',
+
+  // -- Menu --
+  'menu.language': 'Idioma',
+  'menu.catNamePlaceholder': 'Nombre del Gato',
+  'menu.continueGame': 'Continuar',
+  'menu.newGame': 'Nueva partida',
+  'menu.newGameWarning': '¿Empezar de nuevo? Se perderán la campaña, la esencia y las mejoras de {name}.',
+  'menu.daily': 'Diario',
+  'menu.compareCodes': 'Comparar códigos',
+  'menu.pasteCode': 'Pega un código del Desafío Diario',
+  'menu.invalidCode': 'Código no válido',
+  'menu.today': 'Hoy',
+  'menu.assists': 'Asistencias',
+  'menu.invalidReplay': 'Archivo de repetición no válido',
+  'menu.tutorial': 'Guía',
+  'menu.calibrate': 'Calibrar',
+  'menu.training': 'Práctica',
+  'menu.replay': 'Repetición',
+  'menu.editor': 'Editor',
+  'menu.feedback': 'Opiniones',
+  'menu.updateAvailable': 'Hay una nueva versión',
+  'menu.update': 'Actualizar',
+  'menu.wardrobe': 'Vestuario',
+
+  'audio.master': 'General',
+  'audio.music': 'Música',
+  'audio.sfx': 'Efectos',
+  'audio.mute': 'Silencio',
+
+  'assist.slowEnemies': 'Enemigos más lentos',
+  'assist.extraHearts': 'Más corazones',
+  'assist.relaxedGestures': 'Gestos tolerantes',
+  'assist.autoPause': 'Pausar al salir de la pestaña',
+
+  'graphics.title': 'Gráficos',
+  'graphics.auto': 'Auto',
+  'graphics.low': 'Baja',
+  'graphics.medium': 'Media',
+  'graphics.high': 'Alta',
+  'graphics.showFps': 'Mostrar FPS',
+
+  'wardrobe.hat': 'Sombrero',
+  'wardrobe.robe': 'Túnica',
+  'wardrobe.familiar': 'Familiar',
+  'wardrobe.none': 'Ninguno',
+  'wardrobe.locked': 'Derrota al jefe de {biome}',
+
+  // -- Tutorial --
+  'tutorial.grimoire': 'Grimorio',
+  'tutorial.magicGestures': 'Gestos Mágicos',
+  'tutorial.gesturesDesc': 'Dibuja los símbolos que aparecen sobre los enemigos para exorcizarlos.',
+  'tutorial.centerTip': 'Consejo: Haz los gestos preferiblemente en el centro de la pantalla.',
+  'tutorial.comboTip': 'Los enemigos con varios símbolos se dibujan en orden, de izquierda a derecha.',
+  'tutorial.biomesBoss': 'Biomas y Jefes',
+  'tutorial.biomesDesc': 'Sobrevive 10 fases para enfrentarte al Jefe del bioma.',
+  'tutorial.biomesTip': 'Consejo: Destruye los sigilos rojos que protegen al Jefe.',
+  'tutorial.skills': 'Habilidades',
+  'tutorial.skillsDesc': 'Desbloquea apoyos al superar fases (Niveles Totales).',
+  'tutorial.unlockLevel': 'Nivel {level}',
+  'tutorial.skillsUpgradeTip': 'Consejo: Gasta Esencia entre fases para mejorar tus habilidades.',
+  'tutorial.understood': 'Entendido',
+
+  'controls.title': 'Controles',
+  'controls.description': 'Teclas y botones del mando para habilidades y pausa, y para los símbolos si lanzar con botones está activado. Haz clic para cambiarlo.',
+  'controls.press': '...',
+  'controls.reset': 'Restablecer',
+  'controls.castWithButtons': 'Lanzar símbolos con teclas y botones',
+  'controls.castWithButtonsHint': 'Solo en la campaña: el Desafío diario y el modo Infinito siempre piden símbolos dibujados.',
+
+  // -- Game --
+  'game.stage': 'Etapa',
+  'game.paused': 'PAUSA',
+  'game.combo': 'Combo',
+  'game.bossDefeated': 'Jefe Derrotado',
+  'game.levelComplete': 'Fase Completada',
+  'game.levelScore': 'Puntos de la Fase',
+  'game.bestStreak': 'Mejor Racha',
+  'game.essenceEarned': 'Esencia',
+  'game.upgrades': 'Mejoras',
+  'game.maxed': 'Máx',
+  'game.nextLevel': 'Siguiente Fase',
+  'game.cosmeticUnlocked': 'Desbloqueado: {name}',
+
+  'score.base': 'Enemigos',
+  'score.multiKill': 'Multi-eliminación',
+  'score.nearMiss': 'Por los Pelos',
+  'score.accuracy': 'Precisión',
+  'score.boss': 'Bonus del Jefe',
+  'score.streak': 'Multiplicador',
+
+  // -- Game Over --
+  'gameOver.finalScore': 'Puntuación Final',
+  'gameOver.journeyEnd': 'El viaje de {name} ha terminado.',
+  'gameOver.levelsCleared': 'Fases',
+  'gameOver.biomeReached': 'Bioma',
+  'gameOver.playTime': 'Tiempo',
+  'gameOver.damageTaken': 'Daño',
+  'gameOver.failedGestures': 'Fallos',
+  'gameOver.unrecognizedGestures': 'No reconocidos',
+  'gameOver.kills': 'Eliminaciones',
+  'gameOver.skillsUsed': 'Habilidades',
+  'gameOver.highScores': 'Récords',
+  'gameOver.leaderboard': 'Récords del Infinito',
+  'gameOver.newRecord': '¡Nuevo récord!',
+  'gameOver.thisRun': 'Esta partida',
+  'gameOver.dailyCode': 'Código del Desafío Diario',
+  'gameOver.dailyShare': 'Compártelo para comparar (pégalo en el menú).',
+  'gameOver.copy': 'Copiar',
+  'gameOver.menu': 'Menú',
+  'gameOver.restart': 'Reiniciar',
+  'gameOver.watchReplay': 'Ver Repetición',
+  'gameOver.exportReplay': 'Exportar',
+
+  // -- Replay --
+  'replay.title': 'Repetición',
+  'replay.finished': 'Fin de la Repetición',
+  'replay.close': 'Cerrar',
+
+  // -- Calibration --
+  'calibration.title': 'Calibración',
+  'calibration.subtitle': 'Enseña tus trazos a {name}',
+  'calibration.samples': { one: '{count} muestra', other: '{count} muestras' },
+  'calibration.total': '{count} en total',
+  'calibration.drawHere': 'Dibuja el símbolo aquí',
+  'calibration.template': 'Plantilla',
+  'calibration.heuristic': 'Heurística',
+  'calibration.none': 'ninguno',
+  'calibration.clear': 'Borrar',
+  'calibration.save': 'Guardar muestra',
+
+  // -- Training --
+  'training.title': 'Práctica',
+  'training.subtitle': 'Sigue el trazo fantasma. Los aciertos pasan al siguiente símbolo.',
+  'training.notRecognized': 'No reconocido',
+  'training.readAs': 'Leído como',
+  'training.attempts': { one: '{count} intento', other: '{count} intentos' },
+  'training.weakest': 'Más difícil',
+  'training.commonIssue': 'Error más común',
+  'training.reset': 'Reiniciar',
+
+  'failure.tooShort': 'Trazo demasiado corto: dibújalo más grande y más despacio',
+  'failure.notClosed': 'No se cierra: termina cerca de donde empezaste',
+  'failure.notOpen': 'Demasiado cerrado: deja un hueco entre el inicio y el final',
+  'failure.noIntersection': 'Sin cruce: las líneas deben cruzarse',
+  'failure.selfIntersecting': 'El trazo se cruza consigo mismo',
+  'failure.tooSmall': 'Demasiado pequeño',
+  'failure.aspectRatio': 'Proporción: demasiado ancho o alto',
+  'failure.notStraight': 'No es lo bastante recto',
+  'failure.tooStraight': 'Demasiado recto: añade el zigzag',
+  'failure.wrongStart': 'Empieza en el lugar equivocado: sigue al fantasma',
+  'failure.wrongEnd': 'Termina en el lugar equivocado',
+  'failure.noTopBar': 'Empieza con una barra horizontal',
+  'failure.noDownStroke': 'Falta el trazo hacia abajo',
+  'failure.notCurved': 'Curva demasiado plana',
+  'failure.noZigzag': 'Zigzag insuficiente',
+  'failure.wrongDirection': 'Dirección equivocada: dibuja de arriba abajo',
+
+  // -- Level Editor --
+  'editor.title': 'Editor de Fases',
+  'editor.fileName': 'Nombre del archivo',
+  'editor.useInCampaign': 'Usar en la campaña',
+  'editor.import': 'Importar',
+  'editor.export': 'Exportar',
+  'editor.invalidFile': 'Archivo de oleadas no válido',
+  'editor.levels': 'Fases',
+  'editor.addLevel': 'Nueva fase',
+  'editor.noLevels': 'Aún no hay fases. Crea una para empezar.',
+  'editor.biome': 'Bioma',
+  'editor.targetScore': 'Puntos',
+  'editor.duration': 'Duración (s)',
+  'editor.goalHint': 'Sin meta: la fase termina cuando se derrota a todos los enemigos.',
+  'editor.boss': 'Jefe',
+  'editor.phase': 'Fase',
+  'editor.sigils': 'Sigilos',
+  'editor.interval': 'Ataque (s)',
+  'editor.timeline': 'Línea de tiempo',
+  'editor.timelineHint': 'Haz clic en un carril para añadir un enemigo, arrástralo para cambiar su tiempo.',
+  'editor.spawn': 'Enemigo',
+  'editor.time': 'Tiempo (s)',
+  'editor.side': 'Lado',
+  'editor.position': 'Posición',
+  'editor.monster': 'Monstruo',
+  'editor.symbols': 'Símbolos',
+  'editor.speed': 'Velocidad',
+  'editor.random': 'Aleatorio',
+  'editor.playtest': 'Probar',
+  'editor.outcome.complete': 'Fase completada',
+  'editor.outcome.over': 'Fin de la partida',
+  'editor.outcome.playing': 'Prueba interrumpida',
+
+  'side.top': 'Arriba',
+  'side.right': 'Derecha',
+  'side.bottom': 'Abajo',
+  'side.left': 'Izquierda',
+  'side.random': 'Aleatorio',
+
+  // -- Game data --
+  'biome.GARDEN': 'Jardín Abandonado',
+  'biome.CITY': 'Ciudad Nocturna',
+  'biome.SEWER': 'Alcantarilla',
+  'biome.HOUSE': 'Casa Encantada',
+  'biome.CEMETERY': 'Cementerio',
+  'biome.FACTORY': 'Fábrica',
+  'biome.ASTRAL': 'Plano Astral',
+
+  'boss.GARDEN': 'Reina de las Espinas',
+  'boss.CITY': 'Faro Sombrío',
+  'boss.SEWER': 'Rey de las Ratas',
+  'boss.HOUSE': 'Señora del Desván',
+  'boss.CEMETERY': 'Segador Silencioso',
+  'boss.FACTORY': 'Forja Viviente',
+  'boss.ASTRAL': 'El Ojo del Vacío',
+
+  'skill.shield': 'Escudo',
+  'skill.heal': 'Curar',
+  'skill.hourglass': 'Tiempo',
+  'skill.magnet': 'Imán',
+  'skill.bomb': 'Bomba',
+  'skill.chainLightning': 'Cadena',
+
+  'upgrade.shieldDuration': 'Escudo Duradero',
+  'upgrade.shieldDuration.description': '+1s de escudo',
+  'upgrade.cooldownReduction': 'Concentración',
+  'upgrade.cooldownReduction.description': '-10% de recarga',
+  'upgrade.bombSigils': 'Bomba Sagrada',
+  'upgrade.bombSigils.description': 'Destruye 1 sigilo del Jefe',
+  'upgrade.healAmount': 'Ronroneo',
+  'upgrade.healAmount.description': '+1 de vida curada',
+  'upgrade.chainJumps': 'Cadena Larga',
+  'upgrade.chainJumps.description': '+1 salto',
+  'upgrade.magnetRadius': 'Imán Potente',
+  'upgrade.magnetRadius.description': '+40% de alcance',
+
+  'cosmetic.robe.moss': 'Túnica de Musgo',
+  'cosmetic.familiar.firefly': 'Luciérnaga',
+  'cosmetic.hat.crown': 'Corona de Rata',
+  'cosmetic.hat.pointed': 'Sombrero de Mago',
+  'cosmetic.familiar.ghost': 'Fantasmita',
+  'cosmetic.robe.ember': 'Túnica de Brasa',
+  'cosmetic.hat.halo': 'Aureola Astral',
+
+  'difficulty.story': 'Historia',
+  'difficulty.normal': 'Normal',
+  'difficulty.hard': 'Difícil',
+  'difficulty.nightmare': 'Pesadilla',
+
+  'modifier.curvedOnly': 'Solo curvas',
+  'modifier.doubleSpeed': 'Velocidad doble',
+  'modifier.noSkills': 'Sin habilidades',
+  'modifier.swarm': 'Enjambre',
+  'modifier.glassCat': 'Gato de cristal'
+};
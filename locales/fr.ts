@@ -0,0 +1,263 @@
+import { LocaleMessages } from '../utils/i18n';
+
+export const fr: LocaleMessages = {
+  'app.title': 'CatSalom - Le Sorcier',
+
+  // -- Shared --
+  'common.level': 'Niveau',
+  'common.boss': 'BOSS',
+  'common.endless': 'Infini',
+  'common.daily': 'Défi du Jour',
+  'common.playtest': 'Test',
+
+  // -- Menu --
+  'menu.language': 'Langue',
+  'menu.catNamePlaceholder': 'Nom du Chat',
+  'menu.continueGame': 'Continuer',
+  'menu.newGame': 'Nouvelle partie',
+  'menu.newGameWarning': "Recommencer ? La campagne, l'essence et les améliorations de {name} seront perdues.",
+  'menu.daily': 'Du jour',
+  'menu.compareCodes': 'Comparer les codes',
+  'menu.pasteCode': 'Collez un code du Défi du Jour',
+  'menu.invalidCode': 'Code invalide',
+  'menu.today': "Aujourd'hui",
+  'menu.assists': 'Aides',
+  'menu.invalidReplay': 'Fichier de replay invalide',
+  'menu.tutorial': 'Guide',
+  'menu.calibrate': 'Calibrer',
+  'menu.training': 'Entraînement',
+  'menu.replay': 'Replay',
+  'menu.editor': 'Éditeur',
+  'menu.feedback': 'Avis',
+  'menu.updateAvailable': 'Une nouvelle version est prête',
+  'menu.update': 'Mettre à jour',
+  'menu.wardrobe': 'Garde-robe',
+
+  'audio.master': 'Général',
+  'audio.music': 'Musique',
+  'audio.sfx': 'Effets',
+  'audio.mute': 'Muet',
+
+  'assist.slowEnemies': 'Ennemis plus lents',
+  'assist.extraHearts': 'Plus de cœurs',
+  'assist.relaxedGestures': 'Gestes tolérants',
+  'assist.autoPause': "Pause en quittant l'onglet",
+
+  'graphics.title': 'Graphismes',
+  'graphics.auto': 'Auto',
+  'graphics.low': 'Basse',
+  'graphics.medium': 'Moyenne',
+  'graphics.high': 'Haute',
+  'graphics.showFps': 'Afficher les FPS',
+
+  'wardrobe.hat': 'Chapeau',
+  'wardrobe.robe': 'Robe',
+  'wardrobe.familiar': 'Familier',
+  'wardrobe.none': 'Aucun',
+  'wardrobe.locked': 'Battez le boss de {biome}',
+
+  // -- Tutorial --
+  'tutorial.grimoire': 'Grimoire',
+  'tutorial.magicGestures': 'Gestes Magiques',
+  'tutorial.gesturesDesc': 'Dessinez les symboles qui apparaissent au-dessus des ennemis pour les exorciser.',
+  'tutorial.centerTip': "Astuce : Tracez les gestes de préférence au centre de l'écran.",
+  'tutorial.comboTip': "Les ennemis à plusieurs symboles se dessinent dans l'ordre, de gauche à droite.",
+  'tutorial.biomesBoss': 'Biomes et Boss',
+  'tutorial.biomesDesc': 'Survivez à 10 niveaux pour affronter le Boss du biome.',
+  'tutorial.biomesTip': 'Astuce : Détruisez les sceaux rouges qui protègent le Boss.',
+  'tutorial.skills': 'Compétences',
+  'tutorial.skillsDesc': 'Débloquez des soutiens en terminant des niveaux (Niveaux Totaux).',
+  'tutorial.unlockLevel': 'Niveau {level}',
+  'tutorial.skillsUpgradeTip': 'Astuce : Dépensez votre Essence entre les niveaux pour améliorer vos compétences.',
+  'tutorial.understood': 'Compris',
+
+  'controls.title': 'Commandes',
+  'controls.description': 'Touches et boutons de manette pour les compétences et la pause, et pour les symboles si le lancer par boutons est activé. Cliquez pour changer.',
+  'controls.press': '...',
+  'controls.reset': 'Réinitialiser',
+  'controls.castWithButtons': 'Lancer les symboles avec touches et boutons',
+  'controls.castWithButtonsHint': 'Campagne uniquement : le Défi du jour et le mode Infini demandent toujours des symboles dessinés.',
+
+  // -- Game --
+  'game.stage': 'Étape',
+  'game.paused': 'PAUSE',
+  'game.combo': 'Combo',
+  'game.bossDefeated': 'Boss Vaincu',
+  'game.levelComplete': 'Niveau Terminé',
+  'game.levelScore': 'Score du Niveau',
+  'game.bestStreak': 'Meilleure Série',
+  'game.essenceEarned': 'Essence',
+  'game.upgrades': 'Améliorations',
+  'game.maxed': 'Max',
+  'game.nextLevel': 'Niveau Suivant',
+  'game.cosmeticUnlocked': 'Débloqué : {name}',
+
+  'score.base': 'Ennemis',
+  'score.multiKill': 'Multi-élimination',
+  'score.nearMiss': 'De Justesse',
+  'score.accuracy': 'Précision',
+  'score.boss': 'Bonus de Boss',
+  'score.streak': 'Multiplicateur',
+
+  // -- Game Over --
+  'gameOver.finalScore': 'Score Final',
+  'gameOver.journeyEnd': "Le voyage de {name} s'achève.",
+  'gameOver.levelsCleared': 'Niveaux',
+  'gameOver.biomeReached': 'Biome',
+  'gameOver.playTime': 'Temps',
+  'gameOver.damageTaken': 'Dégâts',
+  'gameOver.failedGestures': 'Ratés',
+  'gameOver.unrecognizedGestures': 'Non reconnus',
+  'gameOver.kills': 'Éliminations',
+  'gameOver.skillsUsed': 'Compétences',
+  'gameOver.highScores': 'Records',
+  'gameOver.leaderboard': "Records de l'Infini",
+  'gameOver.newRecord': 'Nouveau record !',
+  'gameOver.thisRun': 'Cette partie',
+  'gameOver.dailyCode': 'Code du Défi du Jour',
+  'gameOver.dailyShare': 'Partagez-le pour comparer (collez-le dans le menu).',
+  'gameOver.copy': 'Copier',
+  'gameOver.menu': 'Menu',
+  'gameOver.restart': 'Recommencer',
+  'gameOver.watchReplay': 'Voir le Replay',
+  'gameOver.exportReplay': 'Exporter',
+
+  // -- Replay --
+  'replay.title': 'Replay',
+  'replay.finished': 'Fin du Replay',
+  'replay.close': 'Fermer',
+
+  // -- Calibration --
+  'calibration.title': 'Calibrage',
+  'calibration.subtitle': 'Apprenez vos tracés à {name}',
+  'calibration.samples': { one: '{count} échantillon', other: '{count} échantillons' },
+  'calibration.total': '{count} au total',
+  'calibration.drawHere': 'Dessinez le symbole ici',
+  'calibration.template': 'Modèle',
+  'calibration.heuristic': 'Heuristique',
+  'calibration.none': 'aucun',
+  'calibration.clear': 'Effacer',
+  'calibration.save': "Enregistrer l'échantillon",
+
+  // -- Training --
+  'training.title': 'Entraînement',
+  'training.subtitle': 'Suivez le tracé fantôme. Chaque réussite passe au symbole suivant.',
+  'training.notRecognized': 'Non reconnu',
+  'training.readAs': 'Lu comme',
+  'training.attempts': { one: '{count} essai', other: '{count} essais' },
+  'training.weakest': 'Le plus difficile',
+  'training.commonIssue': 'Erreur la plus fréquente',
+  'training.reset': 'Réinitialiser',
+
+  'failure.tooShort': 'Trop court : dessinez plus grand et plus lentement',
+  'failure.notClosed': 'Pas fermé : terminez près de votre point de départ',
+  'failure.notOpen': 'Trop fermé : laissez un écart entre le début et la fin',
+  'failure.noIntersection': 'Aucun croisement : les lignes doivent se croiser',
+  'failure.selfIntersecting': 'Le tracé se croise lui-même',
+  'failure.tooSmall': 'Trop petit',
+  'failure.aspectRatio': 'Proportions : trop large ou trop haut',
+  'failure.notStraight': 'Pas assez droit',
+  'failure.tooStraight': 'Trop droit : ajoutez le zigzag',
+  'failure.wrongStart': 'Mauvais point de départ : suivez le fantôme',
+  'failure.wrongEnd': "Mauvais point d'arrivée",
+  'failure.noTopBar': 'Commencez par une barre horizontale',
+  'failure.noDownStroke': 'Il manque le trait vers le bas',
+  'failure.notCurved': 'Courbe trop plate',
+  'failure.noZigzag': 'Pas assez de zigzag',
+  'failure.wrongDirection': 'Mauvais sens : dessinez de haut en bas',
+
+  // -- Level Editor --
+  'editor.title': 'Éditeur de Niveaux',
+  'editor.fileName': 'Nom du fichier',
+  'editor.useInCampaign': 'Utiliser dans la campagne',
+  'editor.import': 'Importer',
+  'editor.export': 'Exporter',
+  'editor.invalidFile': 'Fichier de vagues invalide',
+  'editor.levels': 'Niveaux',
+  'editor.addLevel': 'Nouveau niveau',
+  'editor.noLevels': 'Aucun niveau. Créez-en un pour commencer.',
+  'editor.biome': 'Biome',
+  'editor.targetScore': 'Score',
+  'editor.duration': 'Durée (s)',
+  'editor.goalHint': 'Sans objectif : le niveau se termine quand tous les ennemis sont vaincus.',
+  'editor.boss': 'Boss',
+  'editor.phase': 'Phase',
+  'editor.sigils': 'Sceaux',
+  'editor.interval': 'Attaque (s)',
+  'editor.timeline': 'Chronologie',
+  'editor.timelineHint': 'Cliquez sur une piste pour ajouter un ennemi, faites-le glisser pour changer son moment.',
+  'editor.spawn': 'Ennemi',
+  'editor.time': 'Temps (s)',
+  'editor.side': 'Côté',
+  'editor.position': 'Position',
+  'editor.monster': 'Monstre',
+  'editor.symbols': 'Symboles',
+  'editor.speed': 'Vitesse',
+  'editor.random': 'Aléatoire',
+  'editor.playtest': 'Tester',
+  'editor.outcome.complete': 'Niveau terminé',
+  'editor.outcome.over': 'Partie perdue',
+  'editor.outcome.playing': 'Test interrompu',
+
+  'side.top': 'Haut',
+  'side.right': 'Droite',
+  'side.bottom': 'Bas',
+  'side.left': 'Gauche',
+  'side.random': 'Aléatoire',
+
+  // -- Game data --
+  'biome.GARDEN': 'Jardin Abandonné',
+  'biome.CITY': 'Ville Nocturne',
+  'biome.SEWER': 'Égouts',
+  'biome.HOUSE': 'Maison Hantée',
+  'biome.CEMETERY': 'Cimetière',
+  'biome.FACTORY': 'Usine',
+  'biome.ASTRAL': 'Plan Astral',
+
+  'boss.GARDEN': 'Reine des Épines',
+  'boss.CITY': 'Phare Sombre',
+  'boss.SEWER': 'Roi des Rats',
+  'boss.HOUSE': 'Dame du Grenier',
+  'boss.CEMETERY': 'Faucheuse Silencieuse',
+  'boss.FACTORY': 'Forge Vivante',
+  'boss.ASTRAL': "L'Œil du Néant",
+
+  'skill.shield': 'Bouclier',
+  'skill.heal': 'Soin',
+  'skill.hourglass': 'Temps',
+  'skill.magnet': 'Aimant',
+  'skill.bomb': 'Bombe',
+  'skill.chainLightning': 'Chaîne',
+
+  'upgrade.shieldDuration': 'Bouclier Durable',
+  'upgrade.shieldDuration.description': '+1s de bouclier',
+  'upgrade.cooldownReduction': 'Concentration',
+  'upgrade.cooldownReduction.description': '-10% de recharge',
+  'upgrade.bombSigils': 'Bombe Sacrée',
+  'upgrade.bombSigils.description': 'Détruit 1 sceau du Boss',
+  'upgrade.healAmount': 'Ronronnement',
+  'upgrade.healAmount.description': '+1 vie soignée',
+  'upgrade.chainJumps': 'Longue Chaîne',
+  'upgrade.chainJumps.description': '+1 rebond',
+  'upgrade.magnetRadius': 'Aimant Puissant',
+  'upgrade.magnetRadius.description': '+40% de portée',
+
+  'cosmetic.robe.moss': 'Robe de Mousse',
+  'cosmetic.familiar.firefly': 'Luciole',
+  'cosmetic.hat.crown': 'Couronne du Rat',
+  'cosmetic.hat.pointed': 'Chapeau de Sorcier',
+  'cosmetic.familiar.ghost': 'Petit Fantôme',
+  'cosmetic.robe.ember': 'Robe de Braise',
+  'cosmetic.hat.halo': 'Auréole Astrale',
+
+  'difficulty.story': 'Histoire',
+  'difficulty.normal': 'Normal',
+  'difficulty.hard': 'Difficile',
+  'difficulty.nightmare': 'Cauchemar',
+
+  'modifier.curvedOnly': 'Courbes seulement',
+  'modifier.doubleSpeed': 'Vitesse double',
+  'modifier.noSkills': 'Sans compétences',
+  'modifier.swarm': 'Essaim',
+  'modifier.glassCat': 'Chat de verre'
+};
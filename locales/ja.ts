@@ -0,0 +1,263 @@
+import { LocaleMessages } from '../utils/i18n';
+
+export const ja: LocaleMessages = {
+  'app.title': 'CatSalom - 魔法使いの猫',
+
+  // -- Shared --
+  'common.level': 'レベル',
+  'common.boss': 'ボス',
+  'common.endless': 'エンドレス',
+  'common.daily': 'デイリーチャレンジ',
+  'common.playtest': 'テストプレイ',
+
+  // -- Menu --
+  'menu.language': '言語',
+  'menu.catNamePlaceholder': '猫の名前',
+  'menu.continueGame': 'つづきから',
+  'menu.newGame': 'はじめから',
+  'menu.newGameWarning': 'はじめからにしますか？{name}の冒険・エッセンス・強化はすべて失われます。',
+  'menu.daily': 'デイリー',
+  'menu.compareCodes': 'コードを比べる',
+  'menu.pasteCode': 'デイリーチャレンジのコードを貼り付け',
+  'menu.invalidCode': '無効なコード',
+  'menu.today': '今日',
+  'menu.assists': 'アシスト',
+  'menu.invalidReplay': '無効なリプレイファイル',
+  'menu.tutorial': 'ガイド',
+  'menu.calibrate': '調整',
+  'menu.training': '練習',
+  'menu.replay': 'リプレイ',
+  'menu.editor': 'エディター',
+  'menu.feedback': 'ご意見',
+  'menu.updateAvailable': '新しいバージョンがあります',
+  'menu.update': '更新',
+  'menu.wardrobe': '衣装',
+
+  'audio.master': '全体',
+  'audio.music': '音楽',
+  'audio.sfx': '効果音',
+  'audio.mute': 'ミュート',
+
+  'assist.slowEnemies': '敵を遅くする',
+  'assist.extraHearts': 'ハートを増やす',
+  'assist.relaxedGestures': 'ジェスチャーを甘く判定',
+  'assist.autoPause': 'タブを離れたら一時停止',
+
+  'graphics.title': 'グラフィック',
+  'graphics.auto': '自動',
+  'graphics.low': '低',
+  'graphics.medium': '中',
+  'graphics.high': '高',
+  'graphics.showFps': 'FPSを表示',
+
+  'wardrobe.hat': '帽子',
+  'wardrobe.robe': 'ローブ',
+  'wardrobe.familiar': '使い魔',
+  'wardrobe.none': 'なし',
+  'wardrobe.locked': '{biome}のボスを倒す',
+
+  // -- Tutorial --
+  'tutorial.grimoire': '魔導書',
+  'tutorial.magicGestures': '魔法のジェスチャー',
+  'tutorial.gesturesDesc': '敵の上に出る記号を描いて、敵を祓いましょう。',
+  'tutorial.centerTip': 'ヒント：ジェスチャーはなるべく画面の中央で描きましょう。',
+  'tutorial.comboTip': '記号が複数ある敵は、左から右へ順番に描きます。',
+  'tutorial.biomesBoss': 'バイオームとボス',
+  'tutorial.biomesDesc': '10ステージを生き延びると、バイオームのボスが現れます。',
+  'tutorial.biomesTip': 'ヒント：ボスを守る赤い印章を壊しましょう。',
+  'tutorial.skills': 'スキル',
+  'tutorial.skillsDesc': 'ステージをクリアすると（合計レベル）サポートが解放されます。',
+  'tutorial.unlockLevel': 'レベル {level}',
+  'tutorial.skillsUpgradeTip': 'ヒント：ステージの合間にエッセンスを使ってスキルを強化しましょう。',
+  'tutorial.understood': 'わかった',
+
+  'controls.title': '操作',
+  'controls.description': 'スキルと一時停止のキー・ボタン。ボタン詠唱がオンなら記号にも使えます。クリックして変更。',
+  'controls.press': '...',
+  'controls.reset': 'リセット',
+  'controls.castWithButtons': 'キーとボタンで記号を唱える',
+  'controls.castWithButtonsHint': 'キャンペーンのみ：デイリーチャレンジとエンドレスでは記号を描く必要があります。',
+
+  // -- Game --
+  'game.stage': 'ステージ',
+  'game.paused': '一時停止',
+  'game.combo': 'コンボ',
+  'game.bossDefeated': 'ボス撃破',
+  'game.levelComplete': 'ステージクリア',
+  'game.levelScore': 'ステージスコア',
+  'game.bestStreak': '最高連続',
+  'game.essenceEarned': 'エッセンス',
+  'game.upgrades': '強化',
+  'game.maxed': '最大',
+  'game.nextLevel': '次のステージ',
+  'game.cosmeticUnlocked': '解放：{name}',
+
+  'score.base': '敵',
+  'score.multiKill': 'まとめ倒し',
+  'score.nearMiss': 'ギリギリ',
+  'score.accuracy': '正確さ',
+  'score.boss': 'ボスボーナス',
+  'score.streak': '倍率',
+
+  // -- Game Over --
+  'gameOver.finalScore': '最終スコア',
+  'gameOver.journeyEnd': '{name} の旅はここで終わった。',
+  'gameOver.levelsCleared': 'ステージ',
+  'gameOver.biomeReached': 'バイオーム',
+  'gameOver.playTime': '時間',
+  'gameOver.damageTaken': 'ダメージ',
+  'gameOver.failedGestures': 'ミス',
+  'gameOver.unrecognizedGestures': '認識されず',
+  'gameOver.kills': '撃破',
+  'gameOver.skillsUsed': 'スキル',
+  'gameOver.highScores': 'ハイスコア',
+  'gameOver.leaderboard': 'エンドレスランキング',
+  'gameOver.newRecord': '新記録！',
+  'gameOver.thisRun': '今回',
+  'gameOver.dailyCode': 'デイリーチャレンジのコード',
+  'gameOver.dailyShare': '共有して比べよう（メニューに貼り付け）。',
+  'gameOver.copy': 'コピー',
+  'gameOver.menu': 'メニュー',
+  'gameOver.restart': 'もう一度',
+  'gameOver.watchReplay': 'リプレイを見る',
+  'gameOver.exportReplay': '書き出し',
+
+  // -- Replay --
+  'replay.title': 'リプレイ',
+  'replay.finished': 'リプレイ終了',
+  'replay.close': '閉じる',
+
+  // -- Calibration --
+  'calibration.title': '調整',
+  'calibration.subtitle': '{name} にあなたの描き方を教えよう',
+  'calibration.samples': { other: 'サンプル {count} 個' },
+  'calibration.total': '合計 {count}',
+  'calibration.drawHere': 'ここに記号を描いてください',
+  'calibration.template': 'テンプレート',
+  'calibration.heuristic': 'ヒューリスティック',
+  'calibration.none': 'なし',
+  'calibration.clear': '消去',
+  'calibration.save': 'サンプルを保存',
+
+  // -- Training --
+  'training.title': '練習',
+  'training.subtitle': 'ゴーストの線をなぞろう。成功すると次の記号へ進みます。',
+  'training.notRecognized': '認識されませんでした',
+  'training.readAs': '判定',
+  'training.attempts': { other: '{count} 回' },
+  'training.weakest': '苦手',
+  'training.commonIssue': 'よくあるミス',
+  'training.reset': 'リセット',
+
+  'failure.tooShort': '短すぎます：大きく、ゆっくり描きましょう',
+  'failure.notClosed': '閉じていません：描き始めの近くで終えましょう',
+  'failure.notOpen': '閉じすぎです：始点と終点の間をあけましょう',
+  'failure.noIntersection': '交差がありません：線を交差させましょう',
+  'failure.selfIntersecting': '線が交差しています',
+  'failure.tooSmall': '小さすぎます',
+  'failure.aspectRatio': '縦横比：横長すぎるか縦長すぎます',
+  'failure.notStraight': 'まっすぐではありません',
+  'failure.tooStraight': 'まっすぐすぎます：ジグザグにしましょう',
+  'failure.wrongStart': '描き始めの位置が違います：ゴーストをなぞりましょう',
+  'failure.wrongEnd': '描き終わりの位置が違います',
+  'failure.noTopBar': '横線から描き始めましょう',
+  'failure.noDownStroke': '下に向かう線がありません',
+  'failure.notCurved': 'カーブが浅すぎます',
+  'failure.noZigzag': 'ジグザグが足りません',
+  'failure.wrongDirection': '向きが違います：上から下へ描きましょう',
+
+  // -- Level Editor --
+  'editor.title': 'レベルエディター',
+  'editor.fileName': 'ファイル名',
+  'editor.useInCampaign': 'キャンペーンで使う',
+  'editor.import': '読み込み',
+  'editor.export': '書き出し',
+  'editor.invalidFile': '無効なウェーブファイル',
+  'editor.levels': 'ステージ',
+  'editor.addLevel': '新しいステージ',
+  'editor.noLevels': 'ステージがありません。作成して始めましょう。',
+  'editor.biome': 'バイオーム',
+  'editor.targetScore': 'スコア',
+  'editor.duration': '長さ（秒）',
+  'editor.goalHint': '目標なし：すべての敵を倒すとステージが終わります。',
+  'editor.boss': 'ボス',
+  'editor.phase': 'フェーズ',
+  'editor.sigils': '印章',
+  'editor.interval': '攻撃（秒）',
+  'editor.timeline': 'タイムライン',
+  'editor.timelineHint': 'レーンをクリックして敵を追加、ドラッグでタイミングを変更。',
+  'editor.spawn': '敵',
+  'editor.time': '時間（秒）',
+  'editor.side': '方向',
+  'editor.position': '位置',
+  'editor.monster': 'モンスター',
+  'editor.symbols': '記号',
+  'editor.speed': '速さ',
+  'editor.random': 'ランダム',
+  'editor.playtest': 'テストプレイ',
+  'editor.outcome.complete': 'ステージクリア',
+  'editor.outcome.over': 'ゲームオーバー',
+  'editor.outcome.playing': 'テストを中断',
+
+  'side.top': '上',
+  'side.right': '右',
+  'side.bottom': '下',
+  'side.left': '左',
+  'side.random': 'ランダム',
+
+  // -- Game data --
+  'biome.GARDEN': '荒れた庭',
+  'biome.CITY': '夜の街',
+  'biome.SEWER': '下水道',
+  'biome.HOUSE': '幽霊屋敷',
+  'biome.CEMETERY': '墓地',
+  'biome.FACTORY': '工場',
+  'biome.ASTRAL': '星幽界',
+
+  'boss.GARDEN': 'いばらの女王',
+  'boss.CITY': '闇の灯台',
+  'boss.SEWER': 'ネズミの王',
+  'boss.HOUSE': '屋根裏の貴婦人',
+  'boss.CEMETERY': '沈黙の死神',
+  'boss.FACTORY': '生ける溶鉱炉',
+  'boss.ASTRAL': '虚無の眼',
+
+  'skill.shield': 'シールド',
+  'skill.heal': '回復',
+  'skill.hourglass': '時間',
+  'skill.magnet': '磁石',
+  'skill.bomb': 'ボム',
+  'skill.chainLightning': '連鎖',
+
+  'upgrade.shieldDuration': '長持ちシールド',
+  'upgrade.shieldDuration.description': 'シールド +1秒',
+  'upgrade.cooldownReduction': '集中',
+  'upgrade.cooldownReduction.description': 'クールダウン -10%',
+  'upgrade.bombSigils': '聖なるボム',
+  'upgrade.bombSigils.description': 'ボスの印章を1つ破壊',
+  'upgrade.healAmount': 'ゴロゴロ',
+  'upgrade.healAmount.description': '回復量 +1',
+  'upgrade.chainJumps': 'ロングチェーン',
+  'upgrade.chainJumps.description': '連鎖 +1',
+  'upgrade.magnetRadius': '強力磁石',
+  'upgrade.magnetRadius.description': '範囲 +40%',
+
+  'cosmetic.robe.moss': '苔のローブ',
+  'cosmetic.familiar.firefly': 'ホタル',
+  'cosmetic.hat.crown': 'ネズミの王冠',
+  'cosmetic.hat.pointed': '魔法使いの帽子',
+  'cosmetic.familiar.ghost': 'ちびオバケ',
+  'cosmetic.robe.ember': '残り火のローブ',
+  'cosmetic.hat.halo': '星の光輪',
+
+  'difficulty.story': 'ストーリー',
+  'difficulty.normal': 'ノーマル',
+  'difficulty.hard': 'ハード',
+  'difficulty.nightmare': 'ナイトメア',
+
+  'modifier.curvedOnly': 'カーブのみ',
+  'modifier.doubleSpeed': '2倍速',
+  'modifier.noSkills': 'スキルなし',
+  'modifier.swarm': '大群',
+  'modifier.glassCat': 'ガラスの猫'
+};
@@ -0,0 +1,263 @@
+import { Catalog } from '../utils/i18n';
+
+export const pt: Catalog = {
+  'app.title': 'CatSalom - O Feiticeiro',
+
+  // -- Shared --
+  'common.level': 'Fase',
+  'common.boss': 'BOSS',
+  'common.endless': 'Infinito',
+  'common.daily': 'Desafio Diário',
+  'common.playtest': 'Teste',
+
+  // -- Menu --
+  'menu.language': 'Idioma',
+  'menu.catNamePlaceholder': 'Nome do Gato',
+  'menu.continueGame': 'Continuar',
+  'menu.newGame': 'Novo jogo',
+  'menu.newGameWarning': 'Começar de novo? A campanha, a essência e as melhorias de {name} serão perdidas.',
+  'menu.daily': 'Diário',
+  'menu.compareCodes': 'Comparar códigos',
+  'menu.pasteCode': 'Cole um código do Desafio Diário',
+  'menu.invalidCode': 'Código inválido',
+  'menu.today': 'Hoje',
+  'menu.assists': 'Assistências',
+  'menu.invalidReplay': 'Arquivo de replay inválido',
+  'menu.tutorial': 'Tutorial',
+  'menu.calibrate': 'Calibrar',
+  'menu.training': 'Treino',
+  'menu.replay': 'Replay',
+  'menu.editor': 'Editor',
+  'menu.feedback': 'Feedback',
+  'menu.updateAvailable': 'Nova versão disponível',
+  'menu.update': 'Atualizar',
+  'menu.wardrobe': 'Guarda-roupa',
+
+  'audio.master': 'Geral',
+  'audio.music': 'Música',
+  'audio.sfx': 'Efeitos',
+  'audio.mute': 'Mudo',
+
+  'assist.slowEnemies': 'Inimigos mais lentos',
+  'assist.extraHearts': 'Mais corações',
+  'assist.relaxedGestures': 'Gestos tolerantes',
+  'assist.autoPause': 'Pausar ao sair da aba',
+
+  'graphics.title': 'Gráficos',
+  'graphics.auto': 'Auto',
+  'graphics.low': 'Baixa',
+  'graphics.medium': 'Média',
+  'graphics.high': 'Alta',
+  'graphics.showFps': 'Mostrar FPS',
+
+  'wardrobe.hat': 'Chapéu',
+  'wardrobe.robe': 'Manto',
+  'wardrobe.familiar': 'Familiar',
+  'wardrobe.none': 'Nenhum',
+  'wardrobe.locked': 'Derrote o chefe de {biome}',
+
+  // -- Tutorial --
+  'tutorial.grimoire': 'Grimório',
+  'tutorial.magicGestures': 'Gestos Mágicos',
+  'tutorial.gesturesDesc': 'Desenhe os símbolos que aparecem acima dos inimigos para exorcizá-los.',
+  'tutorial.centerTip': 'Dica: Realize os gestos preferencialmente no centro da tela.',
+  'tutorial.comboTip': 'Inimigos com vários símbolos precisam ser desenhados em ordem, da esquerda para a direita.',
+  'tutorial.biomesBoss': 'Biomas & Chefes',
+  'tutorial.biomesDesc': 'Sobreviva a 10 fases para enfrentar o Boss do bioma.',
+  'tutorial.biomesTip': 'Dica: Destrua os sigilos vermelhos que protegem o Boss.',
+  'tutorial.skills': 'Habilidades',
+  'tutorial.skillsDesc': 'Desbloqueie suportes ao avançar fases (Total de Níveis).',
+  'tutorial.unlockLevel': 'Nível {level}',
+  'tutorial.skillsUpgradeTip': 'Dica: Gaste Essência entre as fases para melhorar suas habilidades.',
+  'tutorial.understood': 'Entendi',
+
+  'controls.title': 'Controles',
+  'controls.description': 'Teclas e botões do controle para habilidades e pausa, e para os símbolos quando lançar por botões está ativado. Clique para trocar.',
+  'controls.press': '...',
+  'controls.reset': 'Restaurar',
+  'controls.castWithButtons': 'Lançar símbolos com teclas e botões',
+  'controls.castWithButtonsHint': 'Só na campanha: o Desafio diário e o modo Infinito sempre pedem símbolos desenhados.',
+
+  // -- Game --
+  'game.stage': 'Estágio',
+  'game.paused': 'PAUSADO',
+  'game.combo': 'Combo',
+  'game.bossDefeated': 'Boss Derrotado',
+  'game.levelComplete': 'Fase Completa',
+  'game.levelScore': 'Pontos da Fase',
+  'game.bestStreak': 'Maior Sequência',
+  'game.essenceEarned': 'Essência',
+  'game.upgrades': 'Melhorias',
+  'game.maxed': 'Máx',
+  'game.nextLevel': 'Próxima Fase',
+  'game.cosmeticUnlocked': 'Desbloqueado: {name}',
+
+  'score.base': 'Inimigos',
+  'score.multiKill': 'Multi-abate',
+  'score.nearMiss': 'Por um Triz',
+  'score.accuracy': 'Precisão',
+  'score.boss': 'Bônus do Boss',
+  'score.streak': 'Multiplicador',
+
+  // -- Game Over --
+  'gameOver.finalScore': 'Pontuação Final',
+  'gameOver.journeyEnd': 'A jornada de {name} terminou.',
+  'gameOver.levelsCleared': 'Fases',
+  'gameOver.biomeReached': 'Bioma',
+  'gameOver.playTime': 'Tempo',
+  'gameOver.damageTaken': 'Dano',
+  'gameOver.failedGestures': 'Erros',
+  'gameOver.unrecognizedGestures': 'Não reconhecidos',
+  'gameOver.kills': 'Abates',
+  'gameOver.skillsUsed': 'Habilidades',
+  'gameOver.highScores': 'Recordes',
+  'gameOver.leaderboard': 'Recordes do Infinito',
+  'gameOver.newRecord': 'Novo recorde!',
+  'gameOver.thisRun': 'Esta partida',
+  'gameOver.dailyCode': 'Código do Desafio Diário',
+  'gameOver.dailyShare': 'Compartilhe para comparar (cole no menu).',
+  'gameOver.copy': 'Copiar',
+  'gameOver.menu': 'Menu',
+  'gameOver.restart': 'Reiniciar',
+  'gameOver.watchReplay': 'Ver Replay',
+  'gameOver.exportReplay': 'Exportar',
+
+  // -- Replay --
+  'replay.title': 'Replay',
+  'replay.finished': 'Fim do Replay',
+  'replay.close': 'Fechar',
+
+  // -- Calibration --
+  'calibration.title': 'Calibração',
+  'calibration.subtitle': 'Ensine seus traços para {name}',
+  'calibration.samples': { one: '{count} amostra', other: '{count} amostras' },
+  'calibration.total': '{count} no total',
+  'calibration.drawHere': 'Desenhe o símbolo aqui',
+  'calibration.template': 'Modelo',
+  'calibration.heuristic': 'Heurística',
+  'calibration.none': 'nenhum',
+  'calibration.clear': 'Limpar',
+  'calibration.save': 'Salvar amostra',
+
+  // -- Training --
+  'training.title': 'Treino',
+  'training.subtitle': 'Siga o traço fantasma. Acertos avançam para o próximo símbolo.',
+  'training.notRecognized': 'Não reconhecido',
+  'training.readAs': 'Lido como',
+  'training.attempts': { one: '{count} tentativa', other: '{count} tentativas' },
+  'training.weakest': 'Mais difícil',
+  'training.commonIssue': 'Erro mais comum',
+  'training.reset': 'Zerar',
+
+  'failure.tooShort': 'Traço curto demais: desenhe maior e mais devagar',
+  'failure.notClosed': 'Não fechou: termine perto de onde começou',
+  'failure.notOpen': 'Fechado demais: deixe um espaço entre o início e o fim',
+  'failure.noIntersection': 'As linhas precisam se cruzar',
+  'failure.selfIntersecting': 'O traço cruza a si mesmo',
+  'failure.tooSmall': 'Pequeno demais',
+  'failure.aspectRatio': 'Proporção: largo ou alto demais',
+  'failure.notStraight': 'Não está reto o bastante',
+  'failure.tooStraight': 'Reto demais: faça o zigue-zague',
+  'failure.wrongStart': 'Começou no lugar errado: siga o fantasma',
+  'failure.wrongEnd': 'Terminou no lugar errado',
+  'failure.noTopBar': 'Comece com uma barra horizontal',
+  'failure.noDownStroke': 'Falta o traço para baixo',
+  'failure.notCurved': 'Curva rasa demais',
+  'failure.noZigzag': 'Zigue-zague insuficiente',
+  'failure.wrongDirection': 'Direção errada: desenhe de cima para baixo',
+
+  // -- Level Editor --
+  'editor.title': 'Editor de Fases',
+  'editor.fileName': 'Nome do arquivo',
+  'editor.useInCampaign': 'Usar na campanha',
+  'editor.import': 'Importar',
+  'editor.export': 'Exportar',
+  'editor.invalidFile': 'Arquivo de ondas inválido',
+  'editor.levels': 'Fases',
+  'editor.addLevel': 'Nova fase',
+  'editor.noLevels': 'Nenhuma fase. Crie uma para começar.',
+  'editor.biome': 'Bioma',
+  'editor.targetScore': 'Pontos',
+  'editor.duration': 'Duração (s)',
+  'editor.goalHint': 'Sem meta: a fase termina quando todos os inimigos forem derrotados.',
+  'editor.boss': 'Boss',
+  'editor.phase': 'Fase',
+  'editor.sigils': 'Sigilos',
+  'editor.interval': 'Ataque (s)',
+  'editor.timeline': 'Linha do tempo',
+  'editor.timelineHint': 'Clique numa faixa para criar um inimigo, arraste para mudar o tempo.',
+  'editor.spawn': 'Inimigo',
+  'editor.time': 'Tempo (s)',
+  'editor.side': 'Lado',
+  'editor.position': 'Posição',
+  'editor.monster': 'Monstro',
+  'editor.symbols': 'Símbolos',
+  'editor.speed': 'Velocidade',
+  'editor.random': 'Aleatório',
+  'editor.playtest': 'Testar',
+  'editor.outcome.complete': 'Fase completa',
+  'editor.outcome.over': 'Fim de jogo',
+  'editor.outcome.playing': 'Teste interrompido',
+
+  'side.top': 'Cima',
+  'side.right': 'Direita',
+  'side.bottom': 'Baixo',
+  'side.left': 'Esquerda',
+  'side.random': 'Aleatório',
+
+  // -- Game data --
+  'biome.GARDEN': 'Jardim Abandonado',
+  'biome.CITY': 'Cidade Noturna',
+  'biome.SEWER': 'Esgoto',
+  'biome.HOUSE': 'Casa Assombrada',
+  'biome.CEMETERY': 'Cemitério',
+  'biome.FACTORY': 'Fábrica',
+  'biome.ASTRAL': 'Plano Astral',
+
+  'boss.GARDEN': 'Rainha dos Espinhos',
+  'boss.CITY': 'Farol Sombrio',
+  'boss.SEWER': 'Rei dos Ratos',
+  'boss.HOUSE': 'Senhora do Sótão',
+  'boss.CEMETERY': 'Ceifador Silencioso',
+  'boss.FACTORY': 'Forja Viva',
+  'boss.ASTRAL': 'O Olho do Vazio',
+
+  'skill.shield': 'Escudo',
+  'skill.heal': 'Cura',
+  'skill.hourglass': 'Tempo',
+  'skill.magnet': 'Ímã',
+  'skill.bomb': 'Bomba',
+  'skill.chainLightning': 'Corrente',
+
+  'upgrade.shieldDuration': 'Escudo Duradouro',
+  'upgrade.shieldDuration.description': '+1s de escudo',
+  'upgrade.cooldownReduction': 'Concentração',
+  'upgrade.cooldownReduction.description': '-10% de recarga',
+  'upgrade.bombSigils': 'Bomba Sagrada',
+  'upgrade.bombSigils.description': 'Destrói 1 sigilo do Boss',
+  'upgrade.healAmount': 'Ronronar',
+  'upgrade.healAmount.description': '+1 vida curada',
+  'upgrade.chainJumps': 'Corrente Longa',
+  'upgrade.chainJumps.description': '+1 salto',
+  'upgrade.magnetRadius': 'Ímã Forte',
+  'upgrade.magnetRadius.description': '+40% de alcance',
+
+  'cosmetic.robe.moss': 'Manto de Musgo',
+  'cosmetic.familiar.firefly': 'Vaga-lume',
+  'cosmetic.hat.crown': 'Coroa do Rato',
+  'cosmetic.hat.pointed': 'Chapéu de Mago',
+  'cosmetic.familiar.ghost': 'Fantasminha',
+  'cosmetic.robe.ember': 'Manto de Brasa',
+  'cosmetic.hat.halo': 'Auréola Astral',
+
+  'difficulty.story': 'História',
+  'difficulty.normal': 'Normal',
+  'difficulty.hard': 'Difícil',
+  'difficulty.nightmare': 'Pesadelo',
+
+  'modifier.curvedOnly': 'Só curvas',
+  'modifier.doubleSpeed': 'Velocidade dupla',
+  'modifier.noSkills': 'Sem habilidades',
+  'modifier.swarm': 'Enxame',
+  'modifier.glassCat': 'Gato de vidro'
+};
@@ -0,0 +1,100 @@
+// Headless stress run: a long, crowded boss fight stepped as fast as possible,
+// with particles spawned and updated like the live game does (minus drawing).
+// Reports step times, GC pauses and pool usage, to catch allocation regressions.
+//
+//   npm run benchmark -- --seconds 300 --spawn-rate 4 --seed 7
+
+import { PerformanceObserver, performance } from 'node:perf_hooks';
+import { SpellType } from '../types';
+import { FIXED_STEP_MS, GameSimulation, SimulationConfig, createGameSimulation } from '../utils/gameSimulation';
+import { createRng } from '../utils/random';
+import { createParticleSystem, spawnEventParticles, updateParticles } from '../utils/sceneRenderer';
+
+const readArg = (name: string, fallback: number): number => {
+  const index = process.argv.indexOf(`--${name}`);
+  const value = index >= 0 ? Number(process.argv[index + 1]) : NaN;
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const SIM_SECONDS = readArg('seconds', 600);
+const SPAWN_RATE = readArg('spawn-rate', 4);
+const SEED = readArg('seed', 1);
+// The "player" casts this often, at the monsters only, so the boss fight drags on
+const CAST_INTERVAL_TICKS = 20;
+
+const config: SimulationConfig = {
+  seed: SEED,
+  width: 1280,
+  height: 720,
+  biomeIndex: 6, // Astral: the busiest boss
+  level: 11,
+  totalLevelsCleared: 70, // Every skill unlocked
+  maxHealth: 1_000_000, // Never dies; a fight only ends if chain lightning or a stray cast finishes the sigils
+  spawnRate: SPAWN_RATE
+};
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+const formatMs = (ms: number) => `${ms.toFixed(3)} ms`;
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const run = async () => {
+  const gcPauses: number[] = [];
+  const observer = new PerformanceObserver(list => list.getEntries().forEach(entry => gcPauses.push(entry.duration)));
+  observer.observe({ entryTypes: ['gc'] });
+
+  const rng = createRng(SEED);
+  const particles = createParticleSystem(SEED);
+  const totalTicks = Math.round((SIM_SECONDS * 1000) / FIXED_STEP_MS);
+  const stepTimes = new Float64Array(totalTicks);
+  let sim: GameSimulation = createGameSimulation(config);
+  let fights = 1;
+  let peakEnemies = 0;
+  let peakParticles = 0;
+
+  const heapBefore = process.memoryUsage().heapUsed;
+  const start = performance.now();
+
+  for (let tick = 0; tick < totalTicks; tick++) {
+    const stepStart = performance.now();
+
+    if (sim.state.status !== 'playing') {
+      sim = createGameSimulation({ ...config, seed: config.seed + fights++ });
+    }
+    if (tick % CAST_INTERVAL_TICKS === 0) {
+      const { enemies } = sim.state;
+      const sigilSymbols = enemies.filter(e => e.isBossSigil).map(e => e.symbol);
+      const targets = enemies.filter(e => !sigilSymbols.includes(e.symbol));
+      const spell: SpellType | null = targets.length > 0 ? targets[Math.floor(rng() * targets.length)].symbol : null;
+      sim.castSpell(spell, 0.9);
+    }
+    if (tick % 600 === 0) sim.activateSkill('chainLightning');
+
+    sim.step(FIXED_STEP_MS);
+    sim.drainEvents().forEach(event => spawnEventParticles(particles, sim.state, event));
+    updateParticles(particles, FIXED_STEP_MS, sim.state.timeScale);
+
+    stepTimes[tick] = performance.now() - stepStart;
+    peakEnemies = Math.max(peakEnemies, sim.state.enemies.length);
+    peakParticles = Math.max(peakParticles, particles.particles.length);
+  }
+
+  const elapsed = performance.now() - start;
+  const heapAfter = process.memoryUsage().heapUsed;
+  // GC entries arrive asynchronously
+  await new Promise(resolve => setTimeout(resolve, 0));
+  observer.disconnect();
+
+  const sorted = Array.from(stepTimes).sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length;
+  const pool = particles.pool.stats();
+  const gcTotal = gcPauses.reduce((sum, ms) => sum + ms, 0);
+
+  console.log(`Simulated ${SIM_SECONDS}s (${totalTicks} steps, ${fights} boss fights) in ${formatMs(elapsed)}`);
+  console.log(`Step time   mean ${formatMs(mean)}  p99 ${formatMs(percentile(sorted, 0.99))}  max ${formatMs(sorted[sorted.length - 1])}`);
+  console.log(`GC          ${gcPauses.length} pauses, ${formatMs(gcTotal)} total, ${formatMs(Math.max(0, ...gcPauses))} longest`);
+  console.log(`Heap        ${formatMb(heapBefore)} -> ${formatMb(heapAfter)}`);
+  console.log(`Peak        ${peakEnemies} enemies, ${peakParticles} particles`);
+  console.log(`Particles   pool ${pool.allocated} allocated / ${pool.capacity} capacity, ${pool.free} free`);
+};
+
+run();
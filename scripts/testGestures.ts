@@ -0,0 +1,125 @@
+// Headless check of the gesture recognizers on strokes drawn with hand tremor,
+// captured through the same pointer tracker the game uses: the heuristics on
+// the simple shapes, and the default templates on every symbol and on near
+// misses that must stay below MIN_TEMPLATE_CONFIDENCE. Exits non-zero when a
+// rate drops below the bar.
+//
+//   npm run test:gestures
+
+import { Point, SpellType } from '../types';
+import { MIN_TEMPLATE_CONFIDENCE, recognizeGesture } from '../utils/gesture';
+import { createStrokeTracker } from '../utils/pointerStrokes';
+import { createRng } from '../utils/random';
+import { DEFAULT_TEMPLATES, getCanonicalStroke, getTemplatesForPlayer, matchTemplates } from '../utils/templateRecognizer';
+
+const STROKES_PER_SHAPE = 200;
+const MIN_RECOGNIZED = 0.9;
+// px of jitter on every raw sample, either way on both axes (a steady hand is ~0.5)
+const TREMOR = 1.5;
+// Raw samples per px of path, about what coalesced pointer events deliver
+const SAMPLES_PER_PX = 1;
+
+// Corners of each heuristic test shape, in px
+const SHAPES: [SpellType, Point[]][] = [
+  [SpellType.HORIZONTAL, [{ x: 100, y: 300 }, { x: 400, y: 300 }]],
+  [SpellType.VERTICAL, [{ x: 300, y: 100 }, { x: 300, y: 400 }]],
+  [SpellType.SEVEN_SHAPE, [{ x: 100, y: 100 }, { x: 300, y: 100 }, { x: 180, y: 350 }]]
+];
+
+// Walks the polyline with a jittered sample every 1 / SAMPLES_PER_PX px, fed
+// through the tracker like pointer moves 8 ms apart
+const drawStroke = (corners: Point[], rng: () => number): Point[] => {
+  const tracker = createStrokeTracker();
+  const jitter = () => (rng() * 2 - 1) * TREMOR;
+  const sample = (p: Point, time: number) =>
+    ({ pointerId: 1, pointerType: 'touch', clientX: p.x + jitter(), clientY: p.y + jitter(), pressure: 0.5, timeStamp: time });
+
+  let time = 0;
+  tracker.begin(sample(corners[0], time));
+  for (let c = 1; c < corners.length; c++) {
+    const from = corners[c - 1];
+    const to = corners[c];
+    const steps = Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) * SAMPLES_PER_PX);
+    for (let s = 1; s <= steps; s++) {
+      time += 8;
+      tracker.move(sample({ x: from.x + (to.x - from.x) * s / steps, y: from.y + (to.y - from.y) * s / steps }, time));
+    }
+  }
+  return tracker.end(sample(corners[corners.length - 1], time + 8)) ?? [];
+};
+
+// A unit-box stroke (templates, near misses) at drawing size
+const toScreen = (points: Point[]): Point[] => points.map(p => ({ x: 100 + p.x * 250, y: 100 + p.y * 250 }));
+
+// Unit circle points from `from` to `to` radians, y down like the screen
+const arc = (from: number, to: number): Point[] =>
+  Array.from({ length: 49 }, (_, s) => {
+    const angle = from + (to - from) * (s / 48);
+    return { x: 0.5 + Math.cos(angle) * 0.5, y: 0.5 - Math.sin(angle) * 0.5 };
+  });
+
+// Shapes close to a symbol that no template should accept
+const NEAR_MISSES: [string, Point[]][] = [
+  ['circle', arc(0, Math.PI * 2)],
+  ['mirrored C', arc(Math.PI * 3 / 4, -Math.PI * 3 / 4)]
+];
+
+const rng = createRng(1);
+let failed = false;
+
+const report = (label: string, passed: number, expected: string) => {
+  const ok = passed >= STROKES_PER_SHAPE * MIN_RECOGNIZED;
+  if (!ok) failed = true;
+  console.log(`${ok ? 'ok  ' : 'FAIL'} ${label.padEnd(22)} ${passed}/${STROKES_PER_SHAPE} ${expected}`);
+};
+
+const isTemplateMatch = (points: Point[], type: SpellType) => {
+  const match = matchTemplates(points, DEFAULT_TEMPLATES);
+  return match !== null && match.type === type && match.score >= MIN_TEMPLATE_CONFIDENCE;
+};
+
+const isTemplateRejected = (points: Point[]) => {
+  const match = matchTemplates(points, DEFAULT_TEMPLATES);
+  return match === null || match.score < MIN_TEMPLATE_CONFIDENCE;
+};
+
+const countPassing = (stroke: () => Point[], test: (points: Point[]) => boolean) => {
+  let passed = 0;
+  for (let i = 0; i < STROKES_PER_SHAPE; i++) {
+    if (test(stroke())) passed++;
+  }
+  return passed;
+};
+
+SHAPES.forEach(([type, corners]) => {
+  report(`heuristic ${type}`, countPassing(() => drawStroke(corners, rng), points => recognizeGesture(points) === type), 'recognized');
+});
+
+Object.values(SpellType).forEach(type => {
+  const corners = toScreen(getCanonicalStroke(type));
+  report(`template ${type}`, countPassing(() => drawStroke(corners, rng), points => isTemplateMatch(points, type)), 'matched');
+});
+
+NEAR_MISSES.forEach(([name, shape]) => {
+  const corners = toScreen(shape);
+  report(`template ${name}`, countPassing(() => drawStroke(corners, rng), isTemplateRejected), 'rejected');
+});
+
+// Calibration samples come from localStorage; a corrupted store must not throw
+// (GameCanvas reads it on its first render)
+{
+  const stored = JSON.stringify({ tom: null, kit: 'x', max: [{ type: 'CIRCLE', points: [] }, { type: SpellType.C_SHAPE, points: [{ x: 'a' }] }] });
+  Object.assign(globalThis, { localStorage: { getItem: () => stored, setItem: () => {} } });
+  const loaded = ['Tom', 'Kit', 'Max', 'Nobody'].map(name => {
+    try {
+      return getTemplatesForPlayer(name).length;
+    } catch {
+      return -1; // Threw
+    }
+  });
+  const ok = loaded.every(count => count === DEFAULT_TEMPLATES.length);
+  if (!ok) failed = true;
+  console.log(`${ok ? 'ok  ' : 'FAIL'} corrupted calibration store falls back to the defaults`);
+}
+
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,146 @@
+// Headless checks of the game simulation: same-seed determinism, casting,
+// skills and event emission, plus a replay round trip. Exits non-zero when
+// any check fails.
+//
+//   npm run test:simulation
+
+import { SpellType } from '../types';
+import { FIXED_STEP_MS, GameSimulation, SimulationConfig, SimulationEvent, createGameSimulation } from '../utils/gameSimulation';
+import { createReplayRecorder, decodeReplay, encodeReplay, simulateReplayLevel } from '../utils/replay';
+import { SKILL_ORDER } from '../utils/skills';
+
+const BASE_CONFIG: SimulationConfig = {
+  seed: 42,
+  width: 1280,
+  height: 720,
+  biomeIndex: 1,
+  level: 5,
+  totalLevelsCleared: 70, // Every skill unlocked
+  maxHealth: 3
+};
+
+let failures = 0;
+const check = (name: string, passed: boolean, detail = '') => {
+  if (!passed) failures++;
+  console.log(`${passed ? 'ok  ' : 'FAIL'} ${name}${passed || !detail ? '' : ` (${detail})`}`);
+};
+
+// Steps until `until` holds or the level ends, collecting every event
+const run = (sim: GameSimulation, maxTicks: number, until: () => boolean = () => false): SimulationEvent[] => {
+  const events: SimulationEvent[] = [];
+  while (sim.state.status === 'playing' && sim.state.tick < maxTicks && !until()) {
+    sim.step(FIXED_STEP_MS);
+    events.push(...sim.drainEvents());
+  }
+  return events;
+};
+
+// A scripted player: every half second, casts whatever the first enemy needs
+const playScripted = (config: SimulationConfig, ticks: number) => {
+  const sim = createGameSimulation(config);
+  const recorder = createReplayRecorder('Test');
+  recorder.beginLevel(config);
+  const events: SimulationEvent['type'][] = [];
+  while (sim.state.status === 'playing' && sim.state.tick < ticks) {
+    if (sim.state.tick % 30 === 0 && sim.state.enemies.length > 0) {
+      const spell = sim.state.enemies[0].symbol;
+      recorder.recordStroke(sim.state.tick, [], spell, 1);
+      sim.castSpell(spell, 1);
+    }
+    sim.step(FIXED_STEP_MS);
+    events.push(...sim.drainEvents().map(e => e.type));
+  }
+  recorder.endLevel(sim.state.tick, sim.state.status);
+  return { sim, events, replay: recorder.toReplay() };
+};
+
+const snapshot = ({ state }: GameSimulation) => JSON.stringify({
+  tick: state.tick,
+  status: state.status,
+  score: state.score,
+  health: state.health,
+  enemies: state.enemies.map(e => [e.symbol, Math.round(e.x * 1000), Math.round(e.y * 1000)])
+});
+
+// -- Determinism --
+{
+  const a = playScripted(BASE_CONFIG, 3600);
+  const b = playScripted(BASE_CONFIG, 3600);
+  const c = playScripted({ ...BASE_CONFIG, seed: 43 }, 3600);
+  check('same seed, same inputs: same run', snapshot(a.sim) === snapshot(b.sim) && a.events.join() === b.events.join());
+  check('different seed: different run', snapshot(a.sim) !== snapshot(c.sim));
+
+  const level = decodeReplay(encodeReplay(a.replay))?.levels[0];
+  const replayed = level ? simulateReplayLevel(level) : null;
+  check('replay reproduces the run', replayed !== null && snapshot(replayed) === snapshot(a.sim));
+}
+
+// -- Replay import --
+{
+  const { replay } = playScripted({ ...BASE_CONFIG, mode: 'daily', timeLimit: 5000, spellPool: [SpellType.C_SHAPE], skillsLocked: true }, 600);
+  const text = encodeReplay(replay);
+  check('a daily replay imports', decodeReplay(text)?.levels.length === 1);
+
+  // Each would crash or corrupt the simulation if it got through
+  const tamper = (edit: (level: { config: Record<string, unknown>; inputs: unknown[] }) => void) => {
+    const data = JSON.parse(text);
+    edit(data.levels[0]);
+    return decodeReplay(JSON.stringify(data));
+  };
+  const rejected = [
+    tamper(l => { l.config.wave = {}; }),
+    tamper(l => { l.config.wave = { biome: 'NOWHERE', level: 3, spawns: [], boss: {} }; }),
+    tamper(l => { l.config.spellPool = []; }),
+    tamper(l => { l.config.timeLimit = -1; }),
+    tamper(l => { l.config.mode = 'speedrun'; }),
+    tamper(l => { l.config.biomeIndex = 99; }),
+    tamper(l => { l.inputs.push({ tick: 1, kind: 'stroke', spell: 'CIRCLE', points: [] }); }),
+    tamper(l => { l.inputs.push({ tick: 1, kind: 'stroke', spell: null, points: [1, 'x', 3] }); })
+  ].filter(decoded => decoded === null);
+  check('tampered replays are rejected', rejected.length === 8, `${8 - rejected.length} accepted`);
+}
+
+// -- Casting --
+{
+  const sim = createGameSimulation(BASE_CONFIG);
+  run(sim, 600, () => sim.state.enemies.length > 0);
+  const target = sim.state.enemies[0];
+  check('enemies spawn', target !== undefined);
+  if (target) {
+    const symbol = target.symbol;
+    const hits = sim.castSpell(symbol, 1);
+    const events = sim.drainEvents();
+    check('a matching cast hits', hits >= 1, `${hits} hits`);
+    check('a hit emits enemyKilled or enemyHit', events.some(e => e.type === 'enemyKilled' || e.type === 'enemyHit'));
+    const missing = Object.values(SpellType).find(spell => !sim.state.enemies.some(e => e.symbol === spell));
+    if (missing) check('a cast nothing needs misses', sim.castSpell(missing, 1) === 0);
+    check('a rejected stroke misses', sim.castSpell(null) === 0);
+  }
+}
+
+// -- Skills --
+{
+  const sim = createGameSimulation(BASE_CONFIG);
+  check('an unlocked skill activates', sim.activateSkill('shield'));
+  check('activation emits skillActivated', sim.drainEvents().some(e => e.type === 'skillActivated' && e.skill === 'shield'));
+  check('a skill on cooldown refuses', !sim.activateSkill('shield'));
+
+  const locked = createGameSimulation({ ...BASE_CONFIG, skillsLocked: true });
+  const refused = SKILL_ORDER.filter(id => !locked.activateSkill(id));
+  check('skillsLocked refuses every skill', refused.length === SKILL_ORDER.length, `${SKILL_ORDER.length - refused.length} activated`);
+
+  const fresh = createGameSimulation({ ...BASE_CONFIG, totalLevelsCleared: 0 });
+  check('a skill not yet earned refuses', !fresh.activateSkill('bomb'));
+}
+
+// -- Level end --
+{
+  const sim = createGameSimulation({ ...BASE_CONFIG, maxHealth: 1 });
+  const events = run(sim, 60 * 60 * 5);
+  check('an idle cat loses', sim.state.status === 'over' && events.some(e => e.type === 'gameOver'), sim.state.status);
+  const tick = sim.state.tick;
+  sim.step(FIXED_STEP_MS);
+  check('a finished level no longer steps', sim.state.tick === tick);
+}
+
+process.exit(failures > 0 ? 1 : 0);
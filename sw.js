@@ -0,0 +1,30 @@
+// Service worker template: vite.config.ts fills in the cache name and the
+// list of built files when it emits dist/sw.js.
+const CACHE_NAME = __CACHE_NAME__;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+// Not skipping the waiting phase: the menu asks before a new version takes over
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('catsalom-') && key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// Cache first; anything not precached goes to the network
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+  // Single-page app: every navigation is index.html (resolved against sw.js, like the precache list)
+  const lookup = request.mode === 'navigate' ? './index.html' : request;
+  event.respondWith(caches.match(lookup, { cacheName: CACHE_NAME }).then(cached => cached || fetch(request)));
+});
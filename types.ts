@@ -2,10 +2,14 @@ export enum GameState {
   MENU = 'MENU',
   PLAYING = 'PLAYING',
   LEVEL_COMPLETE = 'LEVEL_COMPLETE',
-  GAME_OVER = 'GAME_OVER'
+  GAME_OVER = 'GAME_OVER',
+  REPLAY = 'REPLAY',
+  EDITOR = 'EDITOR'
 }
 
-export type Language = 'pt' | 'en';
+export type Language = 'pt' | 'en' | 'es' | 'fr' | 'ja';
+
+export type GameMode = 'campaign' | 'endless' | 'daily';
 
 export enum SpellType {
   HORIZONTAL = 'HORIZONTAL', // —
@@ -28,7 +32,7 @@ export type BiomeType =
   | 'ASTRAL';
 
 export interface Enemy {
-  id: string;
+  id: number;
   x: number;
   y: number;
   speed: number;
@@ -38,10 +42,36 @@ export interface Enemy {
   spawnTime: number;
   isBossSigil?: boolean; // If true, it's a weak point on the boss
   isProjectile?: boolean; // If true, it's an attack from the boss
+  vx?: number; // Projectiles fly straight along a fixed heading instead of homing
+  vy?: number;
+  monster?: string; // Id in the MONSTERS registry (utils/monsters.ts)
+  queue?: SpellType[]; // Symbols still to draw after `symbol`, in order
+  symbolCount?: number; // Length of the full chain at spawn
+  lastHitTime?: number; // Sim time the chain last advanced (for the hit flash)
+  wobble?: number; // Zig-zag phase offset (radians)
+  spin?: number; // Orbit direction: 1 = clockwise, -1 = counter-clockwise
+  nextTeleportTime?: number;
+}
+
+export type BossAttack =
+  | { type: 'volley'; count: number; speed: number; symbols: SpellType[] } // Sigils fire aimed projectiles
+  | { type: 'regenerate'; count: number } // Restores destroyed sigils of the current phase
+  | { type: 'shield'; length: number }; // Sigils are immune until the sequence is cast in order
+
+export interface BossPhase {
+  sigils: number;
+  attackInterval: number; // ms between attacks
+  attacks: BossAttack[]; // Used in order, looping
+}
+
+// Names live in the message catalog under boss.<biome>
+export interface BossDefinition {
+  color: string;
+  phases: BossPhase[];
 }
 
 export interface Particle {
-  id: string;
+  id: number;
   x: number;
   y: number;
   vx: number;
@@ -57,10 +87,60 @@ export interface Point {
   y: number;
 }
 
+export interface TimedPoint extends Point {
+  t: number; // ms since the stroke started
+  pressure?: number; // 0..1, pens only
+}
+
+export type SkillId = 'shield' | 'hourglass' | 'bomb' | 'heal' | 'chainLightning' | 'magnet';
+
+// Runtime state of one skill inside a level (definitions live in utils/skills.ts)
 export interface SkillState {
-  id: 'shield' | 'hourglass' | 'bomb';
+  id: SkillId;
   isUnlocked: boolean;
+  isActive: boolean; // For skills with a duration
+  activeUntil: number; // Sim ms
   isOnCooldown: boolean;
-  cooldownTime: number; // in ms
-  lastUsed: number;
-}
\ No newline at end of file
+  cooldownTime: number; // in ms, after upgrades
+  lastUsed: number | null; // Sim ms
+}
+
+export type SkillUpgradeId =
+  | 'shieldDuration'
+  | 'cooldownReduction'
+  | 'bombSigils'
+  | 'healAmount'
+  | 'chainJumps'
+  | 'magnetRadius';
+
+// Purchased level of each upgrade
+export type SkillUpgrades = Partial<Record<SkillUpgradeId, number>>;
+
+export interface Orb {
+  id: number;
+  x: number;
+  y: number;
+  value: number;
+  spawnTime: number;
+}
+
+export interface Progress {
+  biomeIndex: number;
+  level: number; // 1-10 regular, 11 boss
+  totalLevelsCleared: number;
+}
+
+// Cat cosmetics (utils/cosmetics), earned by clearing biomes
+export type CosmeticSlot = 'hat' | 'robe' | 'familiar';
+
+export type CosmeticId =
+  | 'robe.moss'
+  | 'familiar.firefly'
+  | 'hat.crown'
+  | 'hat.pointed'
+  | 'familiar.ghost'
+  | 'robe.ember'
+  | 'hat.halo';
+
+// What the cat wears; an empty slot is the plain look (no hat, night robe, alone)
+export type CatOutfit = Partial<Record<CosmeticSlot, CosmeticId>>;
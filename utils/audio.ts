@@ -0,0 +1,272 @@
+import { BiomeType, SpellType } from '../types';
+
+// Synthesized sound: every effect and ambient loop is built from oscillators
+// and noise at runtime, so there is nothing to download. The AudioContext is
+// created lazily on first use (browsers only let it start after a user gesture).
+
+const STORAGE_KEY = 'catsalom.audio.v1';
+
+export interface AudioSettings {
+  master: number; // 0..1
+  music: number;
+  sfx: number;
+  muted: boolean;
+}
+
+export type SoundEffect =
+  | 'unrecognized'
+  | 'miss'
+  | 'hit'
+  | 'kill'
+  | 'damage'
+  | 'shieldBlock'
+  | 'skill'
+  | 'heal'
+  | 'zap'
+  | 'collect'
+  | 'bossAttack'
+  | 'bossPhase'
+  | 'levelComplete'
+  | 'gameOver';
+
+const DEFAULT_SETTINGS: AudioSettings = { master: 0.8, music: 0.5, sfx: 0.8, muted: false };
+
+// -- Recipes --
+
+interface Tone {
+  wave: OscillatorType;
+  notes: number[]; // Hz, played one after another
+  noteMs: number;
+  gain: number;
+}
+
+// Each spell gets its own contour, roughly following the shape that is drawn
+const SPELL_TONES: Record<SpellType, Tone> = {
+  [SpellType.HORIZONTAL]: { wave: 'sine', notes: [660, 660], noteMs: 60, gain: 0.25 },
+  [SpellType.VERTICAL]: { wave: 'sine', notes: [880, 440], noteMs: 60, gain: 0.25 },
+  [SpellType.C_SHAPE]: { wave: 'triangle', notes: [523, 659, 523], noteMs: 55, gain: 0.3 },
+  [SpellType.SEVEN_SHAPE]: { wave: 'triangle', notes: [784, 784, 392], noteMs: 55, gain: 0.3 },
+  [SpellType.EIGHT_SHAPE]: { wave: 'triangle', notes: [523, 659, 523, 659], noteMs: 45, gain: 0.3 },
+  [SpellType.S_SHAPE]: { wave: 'sine', notes: [698, 523, 698, 523], noteMs: 50, gain: 0.3 },
+  [SpellType.X_SHAPE]: { wave: 'square', notes: [440, 587], noteMs: 70, gain: 0.12 },
+  [SpellType.LIGHTNING]: { wave: 'sawtooth', notes: [1046, 784, 1046, 523], noteMs: 35, gain: 0.12 }
+};
+
+const EFFECT_TONES: Record<SoundEffect, Tone & { noise?: number }> = {
+  unrecognized: { wave: 'square', notes: [180, 150], noteMs: 70, gain: 0.08, noise: 0.05 },
+  miss: { wave: 'triangle', notes: [330, 262], noteMs: 80, gain: 0.18 },
+  hit: { wave: 'triangle', notes: [988], noteMs: 50, gain: 0.2 },
+  kill: { wave: 'sine', notes: [1175, 1568], noteMs: 45, gain: 0.2 },
+  damage: { wave: 'sawtooth', notes: [147, 110], noteMs: 120, gain: 0.2, noise: 0.2 },
+  shieldBlock: { wave: 'sine', notes: [1319, 1760, 1319], noteMs: 40, gain: 0.2 },
+  skill: { wave: 'triangle', notes: [392, 523, 784], noteMs: 60, gain: 0.25 },
+  heal: { wave: 'sine', notes: [523, 659, 784, 1046], noteMs: 70, gain: 0.25 },
+  zap: { wave: 'sawtooth', notes: [1568, 1175, 1568], noteMs: 25, gain: 0.1, noise: 0.08 },
+  collect: { wave: 'sine', notes: [1760], noteMs: 35, gain: 0.12 },
+  bossAttack: { wave: 'sawtooth', notes: [98, 82], noteMs: 150, gain: 0.15, noise: 0.1 },
+  bossPhase: { wave: 'square', notes: [196, 233, 277, 330], noteMs: 90, gain: 0.12 },
+  levelComplete: { wave: 'triangle', notes: [523, 659, 784, 1046], noteMs: 110, gain: 0.3 },
+  gameOver: { wave: 'triangle', notes: [392, 330, 262, 196], noteMs: 220, gain: 0.3 }
+};
+
+interface BiomeMusic {
+  root: number; // Hz of the drone
+  scale: number[]; // Semitones above the root for the melody
+  wave: OscillatorType;
+  noteMs: number;
+  filter: number; // Lowpass cutoff for the drone
+}
+
+const BIOME_MUSIC: Record<BiomeType, BiomeMusic> = {
+  GARDEN: { root: 220, scale: [0, 2, 4, 7, 9, 12], wave: 'sine', noteMs: 700, filter: 900 },
+  CITY: { root: 196, scale: [0, 3, 5, 7, 10, 12], wave: 'triangle', noteMs: 500, filter: 1200 },
+  SEWER: { root: 131, scale: [0, 1, 5, 7, 8, 12], wave: 'triangle', noteMs: 900, filter: 500 },
+  HOUSE: { root: 175, scale: [0, 3, 6, 9, 12], wave: 'sine', noteMs: 800, filter: 700 },
+  CEMETERY: { root: 147, scale: [0, 1, 3, 7, 8], wave: 'sine', noteMs: 1000, filter: 600 },
+  FACTORY: { root: 110, scale: [0, 5, 7, 10, 12], wave: 'square', noteMs: 350, filter: 1500 },
+  ASTRAL: { root: 262, scale: [0, 2, 6, 7, 11, 14], wave: 'sine', noteMs: 600, filter: 2000 }
+};
+
+// -- Settings --
+
+// Volumes go straight into GainNode automation, which throws on anything but a finite number
+const toVolume = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+export const loadAudioSettings = (): AudioSettings => {
+  let saved: unknown = null;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    saved = raw ? JSON.parse(raw) : null;
+  } catch {
+    // Unreadable: use the defaults
+  }
+  if (typeof saved !== 'object' || saved === null) return { ...DEFAULT_SETTINGS };
+  const { master, music, sfx, muted } = saved as Record<string, unknown>;
+  return {
+    master: toVolume(master, DEFAULT_SETTINGS.master),
+    music: toVolume(music, DEFAULT_SETTINGS.music),
+    sfx: toVolume(sfx, DEFAULT_SETTINGS.sfx),
+    muted: typeof muted === 'boolean' ? muted : DEFAULT_SETTINGS.muted
+  };
+};
+
+const saveAudioSettings = (settings: AudioSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage full or disabled: settings last for this session only
+  }
+};
+
+// -- Engine --
+
+export interface AudioEngine {
+  getSettings: () => AudioSettings;
+  updateSettings: (changes: Partial<AudioSettings>) => AudioSettings;
+  playSpell: (spell: SpellType) => void;
+  playEffect: (effect: SoundEffect) => void;
+  startMusic: (biome: BiomeType) => void;
+  stopMusic: () => void;
+}
+
+export const createAudioEngine = (): AudioEngine => {
+  let settings = loadAudioSettings();
+  let ctx: AudioContext | null = null;
+  let masterGain: GainNode, musicGain: GainNode, sfxGain: GainNode;
+  let music: { biome: BiomeType; nodes: AudioScheduledSourceNode[]; bus: GainNode; timer: number } | null = null;
+
+  const applySettings = () => {
+    if (!ctx) return;
+    const now = ctx.currentTime;
+    masterGain.gain.setTargetAtTime(settings.muted ? 0 : settings.master, now, 0.02);
+    musicGain.gain.setTargetAtTime(settings.music, now, 0.02);
+    sfxGain.gain.setTargetAtTime(settings.sfx, now, 0.02);
+  };
+
+  const getContext = (): AudioContext | null => {
+    if (!ctx) {
+      // Older Safari only has the prefixed constructor
+      const Ctor = window.AudioContext ?? (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+      if (!Ctor) return null;
+      ctx = new Ctor();
+      masterGain = ctx.createGain();
+      musicGain = ctx.createGain();
+      sfxGain = ctx.createGain();
+      musicGain.connect(masterGain);
+      sfxGain.connect(masterGain);
+      masterGain.connect(ctx.destination);
+      applySettings();
+    }
+    if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+    return ctx;
+  };
+
+  const playTone = (tone: Tone & { noise?: number }) => {
+    const ac = getContext();
+    if (!ac || settings.muted) return;
+    const start = ac.currentTime;
+    const duration = (tone.notes.length * tone.noteMs) / 1000;
+
+    const env = ac.createGain();
+    env.gain.setValueAtTime(0, start);
+    env.gain.linearRampToValueAtTime(tone.gain, start + 0.01);
+    env.gain.exponentialRampToValueAtTime(0.001, start + duration + 0.08);
+    env.connect(sfxGain);
+
+    const osc = ac.createOscillator();
+    osc.type = tone.wave;
+    tone.notes.forEach((freq, i) => osc.frequency.setValueAtTime(freq, start + (i * tone.noteMs) / 1000));
+    osc.connect(env);
+    osc.start(start);
+    osc.stop(start + duration + 0.1);
+
+    if (tone.noise) {
+      const buffer = ac.createBuffer(1, Math.ceil(ac.sampleRate * duration), ac.sampleRate);
+      const data = buffer.getChannelData(0);
+      for (let i = 0; i < data.length; i++) data[i] = (Math.random() * 2 - 1) * tone.noise;
+      const noise = ac.createBufferSource();
+      noise.buffer = buffer;
+      noise.connect(env);
+      noise.start(start);
+    }
+  };
+
+  const stopMusic = () => {
+    if (!music || !ctx) return;
+    const { nodes, bus, timer } = music;
+    window.clearInterval(timer);
+    bus.gain.setTargetAtTime(0, ctx.currentTime, 0.3);
+    nodes.forEach(node => node.stop(ctx!.currentTime + 1.5));
+    music = null;
+  };
+
+  const startMusic = (biome: BiomeType) => {
+    if (music?.biome === biome) return;
+    stopMusic();
+    const ac = getContext();
+    if (!ac) return;
+    const def = BIOME_MUSIC[biome];
+
+    const bus = ac.createGain();
+    bus.gain.setValueAtTime(0, ac.currentTime);
+    bus.gain.setTargetAtTime(1, ac.currentTime, 0.8);
+    bus.connect(musicGain);
+
+    // Drone: two slightly detuned oscillators an octave below the root
+    const filter = ac.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = def.filter;
+    const droneGain = ac.createGain();
+    droneGain.gain.value = 0.06;
+    filter.connect(droneGain);
+    droneGain.connect(bus);
+    const nodes = [1, 1.006].map(detune => {
+      const osc = ac.createOscillator();
+      osc.type = 'sawtooth';
+      osc.frequency.value = (def.root / 2) * detune;
+      osc.connect(filter);
+      osc.start();
+      return osc;
+    });
+
+    // Melody: a soft random walk over the biome's scale
+    let step = 0;
+    const timer = window.setInterval(() => {
+      if (!ctx || Math.random() < 0.3) return;
+      step = Math.max(0, Math.min(def.scale.length - 1, step + Math.floor(Math.random() * 3) - 1));
+      const freq = def.root * Math.pow(2, def.scale[step] / 12);
+      const now = ctx.currentTime;
+      const env = ctx.createGain();
+      env.gain.setValueAtTime(0, now);
+      env.gain.linearRampToValueAtTime(0.05, now + 0.05);
+      env.gain.exponentialRampToValueAtTime(0.001, now + def.noteMs / 1000 * 1.8);
+      env.connect(bus);
+      const osc = ctx.createOscillator();
+      osc.type = def.wave;
+      osc.frequency.value = freq;
+      osc.connect(env);
+      osc.start(now);
+      osc.stop(now + def.noteMs / 1000 * 2);
+    }, def.noteMs);
+
+    music = { biome, nodes, bus, timer };
+  };
+
+  return {
+    getSettings: () => ({ ...settings }),
+    updateSettings: (changes) => {
+      settings = { ...settings, ...changes };
+      saveAudioSettings(settings);
+      applySettings();
+      return { ...settings };
+    },
+    playSpell: (spell) => playTone(SPELL_TONES[spell]),
+    playEffect: (effect) => playTone(EFFECT_TONES[effect]),
+    startMusic,
+    stopMusic
+  };
+};
+
+// One engine for the whole app (there is only one audio output)
+export const audioEngine = createAudioEngine();
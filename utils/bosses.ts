@@ -0,0 +1,102 @@
+import { BiomeType, BossDefinition, SpellType } from '../types';
+
+// One boss per biome (level 11). HP is the total number of sigils across all
+// phases; clearing a phase's ring summons the next one.
+
+const { HORIZONTAL, VERTICAL, C_SHAPE, SEVEN_SHAPE, EIGHT_SHAPE, S_SHAPE, X_SHAPE, LIGHTNING } = SpellType;
+
+export const BOSS_CONFIG: Record<BiomeType, BossDefinition> = {
+  GARDEN: {
+    color: '#4ade80',
+    phases: [
+      { sigils: 4, attackInterval: 4000, attacks: [{ type: 'volley', count: 1, speed: 2.2, symbols: [HORIZONTAL, VERTICAL] }] },
+      { sigils: 3, attackInterval: 3500, attacks: [
+        { type: 'volley', count: 2, speed: 2.2, symbols: [HORIZONTAL, VERTICAL] },
+        { type: 'regenerate', count: 1 }
+      ] }
+    ]
+  },
+  CITY: {
+    color: '#60a5fa',
+    phases: [
+      { sigils: 5, attackInterval: 3500, attacks: [{ type: 'volley', count: 2, speed: 2.5, symbols: [HORIZONTAL, VERTICAL, C_SHAPE] }] },
+      { sigils: 4, attackInterval: 3200, attacks: [
+        { type: 'shield', length: 2 },
+        { type: 'volley', count: 2, speed: 2.5, symbols: [HORIZONTAL, VERTICAL, C_SHAPE] }
+      ] }
+    ]
+  },
+  SEWER: {
+    color: '#a3e635',
+    phases: [
+      { sigils: 5, attackInterval: 3200, attacks: [
+        { type: 'volley', count: 3, speed: 2.6, symbols: [HORIZONTAL, VERTICAL, SEVEN_SHAPE] },
+        { type: 'regenerate', count: 1 }
+      ] },
+      { sigils: 4, attackInterval: 3000, attacks: [
+        { type: 'shield', length: 2 },
+        { type: 'volley', count: 3, speed: 2.8, symbols: [C_SHAPE, SEVEN_SHAPE] }
+      ] }
+    ]
+  },
+  HOUSE: {
+    color: '#c084fc',
+    phases: [
+      { sigils: 5, attackInterval: 3000, attacks: [
+        { type: 'volley', count: 3, speed: 2.8, symbols: [C_SHAPE, SEVEN_SHAPE, EIGHT_SHAPE] },
+        { type: 'shield', length: 2 }
+      ] },
+      { sigils: 5, attackInterval: 2800, attacks: [
+        { type: 'regenerate', count: 2 },
+        { type: 'volley', count: 3, speed: 3, symbols: [HORIZONTAL, VERTICAL, EIGHT_SHAPE] }
+      ] }
+    ]
+  },
+  CEMETERY: {
+    color: '#e4e4e7',
+    phases: [
+      { sigils: 5, attackInterval: 2800, attacks: [
+        { type: 'volley', count: 4, speed: 3, symbols: [HORIZONTAL, VERTICAL, S_SHAPE] },
+        { type: 'regenerate', count: 1 }
+      ] },
+      { sigils: 4, attackInterval: 2600, attacks: [{ type: 'shield', length: 3 }, { type: 'volley', count: 3, speed: 3.2, symbols: [C_SHAPE, S_SHAPE] }] },
+      { sigils: 3, attackInterval: 2400, attacks: [{ type: 'volley', count: 3, speed: 3.4, symbols: [HORIZONTAL, VERTICAL] }] }
+    ]
+  },
+  FACTORY: {
+    color: '#f87171',
+    phases: [
+      { sigils: 6, attackInterval: 2600, attacks: [
+        { type: 'volley', count: 4, speed: 3.2, symbols: [HORIZONTAL, VERTICAL, X_SHAPE] },
+        { type: 'shield', length: 2 }
+      ] },
+      { sigils: 5, attackInterval: 2400, attacks: [
+        { type: 'regenerate', count: 2 },
+        { type: 'volley', count: 4, speed: 3.4, symbols: [SEVEN_SHAPE, X_SHAPE] }
+      ] },
+      { sigils: 3, attackInterval: 2200, attacks: [{ type: 'shield', length: 3 }, { type: 'volley', count: 3, speed: 3.6, symbols: [HORIZONTAL, VERTICAL] }] }
+    ]
+  },
+  ASTRAL: {
+    color: '#f472b6',
+    phases: [
+      { sigils: 6, attackInterval: 2400, attacks: [
+        { type: 'volley', count: 4, speed: 3.4, symbols: [C_SHAPE, S_SHAPE, LIGHTNING] },
+        { type: 'regenerate', count: 1 }
+      ] },
+      { sigils: 6, attackInterval: 2200, attacks: [
+        { type: 'shield', length: 3 },
+        { type: 'volley', count: 5, speed: 3.6, symbols: [HORIZONTAL, VERTICAL, EIGHT_SHAPE] }
+      ] },
+      { sigils: 4, attackInterval: 2000, attacks: [
+        { type: 'regenerate', count: 2 },
+        { type: 'shield', length: 4 },
+        { type: 'volley', count: 4, speed: 4, symbols: [X_SHAPE, LIGHTNING] }
+      ] }
+    ]
+  }
+};
+
+export const getBossMaxHp = (boss: BossDefinition): number => {
+  return boss.phases.reduce((total, phase) => total + phase.sigils, 0);
+};
@@ -0,0 +1,298 @@
+import { CatOutfit, SpellType } from '../types';
+import { COSMETICS } from './cosmetics';
+import { SimulationEvent } from './gameSimulation';
+import { getSymbolColor, getSymbolIcon } from './gesture';
+import { GlowMode } from './graphics';
+
+// The player's cat: drawn at the centre of the arena by the scene renderer and
+// on its own in portraits (components/CatPortrait). Poses react to casts and
+// simulation events and are timed on the caller's clock (simulation time in
+// game, so a paused game freezes the cat too).
+
+export type CatPose = 'idle' | 'casting' | 'hurt' | 'shielded' | 'victory';
+
+const CAST_MS = 450;
+const HURT_MS = 600;
+
+export interface CatAnimation {
+  cast: { spell: SpellType; at: number } | null;
+  hurtAt: number | null;
+  victoryAt: number | null;
+}
+
+export const createCatAnimation = (): CatAnimation => ({ cast: null, hurtAt: null, victoryAt: null });
+
+// Only recognized strokes make the cat cast; a fizzle leaves it be
+export const animateCast = (animation: CatAnimation, spell: SpellType, time: number) => {
+  animation.cast = { spell, at: time };
+};
+
+export const animateEvent = (animation: CatAnimation, event: SimulationEvent, time: number) => {
+  if (event.type === 'catHit') animation.hurtAt = time;
+  else if (event.type === 'levelComplete') animation.victoryAt = time;
+};
+
+export interface CatPoseState {
+  pose: CatPose;
+  elapsed: number; // ms since the pose started (idle and shielded loop on the clock)
+  spell?: SpellType; // Casting only
+}
+
+// Victory ends the level, so it wins; a hit interrupts a cast
+export const getCatPose = (animation: CatAnimation, time: number, shielded: boolean): CatPoseState => {
+  const { cast, hurtAt, victoryAt } = animation;
+  if (victoryAt !== null) return { pose: 'victory', elapsed: time - victoryAt };
+  if (hurtAt !== null && time - hurtAt < HURT_MS) return { pose: 'hurt', elapsed: time - hurtAt };
+  if (cast && time - cast.at < CAST_MS) return { pose: 'casting', elapsed: time - cast.at, spell: cast.spell };
+  return { pose: shielded ? 'shielded' : 'idle', elapsed: time };
+};
+
+export interface CatLook {
+  outfit: CatOutfit;
+  name?: string; // Label under the cat
+}
+
+// --------------------------------------------------------------------------
+// DRAWING (around 0,0: the robe's hem sits at y = 16, the ear tips at y = -27)
+// --------------------------------------------------------------------------
+
+const OUTLINE = 'rgba(255,255,255,0.85)';
+const HURT_OUTLINE = '#f87171';
+const SHIELD_OUTLINE = '#93c5fd';
+const DEFAULT_ROBE = '#1e293b';
+const BLINK_EVERY_MS = 3200;
+const BLINK_MS = 120;
+const FAMILIAR_ORBIT = 30;
+
+const drawTail = (ctx: CanvasRenderingContext2D, pose: CatPose, time: number) => {
+  const sway = pose === 'hurt' ? 8 : pose === 'victory' ? Math.sin(time / 90) * 6 : Math.sin(time / 700) * 4;
+  ctx.lineWidth = 2.5;
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  ctx.moveTo(9, 12);
+  ctx.bezierCurveTo(22, 14, 18 + sway, 0, 22 + sway, -6);
+  ctx.stroke();
+};
+
+const drawRobe = (ctx: CanvasRenderingContext2D, color: string) => {
+  ctx.fillStyle = color;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(-7, -4);
+  ctx.lineTo(7, -4);
+  ctx.quadraticCurveTo(11, 6, 14, 16);
+  ctx.lineTo(-14, 16);
+  ctx.quadraticCurveTo(-11, 6, -7, -4);
+  ctx.closePath();
+  ctx.fill();
+  ctx.stroke();
+};
+
+const drawEyes = (ctx: CanvasRenderingContext2D, { pose, elapsed, spell }: CatPoseState, time: number) => {
+  ctx.lineWidth = 1.5;
+  [-4, 4].forEach(x => {
+    ctx.beginPath();
+    if (pose === 'hurt') {
+      // Squeezed shut: > <
+      const side = x < 0 ? 1 : -1;
+      ctx.moveTo(x - 2 * side, -14);
+      ctx.lineTo(x + 2 * side, -12);
+      ctx.lineTo(x - 2 * side, -10);
+      ctx.stroke();
+    } else if (pose === 'victory') {
+      ctx.arc(x, -11, 2, Math.PI * 1.15, Math.PI * 1.85);
+      ctx.stroke();
+    } else if (pose === 'shielded' || time % BLINK_EVERY_MS < BLINK_MS) {
+      ctx.arc(x, -13, 2, Math.PI * 0.15, Math.PI * 0.85);
+      ctx.stroke();
+    } else {
+      ctx.fillStyle = pose === 'casting' && spell !== undefined ? getSymbolColor(spell) : '#FFFFFF';
+      const size = pose === 'casting' ? 1 + 0.3 * Math.sin((elapsed / CAST_MS) * Math.PI) : 1;
+      ctx.ellipse(x, -12, 1.6 * size, 2.2 * size, 0, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  });
+};
+
+const drawHead = (ctx: CanvasRenderingContext2D, poseState: CatPoseState, time: number) => {
+  ctx.fillStyle = '#0b1622';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(-9, -16);
+  ctx.lineTo(-7, -27);
+  ctx.lineTo(-2, -21);
+  ctx.lineTo(2, -21);
+  ctx.lineTo(7, -27);
+  ctx.lineTo(9, -16);
+  ctx.arc(0, -12, 10, -Math.PI * 0.2, Math.PI * 1.2);
+  ctx.closePath();
+  ctx.fill();
+  ctx.stroke();
+
+  drawEyes(ctx, poseState, time);
+
+  // Whiskers
+  ctx.lineWidth = 1;
+  ctx.globalAlpha = 0.5;
+  ctx.beginPath();
+  [-1, 1].forEach(side => {
+    ctx.moveTo(side * 5, -8);
+    ctx.lineTo(side * 15, -9);
+    ctx.moveTo(side * 5, -7);
+    ctx.lineTo(side * 15, -5);
+  });
+  ctx.stroke();
+  ctx.globalAlpha = 1;
+};
+
+const drawHat = (ctx: CanvasRenderingContext2D, id: CatOutfit['hat'], time: number, glow: GlowMode) => {
+  if (!id) return;
+  const { color } = COSMETICS[id];
+  ctx.fillStyle = color;
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  if (id === 'hat.crown') {
+    ctx.moveTo(-7, -20);
+    [[-7, -28], [-3.5, -24], [0, -30], [3.5, -24], [7, -28], [7, -20]].forEach(([x, y]) => ctx.lineTo(x, y));
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+  } else if (id === 'hat.pointed') {
+    ctx.moveTo(-9, -20);
+    ctx.quadraticCurveTo(-2, -30, 5, -42);
+    ctx.quadraticCurveTo(4, -30, 9, -20);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.ellipse(0, -20, 13, 2.5, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+  } else {
+    // Halo floats and shimmers
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    if (glow === 'blur') {
+      ctx.shadowColor = color;
+      ctx.shadowBlur = 8;
+    }
+    ctx.ellipse(0, -32 + Math.sin(time / 400), 9, 3, 0, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.shadowBlur = 0;
+  }
+};
+
+const drawPaws = (ctx: CanvasRenderingContext2D, { pose, elapsed, spell }: CatPoseState) => {
+  ctx.fillStyle = '#FFFFFF';
+  if (pose === 'casting') {
+    const lift = Math.sin((elapsed / CAST_MS) * Math.PI);
+    ctx.beginPath();
+    ctx.arc(12 + lift * 3, -2 - lift * 10, 3, 0, Math.PI * 2);
+    ctx.fill();
+    if (spell !== undefined) {
+      ctx.strokeStyle = getSymbolColor(spell);
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.arc(12 + lift * 3, -2 - lift * 10, 5 + lift * 4, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+  } else if (pose === 'victory') {
+    const wave = Math.sin(elapsed / 120) * 2;
+    ctx.beginPath();
+    ctx.arc(-13, -10 + wave, 3, 0, Math.PI * 2);
+    ctx.arc(13, -10 - wave, 3, 0, Math.PI * 2);
+    ctx.fill();
+  } else {
+    ctx.beginPath();
+    ctx.arc(-5, 14, 2.5, 0, Math.PI * 2);
+    ctx.arc(5, 14, 2.5, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+const drawFamiliar = (ctx: CanvasRenderingContext2D, id: CatOutfit['familiar'], time: number, glow: GlowMode) => {
+  if (!id) return;
+  const { color } = COSMETICS[id];
+  const angle = time / 1100;
+  const x = Math.cos(angle) * FAMILIAR_ORBIT;
+  const y = Math.sin(angle) * FAMILIAR_ORBIT * 0.5 - 6;
+  ctx.fillStyle = color;
+  if (id === 'familiar.firefly') {
+    ctx.globalAlpha = 0.6 + 0.4 * Math.sin(time / 180);
+    if (glow === 'blur') {
+      ctx.shadowColor = color;
+      ctx.shadowBlur = 10;
+    }
+    ctx.beginPath();
+    ctx.arc(x, y, 2.2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.shadowBlur = 0;
+  } else {
+    // Ghost: round top, wavy hem, bobbing out of step with its orbit
+    const bob = y + Math.sin(time / 300) * 2;
+    ctx.globalAlpha = 0.75;
+    ctx.beginPath();
+    ctx.arc(x, bob - 2, 5, Math.PI, 0);
+    ctx.lineTo(x + 5, bob + 5);
+    for (let i = 1; i <= 4; i++) ctx.lineTo(x + 5 - i * 2.5, bob + (i % 2 === 0 ? 5 : 3));
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.globalAlpha = 1;
+};
+
+// Spell glyph rising off the paw
+const drawCastGlyph = (ctx: CanvasRenderingContext2D, { elapsed, spell }: CatPoseState) => {
+  if (spell === undefined) return;
+  const progress = elapsed / CAST_MS;
+  ctx.globalAlpha = 1 - progress;
+  ctx.fillStyle = getSymbolColor(spell);
+  ctx.font = 'bold 14px monospace';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(getSymbolIcon(spell), 16, -22 - progress * 14);
+  ctx.globalAlpha = 1;
+};
+
+export const drawCat = (ctx: CanvasRenderingContext2D, x: number, y: number, poseState: CatPoseState, time: number, { outfit, name }: CatLook, glow: GlowMode = 'blur') => {
+  const { pose, elapsed } = poseState;
+
+  // Whole-body motion: breathing, a flinch, a hop
+  let offsetX = 0;
+  let offsetY = Math.sin(time / 600) * 1.2;
+  if (pose === 'hurt') offsetX = Math.sin(elapsed / 25) * 4 * (1 - elapsed / HURT_MS);
+  else if (pose === 'victory') offsetY = -Math.abs(Math.sin(elapsed / 180)) * 8;
+  else if (pose === 'casting') offsetY -= Math.sin((elapsed / CAST_MS) * Math.PI) * 3;
+
+  ctx.save();
+  ctx.translate(x, y);
+
+  if (pose === 'shielded' && glow !== 'none') {
+    ctx.fillStyle = 'rgba(96,165,250,0.12)';
+    ctx.beginPath();
+    ctx.arc(0, -4, 26, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.save();
+  ctx.translate(offsetX, offsetY);
+  ctx.strokeStyle = pose === 'hurt' ? HURT_OUTLINE : pose === 'shielded' ? SHIELD_OUTLINE : OUTLINE;
+  drawTail(ctx, pose, time);
+  drawRobe(ctx, outfit.robe ? COSMETICS[outfit.robe].color : DEFAULT_ROBE);
+  drawHead(ctx, poseState, time);
+  drawHat(ctx, outfit.hat, time, glow);
+  drawPaws(ctx, poseState);
+  if (pose === 'casting') drawCastGlyph(ctx, poseState);
+  ctx.restore();
+
+  drawFamiliar(ctx, outfit.familiar, time, glow);
+
+  if (name) {
+    ctx.fillStyle = 'rgba(255,255,255,0.6)';
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.fillText(name, 0, 22);
+  }
+  ctx.restore();
+};
@@ -0,0 +1,70 @@
+import { BiomeType, CatOutfit, CosmeticId, CosmeticSlot } from '../types';
+import { BIOME_ORDER } from './gameConfig';
+
+// Cosmetics for the player's cat, one per biome: beating that biome's boss in
+// the campaign unlocks it. The save game keeps what was unlocked and what is
+// worn; utils/catAvatar draws them.
+
+export interface CosmeticDefinition {
+  slot: CosmeticSlot;
+  biome: BiomeType; // Unlocked by defeating this biome's boss
+  color: string;
+}
+
+export const COSMETICS: Record<CosmeticId, CosmeticDefinition> = {
+  'robe.moss': { slot: 'robe', biome: 'GARDEN', color: '#166534' },
+  'familiar.firefly': { slot: 'familiar', biome: 'CITY', color: '#fde047' },
+  'hat.crown': { slot: 'hat', biome: 'SEWER', color: '#facc15' },
+  'hat.pointed': { slot: 'hat', biome: 'HOUSE', color: '#4338ca' },
+  'familiar.ghost': { slot: 'familiar', biome: 'CEMETERY', color: '#e2e8f0' },
+  'robe.ember': { slot: 'robe', biome: 'FACTORY', color: '#9a3412' },
+  'hat.halo': { slot: 'hat', biome: 'ASTRAL', color: '#fef08a' }
+};
+
+export const COSMETIC_SLOTS: CosmeticSlot[] = ['hat', 'robe', 'familiar'];
+
+// Nothing worn: no hat, the night robe, no familiar
+export const DEFAULT_OUTFIT: CatOutfit = {};
+
+// In biome order, so lists read like the campaign
+export const COSMETIC_IDS = (Object.keys(COSMETICS) as CosmeticId[])
+  .sort((a, b) => BIOME_ORDER.indexOf(COSMETICS[a].biome) - BIOME_ORDER.indexOf(COSMETICS[b].biome));
+
+// Ten levels and the boss
+const LEVELS_PER_BIOME = 11;
+
+export const isCosmeticId = (value: unknown): value is CosmeticId => COSMETIC_IDS.includes(value as CosmeticId);
+
+export const getBiomeCosmetic = (biome: BiomeType): CosmeticId | undefined =>
+  COSMETIC_IDS.find(id => COSMETICS[id].biome === biome);
+
+export const getSlotCosmetics = (slot: CosmeticSlot): CosmeticId[] =>
+  COSMETIC_IDS.filter(id => COSMETICS[id].slot === slot);
+
+// Everything earned by a campaign that has cleared this many levels (saves
+// from before cosmetics existed get their unlocks back this way)
+export const getEarnedCosmetics = (totalLevelsCleared: number): CosmeticId[] => {
+  const biomesCleared = Math.min(BIOME_ORDER.length, Math.floor(totalLevelsCleared / LEVELS_PER_BIOME));
+  return BIOME_ORDER.slice(0, biomesCleared)
+    .map(getBiomeCosmetic)
+    .filter((id): id is CosmeticId => id !== undefined);
+};
+
+// Drops anything locked, unknown or in the wrong slot
+export const sanitizeOutfit = (outfit: unknown, unlocked: CosmeticId[]): CatOutfit => {
+  const source = outfit && typeof outfit === 'object' ? outfit as Record<string, unknown> : {};
+  const clean: CatOutfit = {};
+  COSMETIC_SLOTS.forEach(slot => {
+    const id = source[slot];
+    if (isCosmeticId(id) && COSMETICS[id].slot === slot && unlocked.includes(id)) clean[slot] = id;
+  });
+  return clean;
+};
+
+// `null` empties the slot
+export const equipCosmetic = (outfit: CatOutfit, slot: CosmeticSlot, id: CosmeticId | null): CatOutfit => {
+  const next = { ...outfit };
+  if (id === null) delete next[slot];
+  else next[slot] = id;
+  return next;
+};
@@ -0,0 +1,99 @@
+import { Progress, SpellType } from '../types';
+import { BIOME_ORDER } from './gameConfig';
+import { DEFAULT_DIFFICULTY, DifficultyConfig, resolveDifficulty } from './difficulty';
+import { SimulationConfig } from './gameSimulation';
+import { createRng, hashString } from './random';
+
+// One fixed-length run per (UTC) day, the same for every player: the date
+// seeds the biome, level, modifiers and the simulation itself. With no server,
+// results travel as short text codes that anyone can paste back in.
+
+export const DAILY_DURATION_MS = 120000;
+
+export type DailyModifier = 'curvedOnly' | 'doubleSpeed' | 'noSkills' | 'swarm' | 'glassCat';
+
+// Names live in the message catalog under modifier.<id>
+export const DAILY_MODIFIERS: DailyModifier[] = ['curvedOnly', 'doubleSpeed', 'noSkills', 'swarm', 'glassCat'];
+const MODIFIERS_PER_DAY = 2;
+const CURVED_SPELLS = [SpellType.C_SHAPE, SpellType.S_SHAPE, SpellType.EIGHT_SHAPE];
+
+export interface DailyChallenge {
+  date: string; // YYYY-MM-DD, UTC
+  seed: number;
+  biomeIndex: number;
+  level: number; // Sets the base pace and symbol pool
+  modifiers: DailyModifier[];
+}
+
+export const getDailyDate = (now: Date = new Date()): string => now.toISOString().slice(0, 10);
+
+export const getDailyChallenge = (date: string = getDailyDate()): DailyChallenge => {
+  const seed = hashString(`daily:${date}`);
+  const rng = createRng(seed);
+  const biomeIndex = Math.floor(rng() * BIOME_ORDER.length);
+  const level = 4 + Math.floor(rng() * 7); // 4-10, never the boss
+  const pool = [...DAILY_MODIFIERS];
+  const modifiers = Array.from({ length: MODIFIERS_PER_DAY }, () => pool.splice(Math.floor(rng() * pool.length), 1)[0]);
+  return { date, seed, biomeIndex, level, modifiers };
+};
+
+// Everyone plays on the Normal preset so scores compare; only auto-pause,
+// which doesn't change the run, is kept from the player's settings
+export const getDailyDifficulty = (challenge: DailyChallenge, autoPause: boolean): DifficultyConfig => {
+  const base = resolveDifficulty(DEFAULT_DIFFICULTY);
+  const has = (modifier: DailyModifier) => challenge.modifiers.includes(modifier);
+  return {
+    ...base,
+    enemySpeed: base.enemySpeed * (has('doubleSpeed') ? 2 : 1),
+    spawnRate: base.spawnRate * (has('swarm') ? 1.5 : 1),
+    maxHealth: has('glassCat') ? 1 : base.maxHealth,
+    autoPause
+  };
+};
+
+// Skills unlock as they would for a campaign player at this level
+export const getDailyProgress = (challenge: DailyChallenge): Progress => ({
+  biomeIndex: challenge.biomeIndex,
+  level: challenge.level,
+  totalLevelsCleared: challenge.biomeIndex * 11 + challenge.level - 1
+});
+
+export const getDailyConfig = (challenge: DailyChallenge): Partial<SimulationConfig> => ({
+  seed: challenge.seed,
+  mode: 'daily',
+  timeLimit: DAILY_DURATION_MS,
+  spellPool: challenge.modifiers.includes('curvedOnly') ? CURVED_SPELLS : undefined,
+  skillsLocked: challenge.modifiers.includes('noSkills')
+});
+
+// --------------------------------------------------------------------------
+// RESULT CODES
+// --------------------------------------------------------------------------
+
+// CS1-YYYYMMDD-SCORE-CHECKSUM-NAME (the name goes last since it may contain dashes)
+const CODE_PREFIX = 'CS1';
+
+export interface DailyResult {
+  date: string;
+  score: number;
+  catName: string;
+}
+
+// Catches typos and casual edits; without a server nothing stops a determined forger
+const checksum = ({ date, score, catName }: DailyResult) =>
+  hashString(`${date}|${score}|${catName}|catsalom`).toString(36).toUpperCase().padStart(7, '0');
+
+export const encodeDailyResult = (result: DailyResult): string =>
+  [CODE_PREFIX, result.date.replace(/-/g, ''), result.score, checksum(result), result.catName].join('-');
+
+// Null when the code is malformed or the checksum doesn't match
+export const decodeDailyResult = (code: string): DailyResult | null => {
+  const [prefix, day, score, check, ...name] = code.trim().split('-');
+  if (prefix?.toUpperCase() !== CODE_PREFIX || !/^\d{8}$/.test(day ?? '') || !/^\d+$/.test(score ?? '') || name.length === 0) return null;
+  const result: DailyResult = {
+    date: `${day.slice(0, 4)}-${day.slice(4, 6)}-${day.slice(6)}`,
+    score: Number(score),
+    catName: name.join('-')
+  };
+  return check?.toUpperCase() === checksum(result) ? result : null;
+};
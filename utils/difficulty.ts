@@ -0,0 +1,98 @@
+import { MIN_TEMPLATE_CONFIDENCE } from './gesture';
+
+// Difficulty presets plus individual assists, resolved into one config that
+// spawning (via SimulationConfig), health and gesture recognition read from.
+
+const STORAGE_KEY = 'catsalom.difficulty.v1';
+
+export type DifficultyPreset = 'story' | 'normal' | 'hard' | 'nightmare';
+
+export interface AssistOptions {
+  slowEnemies: boolean;
+  extraHearts: boolean;
+  relaxedGestures: boolean;
+  autoPause: boolean; // Pause when the tab or window loses focus
+}
+
+export interface DifficultySettings {
+  preset: DifficultyPreset;
+  assists: AssistOptions;
+}
+
+export interface DifficultyConfig {
+  enemySpeed: number; // Multiplier on monster and projectile speed
+  spawnRate: number; // Multiplier on how often enemies appear
+  maxHealth: number;
+  minConfidence: number; // Template score a stroke needs to be recognized
+  autoPause: boolean;
+}
+
+// Names live in the message catalog under difficulty.<preset>
+export const DIFFICULTY_PRESETS: Record<DifficultyPreset, {
+  enemySpeed: number;
+  spawnRate: number;
+  maxHealth: number;
+}> = {
+  story: { enemySpeed: 0.7, spawnRate: 0.7, maxHealth: 8 },
+  normal: { enemySpeed: 1, spawnRate: 1, maxHealth: 5 },
+  hard: { enemySpeed: 1.25, spawnRate: 1.2, maxHealth: 4 },
+  nightmare: { enemySpeed: 1.5, spawnRate: 1.5, maxHealth: 3 }
+};
+
+export const PRESET_ORDER: DifficultyPreset[] = ['story', 'normal', 'hard', 'nightmare'];
+
+const SLOW_ENEMIES_FACTOR = 0.75;
+const EXTRA_HEARTS = 3;
+const RELAXED_CONFIDENCE = 0.6;
+
+export const DEFAULT_DIFFICULTY: DifficultySettings = {
+  preset: 'normal',
+  assists: { slowEnemies: false, extraHearts: false, relaxedGestures: false, autoPause: false }
+};
+
+export const resolveDifficulty = ({ preset, assists }: DifficultySettings): DifficultyConfig => {
+  const base = DIFFICULTY_PRESETS[preset];
+  return {
+    enemySpeed: base.enemySpeed * (assists.slowEnemies ? SLOW_ENEMIES_FACTOR : 1),
+    spawnRate: base.spawnRate,
+    maxHealth: base.maxHealth + (assists.extraHearts ? EXTRA_HEARTS : 0),
+    minConfidence: assists.relaxedGestures ? RELAXED_CONFIDENCE : MIN_TEMPLATE_CONFIDENCE,
+    autoPause: assists.autoPause
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isDifficultyPreset = (value: unknown): value is DifficultyPreset => PRESET_ORDER.includes(value as DifficultyPreset);
+
+// Unknown presets and non-boolean assists fall back to the defaults
+export const loadDifficulty = (): DifficultySettings => {
+  let saved: unknown = null;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    saved = raw ? JSON.parse(raw) : null;
+  } catch {
+    // Unreadable: use the defaults
+  }
+  const { preset, assists } = isRecord(saved) ? saved : {};
+  const savedAssists = isRecord(assists) ? assists : {};
+  const defaults = DEFAULT_DIFFICULTY.assists;
+  const pick = (key: keyof AssistOptions) => typeof savedAssists[key] === 'boolean' ? savedAssists[key] as boolean : defaults[key];
+  return {
+    preset: isDifficultyPreset(preset) ? preset : DEFAULT_DIFFICULTY.preset,
+    assists: {
+      slowEnemies: pick('slowEnemies'),
+      extraHearts: pick('extraHearts'),
+      relaxedGestures: pick('relaxedGestures'),
+      autoPause: pick('autoPause')
+    }
+  };
+};
+
+export const saveDifficulty = (settings: DifficultySettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage full or disabled: settings last for this session only
+  }
+};
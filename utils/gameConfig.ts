@@ -26,50 +26,43 @@ export const BIOME_MULTIPLIERS: Record<BiomeType, number> = {
   ASTRAL: 5.0
 };
 
+// Names live in the message catalog under biome.<biome>
 export const BIOME_CONFIG: Record<BiomeType, { 
-  name: { pt: string; en: string }; 
   bg: string; 
   accent: string; 
   monsters: string[]; 
 }> = {
   GARDEN: {
-    name: { pt: "Jardim Abandonado", en: "Abandoned Garden" },
     bg: "#0f1c15", // Dark Green
     accent: "#4ade80",
     monsters: ['flower', 'bug', 'leaf']
   },
   CITY: {
-    name: { pt: "Cidade Noturna", en: "Night City" },
     bg: "#0f172a", // Dark Blue
     accent: "#60a5fa",
     monsters: ['car', 'building', 'lamp']
   },
   SEWER: {
-    name: { pt: "Esgoto", en: "Sewer" },
     bg: "#1c1917", // Dark Brown/Olive
     accent: "#a3e635",
     monsters: ['rat', 'biohazard', 'skull']
   },
   HOUSE: {
-    name: { pt: "Casa Assombrada", en: "Haunted House" },
     bg: "#1e1b4b", // Deep Purple
     accent: "#c084fc",
     monsters: ['ghost', 'bed', 'book']
   },
   CEMETERY: {
-    name: { pt: "Cemitério", en: "Cemetery" },
     bg: "#18181b", // Zinc/Grey
     accent: "#e4e4e7",
     monsters: ['skull', 'cross', 'bone']
   },
   FACTORY: {
-    name: { pt: "Fábrica", en: "Factory" },
     bg: "#280808", // Dark Red
     accent: "#f87171",
     monsters: ['gear', 'robot', 'fire']
   },
   ASTRAL: {
-    name: { pt: "Plano Astral", en: "Astral Plane" },
     bg: "#2e1065", // Dark Violet
     accent: "#f472b6",
     monsters: ['star', 'eye', 'void']
@@ -0,0 +1,804 @@
+import { BossAttack, Enemy, GameMode, Orb, Point, SkillId, SkillState, SkillUpgrades, SpellType } from '../types';
+import { BIOME_CONFIG, BIOME_ORDER, getTargetScore } from './gameConfig';
+import { BOSS_CONFIG, getBossMaxHp } from './bosses';
+import { getSymbolColor } from './gesture';
+import { MONSTERS, TELEPORT_INTERVAL, getMonster } from './monsters';
+import { createPool, swapRemove } from './pool';
+import { createRng } from './random';
+import { LevelWave, SPAWN_SIDES, WaveSpawn, isWaveCleared, resolveWaveBoss } from './waves';
+import { ScoringState, breakStreak, createScoringState, registerCast, scoreBossDefeat, scoreKill } from './scoring';
+import {
+  SKILL_DEFS, SKILL_ORDER, CHAIN_INTERVAL_MS, isSkillUnlocked, getSkillDuration, getSkillCooldown,
+  getHealAmount, getChainJumps, getMagnetRadius, getBombSigilDamage
+} from './skills';
+
+// Headless game rules for a single level: spawning, movement, collision,
+// scoring, boss sigils and skills. No DOM, no Canvas, no wall clock — time only
+// moves through step(dt), and randomness only comes from the seed, so the
+// same inputs always produce the same run (and it runs under plain Node).
+
+export const FIXED_STEP_MS = 1000 / 60;
+
+// Speeds were tuned as "pixels per 60 Hz frame"
+const FRAME_MS = 1000 / 60;
+
+const CAT_HIT_RADIUS = 45;
+const SPAWN_PADDING = 60;
+const BOSS_SIGIL_ORBIT = 130;
+const PROJECTILE_RADIUS = 16;
+// Monsters closer than this to the cat stop blinking, so they never land on it
+const TELEPORT_MIN_DISTANCE = 150;
+const SPLIT_SPREAD = 30;
+
+// Endless mode: difficulty ramps one "level" per stage, the biome rotates on its own timer
+export const ENDLESS_STAGE_MS = 20000;
+export const ENDLESS_BIOME_MS = 60000;
+
+// Boss uses a mix of complex symbols
+const BOSS_SPELLS = [
+  SpellType.C_SHAPE,
+  SpellType.SEVEN_SHAPE,
+  SpellType.EIGHT_SHAPE,
+  SpellType.S_SHAPE,
+  SpellType.X_SHAPE,
+  SpellType.LIGHTNING
+];
+
+// Essence orbs dropped by kills: they drift to the cat and are collected on contact
+const ORB_DROP_CHANCE = 0.35;
+const ORB_LIFETIME = 8000;
+const ORB_DRIFT_SPEED = 1;
+const ORB_MAGNET_SPEED = 7;
+const ORB_COLLECT_RADIUS = 40;
+
+// Enemy objects kept for reuse per simulation; a crowd beyond this just allocates
+const ENEMY_POOL_SIZE = 128;
+
+// Lists every optional field too, so a recycled enemy never keeps flags from its last life
+const BLANK_ENEMY: Enemy = {
+  id: 0, x: 0, y: 0, speed: 0, symbol: SpellType.HORIZONTAL, color: '', radius: 0, spawnTime: 0,
+  isBossSigil: undefined, isProjectile: undefined, vx: undefined, vy: undefined, monster: undefined,
+  queue: undefined, symbolCount: undefined, lastHitTime: undefined, wobble: undefined, spin: undefined,
+  nextTeleportTime: undefined
+};
+
+export interface SimulationConfig {
+  seed: number;
+  width: number;
+  height: number;
+  biomeIndex: number;
+  level: number;
+  totalLevelsCleared: number;
+  maxHealth: number;
+  mode?: GameMode; // Defaults to 'campaign' (replays recorded before Endless existed)
+  upgrades?: SkillUpgrades;
+  // From the difficulty preset and assists (utils/difficulty); both default to 1
+  enemySpeed?: number;
+  spawnRate?: number;
+  // Hand-authored level (utils/waves): replaces formula spawning and the target score
+  wave?: LevelWave;
+  // Daily Challenge modifiers (utils/dailyChallenge)
+  timeLimit?: number; // ms of game time; the level completes then, whatever the score
+  spellPool?: SpellType[]; // Replaces the level's symbol progression
+  skillsLocked?: boolean;
+}
+
+export type SimulationEvent =
+  | { type: 'enemyKilled'; enemy: Enemy; points: number }
+  | { type: 'enemyHit'; enemy: Enemy } // Lost a symbol but still has more to draw
+  | { type: 'enemyTeleported'; enemy: Enemy; from: Point }
+  | { type: 'catHit'; health: number }
+  | { type: 'shieldBlocked' }
+  | { type: 'skillActivated'; skill: SkillId }
+  | { type: 'healed'; health: number }
+  | { type: 'chainLightning'; points: Point[] } // From the cat through every enemy struck
+  | { type: 'orbCollected'; orb: Orb }
+  | { type: 'bossAttack'; attack: BossAttack['type'] }
+  | { type: 'bossPhase'; phase: number }
+  | { type: 'bossShieldBroken' }
+  | { type: 'biomeChanged'; biomeIndex: number } // Endless mode only
+  | { type: 'levelComplete'; score: number; isBoss: boolean }
+  | { type: 'gameOver'; score: number };
+
+export type SimulationStatus = 'playing' | 'complete' | 'over';
+
+export interface SimulationState {
+  tick: number; // Number of step() calls so far; replays key inputs on this
+  time: number; // ms of simulated time since the level started (skills and the HUD run on this)
+  worldTime: number; // Same, but slowed by timeScale: enemies, spawns and the boss run on this
+  status: SimulationStatus;
+  // Fixed in the campaign; in Endless they advance with time
+  biomeIndex: number;
+  level: number;
+  totalLevelsCleared: number;
+  width: number;
+  height: number;
+  enemies: Enemy[];
+  health: number;
+  maxHealth: number;
+  score: number;
+  targetScore: number;
+  scoring: ScoringState;
+  isBossLevel: boolean;
+  boss: {
+    active: boolean;
+    phaseIndex: number;
+    maxSigils: number; // Of the current phase
+    currentSigils: number;
+    hp: number; // Sigils left across all phases
+    maxHp: number;
+    nextAttackTime: number;
+    attackIndex: number;
+    shieldSequence: SpellType[]; // Spells still needed to break the shield, in order
+  };
+  timeScale: number; // Slowed by the hourglass
+  skills: Record<SkillId, SkillState>;
+  orbs: Orb[];
+  essence: number; // Collected from orbs this level
+}
+
+export interface GameSimulation {
+  readonly state: SimulationState;
+  readonly config: SimulationConfig;
+  step: (dt: number) => void;
+  castSpell: (spell: SpellType | null, confidence?: number) => number;
+  activateSkill: (skill: SkillId) => boolean;
+  setViewport: (width: number, height: number) => void;
+  drainEvents: () => SimulationEvent[];
+}
+
+export const createGameSimulation = (config: SimulationConfig): GameSimulation => {
+  const rng = createRng(config.seed);
+  const { biomeIndex, level } = config;
+  const isEndless = config.mode === 'endless';
+  const wave = isEndless ? undefined : config.wave;
+  const isBossLevel = !isEndless && (wave ? wave.boss !== undefined : level === 11);
+  const bossDef = wave?.boss ? resolveWaveBoss(wave) : BOSS_CONFIG[BIOME_ORDER[biomeIndex]];
+  const upgrades = config.upgrades ?? {};
+  const enemySpeed = config.enemySpeed ?? 1;
+  const spawnRate = config.spawnRate ?? 1;
+
+  const state: SimulationState = {
+    tick: 0,
+    time: 0,
+    worldTime: 0,
+    status: 'playing',
+    biomeIndex,
+    level,
+    totalLevelsCleared: config.totalLevelsCleared,
+    width: config.width,
+    height: config.height,
+    enemies: [],
+    health: config.maxHealth,
+    maxHealth: config.maxHealth,
+    score: 0,
+    targetScore: isEndless || config.timeLimit !== undefined ? 0 : wave ? wave.targetScore ?? 0 : getTargetScore(BIOME_ORDER[biomeIndex], level),
+    scoring: createScoringState(),
+    isBossLevel,
+    boss: {
+      active: false,
+      phaseIndex: 0,
+      maxSigils: 0,
+      currentSigils: 0,
+      hp: getBossMaxHp(bossDef),
+      maxHp: getBossMaxHp(bossDef),
+      nextAttackTime: 0,
+      attackIndex: 0,
+      shieldSequence: []
+    },
+    timeScale: 1.0,
+    skills: Object.fromEntries(SKILL_ORDER.map(id => [id, {
+      id,
+      isUnlocked: !config.skillsLocked && isSkillUnlocked(id, config.totalLevelsCleared),
+      isActive: false,
+      activeUntil: 0,
+      isOnCooldown: false,
+      cooldownTime: getSkillCooldown(id, upgrades),
+      lastUsed: null
+    }])) as Record<SkillId, SkillState>,
+    orbs: [],
+    essence: 0
+  };
+
+  let events: SimulationEvent[] = [];
+  let lastSpawnTime = 0;
+  let nextEnemyId = 0;
+  let nextChainTime = 0;
+  let nextWaveSpawn = 0; // Index into wave.spawns
+
+  const emit = (event: SimulationEvent) => events.push(event);
+
+  // --------------------------------------------------------------------------
+  // ENEMY POOL
+  // --------------------------------------------------------------------------
+
+  const enemyPool = createPool<Enemy>(ENEMY_POOL_SIZE, () => ({ ...BLANK_ENEMY }));
+  // Removed enemies can still be referenced by pending events (and a dying
+  // monster is read again to place its children), so they only go back to the
+  // pool once drainEvents() has handed those events out
+  const retiredEnemies: Enemy[] = [];
+
+  const acquireEnemy = (fields: Omit<Enemy, 'id'>): Enemy => {
+    const enemy = Object.assign(enemyPool.acquire(), BLANK_ENEMY, fields);
+    enemy.id = nextEnemyId++;
+    return enemy;
+  };
+
+  // Swap-removes, so the order of state.enemies is not stable
+  const retireEnemy = (index: number) => {
+    retiredEnemies.push(swapRemove(state.enemies, index));
+  };
+
+  const removeEnemies = (predicate: (enemy: Enemy) => boolean) => {
+    for (let i = state.enemies.length - 1; i >= 0; i--) {
+      if (predicate(state.enemies[i])) retireEnemy(i);
+    }
+  };
+
+  // --------------------------------------------------------------------------
+  // SPAWNING
+  // --------------------------------------------------------------------------
+
+  // Spell Selection logic - PROGRESSION
+  const getSpellPool = (): SpellType[] => {
+    if (config.spellPool) return config.spellPool;
+    const { level, biomeIndex } = state;
+    const spellTypes = [SpellType.HORIZONTAL, SpellType.VERTICAL];
+
+    // Level 2+: Add C (Simple Curve)
+    if (level > 1 || biomeIndex > 0) spellTypes.push(SpellType.C_SHAPE);
+
+    // Level 3+: Add 7 (was T)
+    if (level > 2 || biomeIndex > 0) spellTypes.push(SpellType.SEVEN_SHAPE);
+
+    // Level 5+: Add 8 (was N)
+    if (level > 4 || biomeIndex > 0) spellTypes.push(SpellType.EIGHT_SHAPE);
+
+    // Level 7+: Add S (Complex Curve)
+    if (level > 6 || biomeIndex > 0) spellTypes.push(SpellType.S_SHAPE);
+
+    // Level 9+: Add X (Intersection)
+    if (level > 8 || biomeIndex > 1) spellTypes.push(SpellType.X_SHAPE);
+
+    // Lightning only in later areas or high levels
+    if (level > 8 && biomeIndex > 0 && rng() > 0.8) spellTypes.push(SpellType.LIGHTNING);
+
+    return spellTypes;
+  };
+
+  // Combos (enemies needing several symbols in order) follow the same
+  // progression: none early in the garden, longer chains in later biomes
+  const getMaxComboLength = () => {
+    const { level, biomeIndex } = state;
+    return isBossLevel ? 1
+      : biomeIndex > 3 ? 4
+      : biomeIndex > 1 || level > 8 ? 3
+      : biomeIndex > 0 || level > 3 ? 2
+      : 1;
+  };
+  const getComboChance = () => Math.min(0.6, 0.1 + state.biomeIndex * 0.08 + state.level * 0.02);
+
+  // Continuous in Endless, so the ramp doesn't jump once per stage
+  const getDifficultyLevel = () => isEndless ? 1 + state.time / ENDLESS_STAGE_MS : state.level;
+
+  // Never the same symbol twice in a row, so every stroke visibly advances the
+  // chain (unless a Daily spell pool only has the one)
+  const rollSymbols = (length: number): SpellType[] => {
+    const spellTypes = getSpellPool();
+    const symbols: SpellType[] = [];
+    for (let i = 0; i < length; i++) {
+      const choices = spellTypes.length > 1 ? spellTypes.filter(s => s !== symbols[i - 1]) : spellTypes;
+      symbols.push(choices[Math.floor(rng() * choices.length)]);
+    }
+    return symbols;
+  };
+
+  // Scheduled spawns may fix the symbols and speed instead of rolling them
+  const createMonster = (monsterId: string, x: number, y: number, fixed?: Pick<WaveSpawn, 'symbols' | 'speed'>): Enemy => {
+    const monster = MONSTERS[monsterId];
+
+    // Difficulty Scaling based on Biome and Level
+    // Biome multiplier effectively speeds up game per area
+    const difficultyMultiplier = 1 + (state.biomeIndex * 0.25) + (getDifficultyLevel() * 0.1);
+
+    // Base speed: Boss levels are faster/chaotic
+    const speedBase = isBossLevel ? 2.5 : 0.8;
+
+    // HP is a chain of symbols: the monster's own, plus sometimes an extra combo link
+    const rollChain = () => {
+      const extra = rng() < getComboChance() ? 1 : 0;
+      return rollSymbols(Math.max(1, Math.min(monster.hp + extra, getMaxComboLength())));
+    };
+    const [symbol, ...queue] = fixed?.symbols ?? rollChain();
+    const speed = fixed?.speed ?? (speedBase + (rng() * difficultyMultiplier)) * 0.7 * monster.speed;
+
+    return acquireEnemy({
+      x,
+      y,
+      speed: speed * enemySpeed,
+      symbol,
+      color: getSymbolColor(symbol),
+      radius: monster.radius,
+      spawnTime: state.worldTime,
+      monster: monsterId,
+      queue,
+      symbolCount: queue.length + 1,
+      wobble: rng() * Math.PI * 2,
+      spin: rng() < 0.5 ? 1 : -1,
+      nextTeleportTime: state.worldTime + TELEPORT_INTERVAL * (0.5 + rng())
+    });
+  };
+
+  // side follows SPAWN_SIDES (0: Top, 1: Right, 2: Bottom, 3: Left), along is 0..1
+  const getSpawnPoint = (side: number, along: number): Point => {
+    const { width, height } = state;
+    switch (side) {
+      case 0: return { x: along * width, y: -SPAWN_PADDING };
+      case 1: return { x: width + SPAWN_PADDING, y: along * height };
+      case 2: return { x: along * width, y: height + SPAWN_PADDING };
+      default: return { x: -SPAWN_PADDING, y: along * height };
+    }
+  };
+
+  const spawnEnemy = () => {
+    const { x, y } = getSpawnPoint(Math.floor(rng() * 4), rng());
+    const { monsters } = BIOME_CONFIG[BIOME_ORDER[state.biomeIndex]];
+    state.enemies.push(createMonster(monsters[Math.floor(rng() * monsters.length)], x, y));
+  };
+
+  const spawnScheduled = (spawn: WaveSpawn) => {
+    const side = spawn.side === 'random' ? Math.floor(rng() * 4) : SPAWN_SIDES.indexOf(spawn.side);
+    const { x, y } = getSpawnPoint(side, spawn.position ?? rng());
+    state.enemies.push(createMonster(spawn.monster, x, y, spawn));
+  };
+
+  // Children appear around the dead monster, fanned out so they don't overlap
+  const splitMonster = (parent: Enemy) => {
+    const split = getMonster(parent.monster)?.splitsInto;
+    if (!split) return;
+    const angleOffset = rng() * Math.PI * 2;
+    for (let i = 0; i < split.count; i++) {
+      const angle = angleOffset + (i / split.count) * Math.PI * 2;
+      state.enemies.push(createMonster(
+        split.monster,
+        parent.x + Math.cos(angle) * SPLIT_SPREAD,
+        parent.y + Math.sin(angle) * SPLIT_SPREAD
+      ));
+    }
+  };
+
+  const moveMonster = (enemy: Enemy, centerX: number, centerY: number, motion: number) => {
+    const dx = centerX - enemy.x;
+    const dy = centerY - enemy.y;
+    const angle = Math.atan2(dy, dx);
+    const movement = getMonster(enemy.monster)?.movement ?? 'straight';
+
+    if (movement === 'zigzag') {
+      // Forward like 'straight', plus a sideways sway across the heading
+      const sway = Math.sin((state.worldTime - enemy.spawnTime) / 250 + (enemy.wobble ?? 0)) * 1.5;
+      enemy.x += (Math.cos(angle) - Math.sin(angle) * sway) * enemy.speed * motion;
+      enemy.y += (Math.sin(angle) + Math.cos(angle) * sway) * enemy.speed * motion;
+    } else if (movement === 'orbit') {
+      // Mostly circles the cat, closing in slowly
+      const tangent = angle + (Math.PI / 2) * (enemy.spin ?? 1);
+      enemy.x += (Math.cos(angle) * 0.35 + Math.cos(tangent)) * enemy.speed * motion;
+      enemy.y += (Math.sin(angle) * 0.35 + Math.sin(tangent)) * enemy.speed * motion;
+    } else {
+      enemy.x += Math.cos(angle) * enemy.speed * motion;
+      enemy.y += Math.sin(angle) * enemy.speed * motion;
+    }
+
+    if (movement === 'teleport' && enemy.nextTeleportTime !== undefined && state.worldTime >= enemy.nextTeleportTime) {
+      enemy.nextTeleportTime = state.worldTime + TELEPORT_INTERVAL;
+      const dist = Math.hypot(dx, dy);
+      if (dist < TELEPORT_MIN_DISTANCE) return;
+
+      // Jump to another point on the same ring, so the blink never gains ground
+      const from = { x: enemy.x, y: enemy.y };
+      const jump = (Math.PI / 3 + rng() * Math.PI / 3) * (rng() < 0.5 ? 1 : -1);
+      const newAngle = Math.atan2(enemy.y - centerY, enemy.x - centerX) + jump;
+      enemy.x = centerX + Math.cos(newAngle) * dist;
+      enemy.y = centerY + Math.sin(newAngle) * dist;
+      emit({ type: 'enemyTeleported', enemy, from });
+    }
+  };
+
+  const createSigil = (angle: number, symbol: SpellType): Enemy => acquireEnemy({
+    x: state.width / 2 + Math.cos(angle) * BOSS_SIGIL_ORBIT,
+    y: state.height / 2 + Math.sin(angle) * BOSS_SIGIL_ORBIT,
+    speed: 0,
+    symbol,
+    color: '#ef4444',
+    radius: 35,
+    spawnTime: state.worldTime,
+    isBossSigil: true
+  });
+
+  const spawnBossPhase = (phaseIndex: number) => {
+    const phase = bossDef.phases[phaseIndex];
+    // The first phase clears the arena, later ones only replace the sigil ring
+    removeEnemies(e => phaseIndex === 0 || e.isBossSigil === true);
+
+    const { boss } = state;
+    boss.active = true;
+    boss.phaseIndex = phaseIndex;
+    boss.maxSigils = phase.sigils;
+    boss.currentSigils = phase.sigils;
+    boss.attackIndex = 0;
+    boss.shieldSequence = [];
+    boss.nextAttackTime = state.worldTime + phase.attackInterval;
+
+    // Shuffle the symbols and rotate the ring so every fight starts differently
+    const bossSpells = [...BOSS_SPELLS];
+    for (let i = bossSpells.length - 1; i > 0; i--) {
+      const j = Math.floor(rng() * (i + 1));
+      [bossSpells[i], bossSpells[j]] = [bossSpells[j], bossSpells[i]];
+    }
+    const angleOffset = rng() * Math.PI * 2;
+
+    for (let i = 0; i < phase.sigils; i++) {
+      const angle = angleOffset + (i / phase.sigils) * Math.PI * 2;
+      state.enemies.push(createSigil(angle, bossSpells[i % bossSpells.length]));
+    }
+  };
+
+  const performBossAttack = (attack: BossAttack) => {
+    const { boss } = state;
+    const centerX = state.width / 2;
+    const centerY = state.height / 2;
+
+    if (attack.type === 'volley') {
+      const sigils = state.enemies.filter(e => e.isBossSigil);
+      for (let i = 0; i < attack.count && sigils.length > 0; i++) {
+        const source = sigils.splice(Math.floor(rng() * sigils.length), 1)[0];
+        const symbol = attack.symbols[Math.floor(rng() * attack.symbols.length)];
+        const angle = Math.atan2(centerY - source.y, centerX - source.x);
+        state.enemies.push(acquireEnemy({
+          x: source.x,
+          y: source.y,
+          speed: attack.speed * enemySpeed,
+          vx: Math.cos(angle) * attack.speed * enemySpeed,
+          vy: Math.sin(angle) * attack.speed * enemySpeed,
+          symbol,
+          color: getSymbolColor(symbol),
+          radius: PROJECTILE_RADIUS,
+          spawnTime: state.worldTime,
+          isProjectile: true
+        }));
+      }
+    } else if (attack.type === 'regenerate') {
+      const missing = Math.min(attack.count, boss.maxSigils - boss.currentSigils);
+      for (let i = 0; i < missing; i++) {
+        state.enemies.push(createSigil(rng() * Math.PI * 2, BOSS_SPELLS[Math.floor(rng() * BOSS_SPELLS.length)]));
+      }
+      boss.currentSigils += missing;
+      boss.hp += missing;
+    } else if (attack.type === 'shield') {
+      if (boss.shieldSequence.length > 0) return; // Already shielded
+      const pool = [SpellType.HORIZONTAL, SpellType.VERTICAL, ...BOSS_SPELLS];
+      boss.shieldSequence = Array.from({ length: attack.length }, () => pool[Math.floor(rng() * pool.length)]);
+    }
+
+    emit({ type: 'bossAttack', attack: attack.type });
+  };
+
+  const updateEndlessProgress = () => {
+    const stage = Math.floor(state.time / ENDLESS_STAGE_MS);
+    state.level = 1 + stage;
+    state.totalLevelsCleared = config.totalLevelsCleared + stage;
+
+    const nextBiome = (biomeIndex + Math.floor(state.time / ENDLESS_BIOME_MS)) % BIOME_ORDER.length;
+    if (nextBiome !== state.biomeIndex) {
+      state.biomeIndex = nextBiome;
+      emit({ type: 'biomeChanged', biomeIndex: nextBiome });
+    }
+  };
+
+  // --------------------------------------------------------------------------
+  // PUBLIC API
+  // --------------------------------------------------------------------------
+
+  const step = (dt: number) => {
+    if (state.status !== 'playing') return;
+    state.tick += 1;
+    state.time += dt;
+
+    const { skills } = state;
+    SKILL_ORDER.forEach(id => {
+      const skill = skills[id];
+      skill.isUnlocked = !config.skillsLocked && isSkillUnlocked(id, state.totalLevelsCleared);
+      skill.isOnCooldown = skill.lastUsed !== null && state.time < skill.lastUsed + skill.cooldownTime;
+      if (skill.isActive && state.time > skill.activeUntil) {
+        skill.isActive = false;
+        if (id === 'hourglass') state.timeScale = 1.0;
+      }
+    });
+    // Skill timers above stay on the real game clock (the hourglass must not
+    // stretch its own duration); everything in the world below is slowed
+    const worldDt = dt * state.timeScale;
+    state.worldTime += worldDt;
+    const motion = worldDt / FRAME_MS;
+
+    const centerX = state.width / 2;
+    const centerY = state.height / 2;
+
+    if (isEndless) updateEndlessProgress();
+
+    // -- Boss Spawning / Logic --
+    if (isBossLevel) {
+      if (!state.boss.active) spawnBossPhase(0);
+
+      const phase = bossDef.phases[state.boss.phaseIndex];
+      if (state.worldTime >= state.boss.nextAttackTime) {
+        performBossAttack(phase.attacks[state.boss.attackIndex % phase.attacks.length]);
+        state.boss.attackIndex += 1;
+        state.boss.nextAttackTime = state.worldTime + phase.attackInterval;
+      }
+
+      const rotationSpeed = 0.002 * motion;
+      state.enemies.forEach(e => {
+        if (e.isBossSigil) {
+          const dx = e.x - centerX;
+          const dy = e.y - centerY;
+          const dist = Math.sqrt(dx * dx + dy * dy);
+          const angle = Math.atan2(dy, dx) + rotationSpeed;
+          e.x = centerX + Math.cos(angle) * dist;
+          e.y = centerY + Math.sin(angle) * dist;
+        }
+      });
+
+      if (!wave && state.worldTime - lastSpawnTime > (1500 / (1 + biomeIndex * 0.2)) / spawnRate) {
+        spawnEnemy();
+        lastSpawnTime = state.worldTime;
+      }
+    } else if (!wave) {
+      // Normal Spawning - Use Biome Index to increase spawn rate
+      const spawnInterval = 1800 / (1 + (getDifficultyLevel() * 0.1) + (state.biomeIndex * 0.3)) / spawnRate;
+      if (state.worldTime - lastSpawnTime > spawnInterval) {
+        spawnEnemy();
+        lastSpawnTime = state.worldTime;
+      }
+    }
+
+    // Authored schedules keep their timing; spawnRate only affects the formula
+    while (wave && nextWaveSpawn < wave.spawns.length && wave.spawns[nextWaveSpawn].time <= state.worldTime) {
+      spawnScheduled(wave.spawns[nextWaveSpawn++]);
+    }
+
+    // -- Move Enemies --
+    for (let i = state.enemies.length - 1; i >= 0; i--) {
+      const enemy = state.enemies[i];
+      if (enemy.isBossSigil) continue;
+
+      const dx = centerX - enemy.x;
+      const dy = centerY - enemy.y;
+
+      if (enemy.vx !== undefined && enemy.vy !== undefined) {
+        enemy.x += enemy.vx * motion;
+        enemy.y += enemy.vy * motion;
+      } else {
+        moveMonster(enemy, centerX, centerY, motion);
+      }
+
+      if (Math.hypot(dx, dy) < CAT_HIT_RADIUS) {
+        retireEnemy(i);
+
+        if (skills.shield.isActive) {
+          emit({ type: 'shieldBlocked' });
+          continue;
+        }
+
+        state.health -= 1;
+        breakStreak(state.scoring);
+        emit({ type: 'catHit', health: state.health });
+        if (state.health <= 0) {
+          state.status = 'over';
+          emit({ type: 'gameOver', score: state.score });
+          return;
+        }
+      }
+    }
+
+    updateOrbs(centerX, centerY, motion);
+
+    if (skills.chainLightning.isActive && state.time >= nextChainTime) {
+      nextChainTime = state.time + CHAIN_INTERVAL_MS;
+      castChainLightning(centerX, centerY);
+      if (state.status !== 'playing') return;
+    }
+
+    // -- Check Level Progression --
+    // Only check score for levels 1-10. Level 11 is boss mechanics only.
+    // Endless has no target: the run lasts until the cat falls.
+    // Wave levels bring their own goal (score, duration or clearing the schedule),
+    // timed runs just have to last.
+    const isCleared = config.timeLimit !== undefined ? state.time >= config.timeLimit
+      : wave ? isWaveCleared(wave, state.score, state.worldTime, wave.spawns.length - nextWaveSpawn, state.enemies.length)
+      : state.score >= state.targetScore;
+    if (!isBossLevel && !isEndless && isCleared) {
+      state.status = 'complete';
+      emit({ type: 'levelComplete', score: state.score, isBoss: false });
+    }
+  };
+
+  // --------------------------------------------------------------------------
+  // DAMAGE (shared by strokes and skills)
+  // --------------------------------------------------------------------------
+
+  // Takes one symbol off the enemy. Returns true when that was its last one;
+  // the caller removes killed enemies with removeKilled().
+  const hitEnemy = (target: Enemy, killsInStroke: number, confidence: number): boolean => {
+    // Multi-symbol monsters drop their current symbol and reveal the next one
+    if (target.queue && target.queue.length > 0) {
+      target.symbol = target.queue.shift()!;
+      target.color = getSymbolColor(target.symbol);
+      target.lastHitTime = state.time;
+      emit({ type: 'enemyHit', enemy: target });
+      return false;
+    }
+
+    // Score calculation: 10 base * Area Multiplier
+    // Note: This score adds to the LEVEL total.
+    // We use biome index as a rough multiplier for individual kills too.
+    // Tougher monsters pay once per symbol, on the kill. Bonuses: utils/scoring.
+    const symbolCount = target.symbolCount ?? 1;
+    const points = target.isBossSigil || isBossLevel ? 0 : scoreKill(state.scoring, {
+      basePoints: Math.ceil(10 * (1 + state.biomeIndex * 0.5)) * symbolCount,
+      killsInStroke,
+      distanceToCat: Math.hypot(target.x - state.width / 2, target.y - state.height / 2),
+      confidence
+    });
+    state.score += points;
+    emit({ type: 'enemyKilled', enemy: target, points });
+    return true;
+  };
+
+  const removeKilled = (killed: Enemy[]) => {
+    if (killed.length === 0) return;
+    removeEnemies(e => killed.includes(e));
+    killed.forEach(enemy => {
+      splitMonster(enemy);
+      if (!enemy.isBossSigil && !enemy.isProjectile && rng() < ORB_DROP_CHANCE) {
+        state.orbs.push({ id: nextEnemyId++, x: enemy.x, y: enemy.y, value: 1, spawnTime: state.worldTime });
+      }
+    });
+  };
+
+  const damageBoss = (sigilsDestroyed: number) => {
+    const { boss } = state;
+    if (sigilsDestroyed <= 0) return;
+    boss.currentSigils -= sigilsDestroyed;
+    boss.hp -= sigilsDestroyed;
+    if (boss.currentSigils <= 0 && boss.phaseIndex + 1 < bossDef.phases.length) {
+      spawnBossPhase(boss.phaseIndex + 1);
+      emit({ type: 'bossPhase', phase: boss.phaseIndex });
+    } else if (boss.currentSigils <= 0) {
+      // Boss Defeated! Big bonus just for satisfaction, progress is triggered by sigils=0
+      state.score += scoreBossDefeat(state.scoring);
+      state.status = 'complete';
+      emit({ type: 'levelComplete', score: state.score, isBoss: true });
+    }
+  };
+
+  // Strikes the enemy nearest the cat, then jumps to the next nearest one each
+  // time. Sigils are out of reach; the boss has to be fought by hand.
+  const castChainLightning = (centerX: number, centerY: number) => {
+    const candidates = state.enemies.filter(e => !e.isBossSigil);
+    const points: Point[] = [{ x: centerX, y: centerY }];
+    const struck: Enemy[] = [];
+    let from = points[0];
+    for (let i = 0; i < getChainJumps(upgrades) && candidates.length > 0; i++) {
+      let nearest = 0;
+      candidates.forEach((e, j) => {
+        if (Math.hypot(e.x - from.x, e.y - from.y) < Math.hypot(candidates[nearest].x - from.x, candidates[nearest].y - from.y)) nearest = j;
+      });
+      const target = candidates.splice(nearest, 1)[0];
+      struck.push(target);
+      from = { x: target.x, y: target.y };
+      points.push(from);
+    }
+    if (struck.length === 0) return;
+
+    emit({ type: 'chainLightning', points });
+    removeKilled(struck.filter(target => hitEnemy(target, 1, 0)));
+  };
+
+  const updateOrbs = (centerX: number, centerY: number, motion: number) => {
+    const magnet = state.skills.magnet;
+    const magnetRadius = getMagnetRadius(upgrades);
+    state.orbs = state.orbs.filter(orb => {
+      const dx = centerX - orb.x;
+      const dy = centerY - orb.y;
+      const dist = Math.hypot(dx, dy);
+      if (dist < ORB_COLLECT_RADIUS) {
+        state.essence += orb.value;
+        emit({ type: 'orbCollected', orb });
+        return false;
+      }
+      if (state.worldTime - orb.spawnTime > ORB_LIFETIME) return false;
+
+      const speed = magnet.isActive && dist < magnetRadius ? ORB_MAGNET_SPEED : ORB_DRIFT_SPEED;
+      orb.x += (dx / dist) * speed * motion;
+      orb.y += (dy / dist) * speed * motion;
+      return true;
+    });
+  };
+
+  // Returns how many enemies the spell hit (0 = miss). `null` is a stroke the
+  // recognizer rejected: it hits nothing but still breaks the streak.
+  // `confidence` is the recognizer's score for the stroke (accuracy bonus).
+  const castSpell = (spell: SpellType | null, confidence: number = 1): number => {
+    if (state.status !== 'playing') return 0;
+
+    const { boss, scoring } = state;
+    if (spell === null) {
+      breakStreak(scoring);
+      return 0;
+    }
+
+    let shieldHit = 0;
+    if (boss.shieldSequence.length > 0 && boss.shieldSequence[0] === spell) {
+      boss.shieldSequence.shift();
+      shieldHit = 1;
+      if (boss.shieldSequence.length === 0) emit({ type: 'bossShieldBroken' });
+    }
+    const isShielded = boss.shieldSequence.length > 0 || shieldHit > 0;
+
+    // Shielded sigils ignore spells (the breaking cast is absorbed by the shield)
+    const targets = state.enemies.filter(e => e.symbol === spell && !(e.isBossSigil && isShielded));
+    registerCast(scoring, targets.length + shieldHit > 0);
+    if (targets.length === 0) return shieldHit;
+
+    const killsInStroke = targets.filter(t => !t.queue || t.queue.length === 0).length;
+    const killed = targets.filter(target => hitEnemy(target, killsInStroke, confidence));
+    removeKilled(killed);
+    damageBoss(killed.filter(t => t.isBossSigil).length);
+
+    return targets.length + shieldHit;
+  };
+
+  const activateSkill = (id: SkillId): boolean => {
+    const skill = state.skills[id];
+    if (state.status !== 'playing' || !skill.isUnlocked) return false;
+    if (skill.lastUsed !== null && state.time < skill.lastUsed + skill.cooldownTime) return false;
+
+    skill.lastUsed = state.time;
+    skill.isOnCooldown = true;
+    if (SKILL_DEFS[id].duration > 0) {
+      skill.isActive = true;
+      skill.activeUntil = state.time + getSkillDuration(id, upgrades);
+    }
+    emit({ type: 'skillActivated', skill: id });
+
+    if (id === 'hourglass') {
+      state.timeScale = 0.1;
+    } else if (id === 'chainLightning') {
+      nextChainTime = state.time; // First strike on the next step
+    } else if (id === 'heal') {
+      state.health = Math.min(state.maxHealth, state.health + getHealAmount(upgrades));
+      emit({ type: 'healed', health: state.health });
+    } else if (id === 'bomb') {
+      // Clears the field without scoring; upgraded bombs also crack unshielded sigils
+      const sigils = state.boss.shieldSequence.length > 0 ? [] : state.enemies.filter(e => e.isBossSigil).slice(0, getBombSigilDamage(upgrades));
+      removeEnemies(e => !e.isBossSigil || sigils.includes(e));
+      sigils.forEach(enemy => emit({ type: 'enemyKilled', enemy, points: 0 }));
+      damageBoss(sigils.length);
+    }
+    return true;
+  };
+
+  const setViewport = (width: number, height: number) => {
+    state.width = width;
+    state.height = height;
+  };
+
+  const drainEvents = () => {
+    const drained = events;
+    events = [];
+    retiredEnemies.forEach(enemyPool.release);
+    retiredEnemies.length = 0;
+    return drained;
+  };
+
+  return { state, config, step, castSpell, activateSkill, setViewport, drainEvents };
+};
@@ -1,4 +1,5 @@
 import { Point, SpellType } from '../types';
+import { GestureTemplate, matchTemplates } from './templateRecognizer';
 
 // Helper: Distance between two points
 const getDistance = (p1: Point, p2: Point): number => {
@@ -22,9 +23,64 @@ const doLinesIntersect = (a: Point, b: Point, c: Point, d: Point): boolean => {
   return (ccw(a, c, d) !== ccw(b, c, d)) && (ccw(a, b, c) !== ccw(a, b, d));
 };
 
-export const recognizeGesture = (points: Point[]): SpellType | null => {
-  if (points.length < 10) return null; // Need more resolution for complex shapes
+// Helper: Where two segments known to intersect cross (for the debug overlay)
+const getIntersectionPoint = (a: Point, b: Point, c: Point, d: Point): Point => {
+  const denom = (a.x - b.x) * (c.y - d.y) - (a.y - b.y) * (c.x - d.x);
+  if (denom === 0) return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  const t = ((a.x - c.x) * (c.y - d.y) - (a.y - c.y) * (c.x - d.x)) / denom;
+  return { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) };
+};
+
+// Symbol order used by calibration and training
+export const SPELL_ORDER: SpellType[] = [
+  SpellType.HORIZONTAL,
+  SpellType.VERTICAL,
+  SpellType.C_SHAPE,
+  SpellType.SEVEN_SHAPE,
+  SpellType.EIGHT_SHAPE,
+  SpellType.S_SHAPE,
+  SpellType.X_SHAPE,
+  SpellType.LIGHTNING
+];
+
+// Why a stroke failed the heuristics for a symbol (shown in Training)
+export type GestureFailure =
+  | 'tooShort'         // Not enough points
+  | 'notClosed'        // Ends too far from the start
+  | 'notOpen'          // Ends too close to the start
+  | 'noIntersection'   // The stroke never crosses itself
+  | 'selfIntersecting' // The stroke crosses itself
+  | 'tooSmall'
+  | 'aspectRatio'      // Too wide or too tall for the symbol
+  | 'notStraight'
+  | 'tooStraight'
+  | 'wrongStart'       // Starts in the wrong part of the shape
+  | 'wrongEnd'
+  | 'noTopBar'         // 7: the first part isn't horizontal
+  | 'noDownStroke'     // 7: the last part doesn't go down
+  | 'notCurved'        // C and S: the curve doesn't bulge far enough
+  | 'noZigzag'
+  | 'wrongDirection';
+
+interface GestureFeatures {
+  points: Point[];
+  start: Point;
+  end: Point;
+  minX: number;
+  minY: number;
+  maxY: number;
+  width: number;
+  height: number;
+  totalLength: number;
+  startEndDist: number;
+  aspectRatio: number;
+  linearity: number;
+  intersections: Point[];
+  intersectionCount: number;
+  isClosed: boolean;
+}
 
+const measureGesture = (points: Point[]): GestureFeatures => {
   const start = points[0];
   const end = points[points.length - 1];
   const totalLength = getPathLength(points);
@@ -42,119 +98,243 @@ export const recognizeGesture = (points: Point[]): SpellType | null => {
   
   const width = maxX - minX;
   const height = maxY - minY;
-  const aspectRatio = width / (height || 1); 
-  const linearity = startEndDist / (totalLength || 1);
 
   // -- INTERSECTION CHECK --
   // Needed for X and 8
-  let intersectionCount = 0;
+  const intersections: Point[] = [];
   const stride = 2;
   // Only check intersections if the gesture is complex enough
   if (totalLength > 60) {
       for (let i = 0; i < points.length - stride - 1; i += stride) {
           for (let j = i + stride + 2; j < points.length - stride - 1; j += stride) {
               if (doLinesIntersect(points[i], points[i+stride], points[j], points[j+stride])) {
-                  intersectionCount++;
+                  intersections.push(getIntersectionPoint(points[i], points[i+stride], points[j], points[j+stride]));
               }
           }
       }
   }
 
-  // -- 1. "8" SHAPE (New) --
-  // Closed loop (start near end) AND has intersection.
-  // 8 usually crosses in the middle.
-  const isClosed = startEndDist < totalLength * 0.25;
-  if (isClosed && intersectionCount >= 1 && height > 30) {
-      return SpellType.EIGHT_SHAPE;
+  return {
+    points, start, end, minX, minY, maxY, width, height, totalLength, startEndDist,
+    aspectRatio: width / (height || 1),
+    linearity: startEndDist / (totalLength || 1),
+    intersections,
+    intersectionCount: intersections.length,
+    isClosed: startEndDist < totalLength * 0.25
+  };
+};
+
+type HeuristicCheck = [GestureFailure, (f: GestureFeatures) => boolean];
+
+const noIntersection: HeuristicCheck = ['selfIntersecting', f => f.intersectionCount === 0];
+
+// 7: the first 40% of the stroke moves mostly sideways...
+const isFirstPartHorizontal = ({ points }: GestureFeatures) => {
+  const firstPart = points.slice(0, Math.floor(points.length * 0.4));
+  let dx1 = 0, dy1 = 0;
+  for(let i=1; i<firstPart.length; i++) {
+      dx1 += Math.abs(firstPart[i].x - firstPart[i-1].x);
+      dy1 += Math.abs(firstPart[i].y - firstPart[i-1].y);
   }
+  return dx1 > dy1 * 1.5;
+};
 
+// ...and the rest goes down (vertical or diagonal)
+const doesLastPartGoDown = ({ points, height }: GestureFeatures) => {
+  const lastPart = points.slice(Math.floor(points.length * 0.4));
+  return lastPart[lastPart.length - 1].y > lastPart[0].y + (height * 0.4);
+};
+
+// S: bulges left in the first half and right in the second
+const isSCurved = ({ points, start, end, width }: GestureFeatures) => {
+  const firstHalf = points.slice(0, Math.floor(points.length/2));
+  const secondHalf = points.slice(Math.floor(points.length/2));
+  
+  let minX1 = Infinity; firstHalf.forEach(p => minX1 = Math.min(minX1, p.x));
+  let maxX2 = -Infinity; secondHalf.forEach(p => maxX2 = Math.max(maxX2, p.x));
+  
+  const goesLeft = minX1 < start.x - (width * 0.15);
+  const goesRight = maxX2 > end.x + (width * 0.15);
+  return goesLeft && goesRight;
+};
+
+const getXTravelRatio = ({ points, width }: GestureFeatures) => {
+  let totalAbsDx = 0;
+  for(let i=1; i<points.length; i++) totalAbsDx += Math.abs(points[i].x - points[i-1].x);
+  return totalAbsDx / (width || 1);
+};
+
+// Tried in this order; the first symbol whose checks all pass wins
+const HEURISTICS: [SpellType, HeuristicCheck[]][] = [
+  // -- 1. "8" SHAPE --
+  // Closed loop (start near end) AND has intersection.
+  // 8 usually crosses in the middle.
+  [SpellType.EIGHT_SHAPE, [
+    ['notClosed', f => f.isClosed],
+    ['noIntersection', f => f.intersectionCount >= 1],
+    ['tooSmall', f => f.height > 30]
+  ]],
   // -- 2. X SHAPE --
   // Open shape (start far from end) AND has intersection.
-  if (!isClosed && intersectionCount >= 1 && aspectRatio > 0.4 && aspectRatio < 2.5) {
-      return SpellType.X_SHAPE;
-  }
-
+  [SpellType.X_SHAPE, [
+    ['notOpen', f => !f.isClosed],
+    ['noIntersection', f => f.intersectionCount >= 1],
+    ['aspectRatio', f => f.aspectRatio > 0.4 && f.aspectRatio < 2.5]
+  ]],
   // -- 3. LINEAR SHAPES (Horizontal / Vertical) --
-  if (linearity > 0.85 && intersectionCount === 0) {
-      if (width > height * 1.5) return SpellType.HORIZONTAL;
-      if (height > width * 1.5) return SpellType.VERTICAL;
-  }
-
+  [SpellType.HORIZONTAL, [
+    ['notStraight', f => f.linearity > 0.85],
+    noIntersection,
+    ['aspectRatio', f => f.width > f.height * 1.5]
+  ]],
+  [SpellType.VERTICAL, [
+    ['notStraight', f => f.linearity > 0.85],
+    noIntersection,
+    ['aspectRatio', f => f.height > f.width * 1.5]
+  ]],
   // -- 4. "7" SHAPE (Replaces T) --
   // Horizontal Top (Left->Right) then Diagonal/Vertical Down.
   // Start Top-Left, End Bottom-Right or Bottom-Center.
-  if (start.y < minY + height * 0.3 && width > 20 && height > 20 && intersectionCount === 0) {
-      // Analyze first 40% vs last 40%
-      const splitIndex = Math.floor(points.length * 0.4);
-      const firstPart = points.slice(0, splitIndex);
-      const lastPart = points.slice(splitIndex);
-
-      // First part: Mostly Horizontal movement
-      let dx1 = 0, dy1 = 0;
-      for(let i=1; i<firstPart.length; i++) {
-          dx1 += Math.abs(firstPart[i].x - firstPart[i-1].x);
-          dy1 += Math.abs(firstPart[i].y - firstPart[i-1].y);
-      }
-      
-      const isFirstHorizontal = dx1 > dy1 * 1.5;
-      
-      // Last part: Downward movement (Vertical or Diagonal)
-      const lastStart = lastPart[0];
-      const lastEnd = lastPart[lastPart.length - 1];
-      const goesDown = lastEnd.y > lastStart.y + (height * 0.4);
-      
-      if (isFirstHorizontal && goesDown) {
-          return SpellType.SEVEN_SHAPE;
-      }
-  }
-
+  [SpellType.SEVEN_SHAPE, [
+    ['wrongStart', f => f.start.y < f.minY + f.height * 0.3],
+    ['tooSmall', f => f.width > 20 && f.height > 20],
+    noIntersection,
+    ['noTopBar', isFirstPartHorizontal],
+    ['noDownStroke', doesLastPartGoDown]
+  ]],
   // -- 5. C SHAPE --
-  // Open curve, Gap on Right. 
-  const isOpen = startEndDist > totalLength * 0.2; 
-  if (isOpen && intersectionCount === 0) {
-      const startRight = start.x > minX + width * 0.5;
-      const endRight = end.x > minX + width * 0.5;
-      const midPoint = points[Math.floor(points.length/2)];
-      const midLeft = midPoint.x < minX + width * 0.4;
-
-      if (startRight && endRight && midLeft && height > width * 0.5) {
-          return SpellType.C_SHAPE;
-      }
-  }
-
+  // Open curve, Gap on Right.
+  [SpellType.C_SHAPE, [
+    ['notOpen', f => f.startEndDist > f.totalLength * 0.2],
+    noIntersection,
+    ['wrongStart', f => f.start.x > f.minX + f.width * 0.5],
+    ['wrongEnd', f => f.end.x > f.minX + f.width * 0.5],
+    ['notCurved', f => f.points[Math.floor(f.points.length/2)].x < f.minX + f.width * 0.4],
+    ['aspectRatio', f => f.height > f.width * 0.5]
+  ]],
   // -- 6. S SHAPE --
   // Start Top-Rightish -> Left Curve -> Right Curve -> End Bottom-Leftish
-  if (height > 30 && intersectionCount === 0) {
-      const startTop = start.y < minY + height * 0.3;
-      const endBottom = end.y > maxY - height * 0.3;
-      
-      if (startTop && endBottom) {
-          const firstHalf = points.slice(0, Math.floor(points.length/2));
-          const secondHalf = points.slice(Math.floor(points.length/2));
-          
-          let minX1 = Infinity; firstHalf.forEach(p => minX1 = Math.min(minX1, p.x));
-          let maxX2 = -Infinity; secondHalf.forEach(p => maxX2 = Math.max(maxX2, p.x));
-          
-          const goesLeft = minX1 < start.x - (width * 0.15);
-          const goesRight = maxX2 > end.x + (width * 0.15);
-
-          if (goesLeft && goesRight) {
-              return SpellType.S_SHAPE;
-          }
-      }
-  }
-
+  [SpellType.S_SHAPE, [
+    ['tooSmall', f => f.height > 30],
+    noIntersection,
+    ['wrongStart', f => f.start.y < f.minY + f.height * 0.3],
+    ['wrongEnd', f => f.end.y > f.maxY - f.height * 0.3],
+    ['notCurved', isSCurved]
+  ]],
   // -- 7. LIGHTNING (Z) --
   // Zig Zag Horizontal
-  let totalAbsDx = 0;
-  for(let i=1; i<points.length; i++) totalAbsDx += Math.abs(points[i].x - points[i-1].x);
-  const xTravelRatio = totalAbsDx / (width || 1);
-  
-  if (xTravelRatio > 2.0 && start.y < end.y && linearity < 0.8 && intersectionCount === 0) {
-      return SpellType.LIGHTNING;
+  [SpellType.LIGHTNING, [
+    ['noZigzag', f => getXTravelRatio(f) > 2.0],
+    ['wrongDirection', f => f.start.y < f.end.y],
+    ['tooStraight', f => f.linearity < 0.8],
+    noIntersection
+  ]]
+];
+
+// Need more resolution for complex shapes
+const MIN_HEURISTIC_POINTS = 10;
+
+// The heuristics (point-count checks, the intersection stride) were tuned on
+// strokes sampled every 5 px. Capture is denser now (utils/pointerStrokes), and
+// at 2 px hand tremor reads as self-intersections, so strokes are thinned
+// back to that spacing first.
+const HEURISTIC_POINT_SPACING = 5;
+
+const spacePoints = (points: Point[]): Point[] => {
+  const spaced = points.slice(0, 1);
+  points.forEach(p => {
+    if (getDistance(spaced[spaced.length - 1], p) >= HEURISTIC_POINT_SPACING) spaced.push(p);
+  });
+  return spaced;
+};
+
+export const recognizeGesture = (stroke: Point[]): SpellType | null => {
+  const points = spacePoints(stroke);
+  if (points.length < MIN_HEURISTIC_POINTS) return null;
+  const features = measureGesture(points);
+  const match = HEURISTICS.find(([, checks]) => checks.every(([, test]) => test(features)));
+  return match ? match[0] : null;
+};
+
+// First heuristic the stroke fails for `target`, or null if it passes them all
+// (it may still have been read as a symbol that is tried earlier)
+export const diagnoseGesture = (stroke: Point[], target: SpellType): GestureFailure | null => {
+  const points = spacePoints(stroke);
+  if (points.length < MIN_HEURISTIC_POINTS) return 'tooShort';
+  const features = measureGesture(points);
+  const [, checks] = HEURISTICS.find(([type]) => type === target)!;
+  const failed = checks.find(([, test]) => !test(features));
+  return failed ? failed[0] : null;
+};
+
+// What the debug overlay shows: the measured features, and every symbol the
+// heuristics tried, in order, with the check it failed (null for the match)
+export interface GestureExplanation {
+  bounds: { x: number; y: number; width: number; height: number };
+  start: Point;
+  end: Point;
+  intersections: Point[];
+  linearity: number;
+  aspectRatio: number;
+  intersectionCount: number;
+  xTravelRatio: number;
+  isClosed: boolean;
+  path: { type: SpellType; failure: GestureFailure | null }[];
+}
+
+// Null when the stroke is too short for the heuristics to run at all
+export const explainGesture = (stroke: Point[]): GestureExplanation | null => {
+  const points = spacePoints(stroke);
+  if (points.length < MIN_HEURISTIC_POINTS) return null;
+  const features = measureGesture(points);
+  const path: GestureExplanation['path'] = [];
+  for (const [type, checks] of HEURISTICS) {
+    const failed = checks.find(([, test]) => !test(features));
+    path.push({ type, failure: failed ? failed[0] : null });
+    if (!failed) break;
+  }
+  return {
+    bounds: { x: features.minX, y: features.minY, width: features.width, height: features.height },
+    start: features.start,
+    end: features.end,
+    intersections: features.intersections,
+    linearity: features.linearity,
+    aspectRatio: features.aspectRatio,
+    intersectionCount: features.intersectionCount,
+    xTravelRatio: getXTravelRatio(features),
+    isClosed: features.isClosed,
+    path
+  };
+};
+
+export type RecognizerMode = 'template' | 'heuristic' | 'hybrid';
+
+export interface GestureResult {
+  type: SpellType;
+  confidence: number; // 0..1
+  source: 'template' | 'heuristic';
+}
+
+// Template matches below this are handed to the heuristics (hybrid) or rejected (template)
+export const MIN_TEMPLATE_CONFIDENCE = 0.7;
+
+export const classifyGesture = (
+  points: Point[],
+  templates: GestureTemplate[],
+  mode: RecognizerMode = 'hybrid',
+  minConfidence: number = MIN_TEMPLATE_CONFIDENCE // Lowered by the relaxed-gestures assist
+): GestureResult | null => {
+  if (mode !== 'heuristic') {
+    const match = matchTemplates(points, templates);
+    if (match && match.score >= minConfidence) {
+      return { type: match.type, confidence: match.score, source: 'template' };
+    }
+    if (mode === 'template') return null;
   }
 
-  return null;
+  // Heuristics are yes/no, so report them at the bar a template has to clear
+  const heuristic = recognizeGesture(points);
+  return heuristic ? { type: heuristic, confidence: MIN_TEMPLATE_CONFIDENCE, source: 'heuristic' } : null;
 };
 
 export const getSymbolIcon = (type: SpellType): string => {
@@ -0,0 +1,129 @@
+import { SpellType, TimedPoint } from '../types';
+import { GestureExplanation, GestureResult, explainGesture, getSymbolIcon } from './gesture';
+import { GestureTemplate, TemplateMatch, matchTemplates } from './templateRecognizer';
+
+// Developer overlay for tuning the recognizer. Opened with ?debug=gestures or
+// toggled in play with the backquote key; it keeps the last strokes so they
+// can be saved as fixtures and replayed against recognizer changes.
+
+export const GESTURE_DEBUG_KEY = 'Backquote';
+const GESTURE_LOG_SIZE = 20;
+const FIXTURE_VERSION = 1;
+
+export const isGestureDebugRequested = (): boolean =>
+  (new URLSearchParams(window.location.search).get('debug') ?? '').split(',').includes('gestures');
+
+export interface GestureTrace {
+  points: TimedPoint[];
+  template: TemplateMatch | null; // Best template, whether or not it cleared the bar
+  minConfidence: number;
+  heuristics: GestureExplanation | null; // Null when the stroke was too short for them
+  result: GestureResult | null; // What the game actually cast
+}
+
+export const traceGesture = (points: TimedPoint[], templates: GestureTemplate[], minConfidence: number, result: GestureResult | null): GestureTrace => ({
+  points,
+  template: matchTemplates(points, templates),
+  minConfidence,
+  heuristics: explainGesture(points),
+  result
+});
+
+export const appendTrace = (log: GestureTrace[], trace: GestureTrace): GestureTrace[] => [...log, trace].slice(-GESTURE_LOG_SIZE);
+
+// The hybrid recognizer's steps as text, one per line
+export const describeDecision = ({ template, minConfidence, heuristics, result }: GestureTrace): string[] => {
+  const lines: string[] = [];
+  if (template) {
+    const cleared = template.score >= minConfidence;
+    lines.push(`template ${getSymbolIcon(template.type)} ${template.score.toFixed(2)} ${cleared ? '≥' : '<'} ${minConfidence.toFixed(2)}`);
+  } else {
+    lines.push('template: no match');
+  }
+  if (result?.source !== 'template') {
+    if (!heuristics) lines.push('heuristics: too few points');
+    heuristics?.path.forEach(({ type, failure }) => lines.push(`${getSymbolIcon(type)} ${failure ? `✗ ${failure}` : '✓'}`));
+  }
+  lines.push(`→ ${result ? `${getSymbolIcon(result.type)} (${result.source})` : 'none'}`);
+  return lines;
+};
+
+// --------------------------------------------------------------------------
+// RENDERING
+// --------------------------------------------------------------------------
+
+// Drawn over the scene: stroke samples, bounding box, start/end and crossings
+export const drawGestureDebug = (ctx: CanvasRenderingContext2D, { points, heuristics }: GestureTrace) => {
+  if (points.length === 0) return;
+  ctx.save();
+
+  ctx.strokeStyle = 'rgba(255,255,255,0.6)';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  points.forEach(p => ctx.lineTo(p.x, p.y));
+  ctx.stroke();
+  ctx.fillStyle = 'rgba(255,255,255,0.8)';
+  points.forEach(p => ctx.fillRect(p.x - 1.5, p.y - 1.5, 3, 3));
+
+  if (heuristics) {
+    const { bounds, start, end, intersections } = heuristics;
+    ctx.strokeStyle = 'rgba(96,165,250,0.8)';
+    ctx.setLineDash([4, 4]);
+    ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    ctx.setLineDash([]);
+
+    ctx.fillStyle = '#4ade80';
+    ctx.beginPath();
+    ctx.arc(start.x, start.y, 6, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#f87171';
+    ctx.fillRect(end.x - 5, end.y - 5, 10, 10);
+
+    ctx.strokeStyle = '#fde047';
+    ctx.lineWidth = 2;
+    intersections.forEach(({ x, y }) => {
+      ctx.beginPath();
+      ctx.moveTo(x - 5, y - 5); ctx.lineTo(x + 5, y + 5);
+      ctx.moveTo(x + 5, y - 5); ctx.lineTo(x - 5, y + 5);
+      ctx.stroke();
+    });
+  }
+
+  ctx.restore();
+};
+
+// --------------------------------------------------------------------------
+// FIXTURES
+// --------------------------------------------------------------------------
+
+// `expected` starts as what the recognizer said; fix it by hand where it was wrong
+export interface GestureFixture {
+  expected: SpellType | null;
+  source: GestureResult['source'] | null;
+  confidence: number;
+  points: [number, number, number][]; // x, y, ms since the stroke began
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const encodeGestureFixtures = (traces: GestureTrace[]): string => JSON.stringify({
+  version: FIXTURE_VERSION,
+  minConfidence: traces[0]?.minConfidence ?? null,
+  strokes: traces.map((trace): GestureFixture => ({
+    expected: trace.result?.type ?? null,
+    source: trace.result?.source ?? null,
+    confidence: Math.round((trace.result?.confidence ?? 0) * 100) / 100,
+    points: trace.points.map(p => [round(p.x), round(p.y), Math.round(p.t)])
+  }))
+}, null, 2);
+
+export const downloadGestureFixtures = (traces: GestureTrace[]) => {
+  const blob = new Blob([encodeGestureFixtures(traces)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `catsalom-gestures-${new Date().toISOString().slice(0, 19).replace(/:/g, '')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
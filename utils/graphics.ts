@@ -0,0 +1,118 @@
+// Graphics quality presets, resolved into one config the scene renderer reads.
+// Auto starts at the top and steps down whenever frames stay over budget.
+
+const STORAGE_KEY = 'catsalom.graphics.v1';
+
+export type GraphicsQuality = 'low' | 'medium' | 'high';
+export type GraphicsPreset = GraphicsQuality | 'auto';
+
+export interface GraphicsSettings {
+  preset: GraphicsPreset;
+  showFps: boolean; // Frame rate and frame time overlay
+}
+
+// How glows are drawn: real canvas shadows, pre-rendered sprites, or not at all
+export type GlowMode = 'blur' | 'sprite' | 'none';
+
+export interface QualityConfig {
+  quality: GraphicsQuality;
+  maxPixelRatio: number; // Cap on devicePixelRatio for the canvas backing store
+  glow: GlowMode;
+  maxParticles: number;
+}
+
+export const QUALITY_CONFIG: Record<GraphicsQuality, QualityConfig> = {
+  low: { quality: 'low', maxPixelRatio: 1, glow: 'none', maxParticles: 80 },
+  medium: { quality: 'medium', maxPixelRatio: 1.5, glow: 'sprite', maxParticles: 200 },
+  high: { quality: 'high', maxPixelRatio: 2, glow: 'blur', maxParticles: 400 }
+};
+
+// Lowest first; auto walks this backwards
+export const QUALITY_ORDER: GraphicsQuality[] = ['low', 'medium', 'high'];
+export const GRAPHICS_PRESETS: GraphicsPreset[] = ['auto', ...QUALITY_ORDER];
+
+export const DEFAULT_GRAPHICS: GraphicsSettings = { preset: 'auto', showFps: false };
+
+// Backing store size in device pixels for a viewport in CSS pixels
+export const getPixelRatio = (config: QualityConfig): number =>
+  Math.min(window.devicePixelRatio || 1, config.maxPixelRatio);
+
+// --------------------------------------------------------------------------
+// FRAME MONITOR
+// --------------------------------------------------------------------------
+
+// Average frame time auto tolerates before stepping down (about 45 fps)
+const FRAME_BUDGET_MS = 1000 / 45;
+// Frames averaged per decision; the window restarts after every downgrade so
+// the new level gets a fair measurement
+const SAMPLE_FRAMES = 90;
+// Longer gaps are stalls (tab switch, GC, level load), not render cost
+const MAX_SAMPLE_MS = 200;
+
+export interface FrameStats {
+  fps: number;
+  frameMs: number; // Average over the window
+  worstMs: number;
+}
+
+export interface QualityGovernor {
+  // Records one rendered frame and returns the config to draw it with
+  sample: (frameMs: number) => QualityConfig;
+  stats: () => FrameStats;
+}
+
+export const createQualityGovernor = (preset: GraphicsPreset): QualityGovernor => {
+  let level = preset === 'auto' ? QUALITY_ORDER.length - 1 : QUALITY_ORDER.indexOf(preset);
+  let samples: number[] = [];
+
+  const stats = (): FrameStats => {
+    if (samples.length === 0) return { fps: 0, frameMs: 0, worstMs: 0 };
+    const frameMs = samples.reduce((sum, ms) => sum + ms, 0) / samples.length;
+    return { fps: 1000 / frameMs, frameMs, worstMs: Math.max(...samples) };
+  };
+
+  const sample = (frameMs: number): QualityConfig => {
+    if (frameMs > 0 && frameMs < MAX_SAMPLE_MS) {
+      samples.push(frameMs);
+      if (samples.length > SAMPLE_FRAMES) samples.shift();
+    }
+    if (preset === 'auto' && level > 0 && samples.length === SAMPLE_FRAMES && stats().frameMs > FRAME_BUDGET_MS) {
+      level--;
+      samples = [];
+    }
+    return QUALITY_CONFIG[QUALITY_ORDER[level]];
+  };
+
+  return { sample, stats };
+};
+
+// --------------------------------------------------------------------------
+// PERSISTENCE
+// --------------------------------------------------------------------------
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isGraphicsPreset = (value: unknown): value is GraphicsPreset => GRAPHICS_PRESETS.includes(value as GraphicsPreset);
+
+export const loadGraphics = (): GraphicsSettings => {
+  let saved: unknown = null;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    saved = raw ? JSON.parse(raw) : null;
+  } catch {
+    // Unreadable settings: start from the defaults
+  }
+  const { preset, showFps } = isRecord(saved) ? saved : {};
+  return {
+    preset: isGraphicsPreset(preset) ? preset : DEFAULT_GRAPHICS.preset,
+    showFps: typeof showFps === 'boolean' ? showFps : DEFAULT_GRAPHICS.showFps
+  };
+};
+
+export const saveGraphics = (settings: GraphicsSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage full or disabled: settings last for this session only
+  }
+};
@@ -0,0 +1,61 @@
+// Local campaign high-score table: one row per cat (its best run), top 10.
+// Endless runs have their own per-run table in leaderboard.ts.
+
+const STORAGE_KEY = 'catsalom.highscores.v1';
+export const HIGH_SCORE_SIZE = 10;
+
+export interface HighScoreEntry {
+  catName: string;
+  score: number;
+  levelsCleared: number;
+  biomeReached: number; // Index into BIOME_ORDER
+  recordedAt: number;
+}
+
+export interface HighScoreResult {
+  entries: HighScoreEntry[];
+  rank: number | null; // 0-based row of the submitting cat, null if it isn't in the table
+  isNewBest: boolean; // The submitted run replaced (or created) the cat's row
+}
+
+// Names are compared case-insensitively, like calibration profiles
+const catKey = (name: string) => name.trim().toLowerCase();
+
+const isEntry = (e: unknown): e is HighScoreEntry => {
+  if (typeof e !== 'object' || e === null) return false;
+  const entry = e as Record<string, unknown>;
+  return typeof entry.catName === 'string' && typeof entry.score === 'number'
+    && typeof entry.levelsCleared === 'number' && typeof entry.biomeReached === 'number'
+    && typeof entry.recordedAt === 'number';
+};
+
+export const loadHighScores = (): HighScoreEntry[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(isEntry) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const submitHighScore = (run: Omit<HighScoreEntry, 'recordedAt'>): HighScoreResult => {
+  const key = catKey(run.catName);
+  const current = loadHighScores();
+  const previous = current.find(e => catKey(e.catName) === key);
+  const isNewBest = !previous || run.score > previous.score;
+
+  let entries = current;
+  if (isNewBest) {
+    entries = [...current.filter(e => catKey(e.catName) !== key), { ...run, recordedAt: Date.now() }];
+  }
+  entries = [...entries].sort((a, b) => b.score - a.score || a.recordedAt - b.recordedAt).slice(0, HIGH_SCORE_SIZE);
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // Storage full or disabled: the table is still shown for this session
+  }
+  const rank = entries.findIndex(e => catKey(e.catName) === key);
+  return { entries, rank: rank === -1 ? null : rank, isNewBest };
+};
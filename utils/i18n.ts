@@ -0,0 +1,135 @@
+import { Language } from '../types';
+import { en } from '../locales/en';
+import { pt } from '../locales/pt';
+import { es } from '../locales/es';
+import { fr } from '../locales/fr';
+import { ja } from '../locales/ja';
+
+// Message catalog. Each locale file maps the same dotted keys to text, with
+// {name} placeholders; English is the reference and the fallback for keys a
+// locale hasn't translated yet (findMissingKeys lists them at build time).
+
+// Plural forms by Intl.PluralRules category, chosen by the `count` param
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, Message>;
+export type LocaleMessages = Partial<Catalog>;
+export type MessageParams = Record<string, string | number>;
+
+// Text that comes with its own translations instead of a catalog key (e.g. a
+// boss renamed in a wave file)
+export type LocalizedText = Partial<Record<Language, string>>;
+
+export const LANGUAGES: Language[] = ['pt', 'en', 'es', 'fr', 'ja'];
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  pt: 'Português',
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+  ja: '日本語'
+};
+
+// BCP 47 tags for <html lang> and Intl
+const LANGUAGE_TAGS: Record<Language, string> = { pt: 'pt-BR', en: 'en', es: 'es', fr: 'fr', ja: 'ja' };
+
+const CATALOGS: Record<Language, LocaleMessages> = { pt, en, es, fr, ja };
+
+const FALLBACK_LANGUAGE: Language = 'en';
+const STORAGE_KEY = 'catsalom.language.v1';
+
+export const isLanguage = (value: unknown): value is Language => LANGUAGES.includes(value as Language);
+
+export const getLanguageTag = (language: Language): string => LANGUAGE_TAGS[language];
+
+// First of the browser's preferred languages we have a catalog for
+export const detectLanguage = (preferred: readonly string[] = navigator.languages ?? [navigator.language]): Language => {
+  for (const tag of preferred) {
+    const base = tag.toLowerCase().split('-')[0];
+    if (isLanguage(base)) return base;
+  }
+  return FALLBACK_LANGUAGE;
+};
+
+// --------------------------------------------------------------------------
+// TRANSLATION
+// --------------------------------------------------------------------------
+
+const pluralRules = new Map<Language, Intl.PluralRules>();
+
+const getPluralRules = (language: Language): Intl.PluralRules => {
+  if (!pluralRules.has(language)) pluralRules.set(language, new Intl.PluralRules(LANGUAGE_TAGS[language]));
+  return pluralRules.get(language)!;
+};
+
+const resolveMessage = (language: Language, key: MessageKey, params?: Record<string, unknown>): string => {
+  const message: Message = CATALOGS[language][key] ?? en[key];
+  if (typeof message === 'string') return message;
+  const count = params?.count;
+  return typeof count === 'number' ? message[getPluralRules(language).select(count)] ?? message.other : message.other;
+};
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+export interface Translator {
+  (key: MessageKey, params?: MessageParams): string;
+  // Same, but placeholders may be anything (e.g. a React node) and come back
+  // in place, so text around a styled name still reads in the right order
+  parts: <T>(key: MessageKey, params: Record<string, T>) => (string | T)[];
+  language: Language;
+}
+
+export const createTranslator = (language: Language): Translator => {
+  const t = ((key, params) => resolveMessage(language, key, params)
+    .replace(PLACEHOLDER, (match, name: string) => params && name in params ? String(params[name]) : match)) as Translator;
+
+  t.parts = (key, params) => resolveMessage(language, key, params)
+    .split(/(\{\w+\})/)
+    .filter(chunk => chunk !== '')
+    .map(chunk => {
+      const name = chunk.match(/^\{(\w+)\}$/)?.[1];
+      return name !== undefined && name in params ? params[name] : chunk;
+    });
+
+  t.language = language;
+  return t;
+};
+
+export const localize = (text: LocalizedText, language: Language): string =>
+  text[language] ?? text[FALLBACK_LANGUAGE] ?? Object.values(text).find(value => value !== undefined) ?? '';
+
+// Keys each locale hasn't translated yet (English is complete by definition)
+export const findMissingKeys = (): Partial<Record<Language, MessageKey[]>> => {
+  const keys = Object.keys(en) as MessageKey[];
+  const missing: Partial<Record<Language, MessageKey[]>> = {};
+  LANGUAGES.forEach(language => {
+    const absent = keys.filter(key => CATALOGS[language][key] === undefined);
+    if (absent.length > 0) missing[language] = absent;
+  });
+  return missing;
+};
+
+// --------------------------------------------------------------------------
+// PERSISTENCE
+// --------------------------------------------------------------------------
+
+// Null until the player picks a language; the save game keeps its own copy
+export const loadLanguage = (): Language | null => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return isLanguage(saved) ? saved : null;
+  } catch {
+    // Storage disabled: fall back to detection
+    return null;
+  }
+};
+
+export const saveLanguage = (language: Language) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, language);
+  } catch {
+    // Storage full or disabled: the choice lasts this session only
+  }
+};
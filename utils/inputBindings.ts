@@ -0,0 +1,162 @@
+import { SkillId, SpellType } from '../types';
+import { SKILL_ORDER } from './skills';
+
+// Keyboard and gamepad bindings for skills and pause, and, when the player turns
+// casting with buttons on, for every spell so it can be cast without drawing.
+// Keys are stored as KeyboardEvent.code (layout independent), gamepad buttons
+// as indices in the browser's "standard" mapping.
+
+const STORAGE_KEY = 'catsalom.bindings.v1';
+
+export type BindingAction = SpellType | SkillId | 'pause';
+export type InputDevice = 'keyboard' | 'gamepad';
+
+export interface InputBindings {
+  keyboard: Record<BindingAction, string>;
+  gamepad: Record<BindingAction, number>;
+  // Spell bindings only work with this on, and only in the campaign: the Daily
+  // Challenge and the Endless leaderboard are for drawn symbols
+  castWithButtons: boolean;
+}
+
+// Order shown in the tutorial
+export const BINDING_ACTIONS: BindingAction[] = [...Object.values(SpellType), ...SKILL_ORDER, 'pause'];
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  keyboard: {
+    [SpellType.HORIZONTAL]: 'KeyQ',
+    [SpellType.VERTICAL]: 'KeyW',
+    [SpellType.C_SHAPE]: 'KeyE',
+    [SpellType.SEVEN_SHAPE]: 'KeyR',
+    [SpellType.EIGHT_SHAPE]: 'KeyA',
+    [SpellType.S_SHAPE]: 'KeyS',
+    [SpellType.X_SHAPE]: 'KeyD',
+    [SpellType.LIGHTNING]: 'KeyF',
+    shield: 'Digit1',
+    heal: 'Digit2',
+    hourglass: 'Digit3',
+    magnet: 'Digit4',
+    bomb: 'Digit5',
+    chainLightning: 'Digit6',
+    pause: 'Escape'
+  },
+  // Face buttons, shoulders and triggers cast; the d-pad and stick clicks fire skills
+  gamepad: {
+    [SpellType.HORIZONTAL]: 0,
+    [SpellType.VERTICAL]: 1,
+    [SpellType.C_SHAPE]: 2,
+    [SpellType.SEVEN_SHAPE]: 3,
+    [SpellType.EIGHT_SHAPE]: 4,
+    [SpellType.S_SHAPE]: 5,
+    [SpellType.X_SHAPE]: 6,
+    [SpellType.LIGHTNING]: 7,
+    shield: 12,
+    heal: 13,
+    hourglass: 14,
+    magnet: 15,
+    bomb: 10,
+    chainLightning: 11,
+    pause: 9
+  },
+  castWithButtons: false
+};
+
+const BUTTON_LABELS = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Select', 'Start', 'L3', 'R3', '↑', '↓', '←', '→'];
+
+export const isSpellAction = (action: BindingAction): action is SpellType =>
+  (Object.values(SpellType) as string[]).includes(action);
+
+export const formatKey = (code: string): string => {
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code === 'Escape') return 'Esc';
+  if (code === 'Space') return '␣';
+  return code.replace(/^Arrow/, '');
+};
+
+export const formatButton = (index: number): string => BUTTON_LABELS[index] ?? `#${index}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Each action keeps its saved key/button when it is the right kind, else the default
+const pickBindings = <T extends string | number>(saved: unknown, defaults: Record<BindingAction, T>, isValid: (value: unknown) => value is T) =>
+  Object.fromEntries(BINDING_ACTIONS.map(action => {
+    const value = isRecord(saved) ? saved[action] : undefined;
+    return [action, isValid(value) ? value : defaults[action]];
+  })) as Record<BindingAction, T>;
+
+const isKeyCode = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+const isButtonIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+// Saved bindings are merged over the defaults so new actions get a binding
+export const loadBindings = (): InputBindings => {
+  let saved: unknown = null;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    saved = raw ? JSON.parse(raw) : null;
+  } catch {
+    // Unreadable: every action falls back to its default
+  }
+  const { keyboard, gamepad, castWithButtons } = isRecord(saved) ? saved : {};
+  return {
+    keyboard: pickBindings(keyboard, DEFAULT_BINDINGS.keyboard, isKeyCode),
+    gamepad: pickBindings(gamepad, DEFAULT_BINDINGS.gamepad, isButtonIndex),
+    castWithButtons: castWithButtons === true
+  };
+};
+
+export const saveBindings = (bindings: InputBindings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch {
+    // Storage full or disabled: bindings last for this session only
+  }
+};
+
+// Assigns a key/button to an action. If another action already used it, the
+// two swap, so no action is ever left unbound or bound twice.
+export const rebind = <D extends InputDevice>(bindings: InputBindings, device: D, action: BindingAction, value: InputBindings[D][BindingAction]): InputBindings => {
+  const map = { ...bindings[device] } as Record<BindingAction, string | number>;
+  const previous = map[action];
+  const clash = BINDING_ACTIONS.find(other => other !== action && map[other] === value);
+  if (clash) map[clash] = previous;
+  map[action] = value;
+  return { ...bindings, [device]: map };
+};
+
+export const findKeyAction = (bindings: InputBindings, code: string): BindingAction | null =>
+  BINDING_ACTIONS.find(action => bindings.keyboard[action] === code) ?? null;
+
+export const findButtonAction = (bindings: InputBindings, button: number): BindingAction | null =>
+  BINDING_ACTIONS.find(action => bindings.gamepad[action] === button) ?? null;
+
+// -- Gamepad --
+
+export interface GamepadReader {
+  // Buttons that went down since the last poll, across every connected pad
+  poll: () => number[];
+}
+
+// The Gamepad API has no button events, so callers poll once per frame
+export const createGamepadReader = (): GamepadReader => {
+  let held = new Set<string>();
+
+  return {
+    poll: () => {
+      const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+      const pressed: number[] = [];
+      const nextHeld = new Set<string>();
+      for (const pad of pads) {
+        if (!pad) continue;
+        pad.buttons.forEach((button, index) => {
+          if (!button.pressed) return;
+          const id = `${pad.index}:${index}`;
+          nextHeld.add(id);
+          if (!held.has(id)) pressed.push(index);
+        });
+      }
+      held = nextHeld;
+      return pressed;
+    }
+  };
+};
@@ -0,0 +1,57 @@
+// Local Endless-mode leaderboard: the best runs on this device, newest first
+// among equal scores. Stored separately from the campaign save.
+
+const STORAGE_KEY = 'catsalom.leaderboard.endless.v1';
+export const LEADERBOARD_SIZE = 10;
+
+export interface LeaderboardEntry {
+  id: string;
+  catName: string;
+  score: number;
+  survivedMs: number;
+  biomeIndex: number; // Biome the run ended in
+  recordedAt: number;
+}
+
+export interface LeaderboardResult {
+  entries: LeaderboardEntry[];
+  rank: number | null; // 0-based position of the submitted run, null if it didn't make the table
+  entryId: string;
+}
+
+const isEntry = (e: unknown): e is LeaderboardEntry => {
+  if (typeof e !== 'object' || e === null) return false;
+  const entry = e as Record<string, unknown>;
+  return typeof entry.id === 'string' && typeof entry.catName === 'string'
+    && typeof entry.score === 'number' && typeof entry.survivedMs === 'number'
+    && typeof entry.biomeIndex === 'number' && typeof entry.recordedAt === 'number';
+};
+
+export const loadLeaderboard = (): LeaderboardEntry[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(isEntry) : [];
+  } catch {
+    return [];
+  }
+};
+
+const sortEntries = (entries: LeaderboardEntry[]) =>
+  [...entries].sort((a, b) => b.score - a.score || b.recordedAt - a.recordedAt);
+
+export const submitEndlessRun = (run: Omit<LeaderboardEntry, 'id' | 'recordedAt'>): LeaderboardResult => {
+  const entry: LeaderboardEntry = {
+    ...run,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    recordedAt: Date.now()
+  };
+  const entries = sortEntries([...loadLeaderboard(), entry]).slice(0, LEADERBOARD_SIZE);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // Storage full or disabled: the table is still shown for this session
+  }
+  const rank = entries.findIndex(e => e.id === entry.id);
+  return { entries, rank: rank === -1 ? null : rank, entryId: entry.id };
+};
@@ -0,0 +1,209 @@
+import { Enemy } from '../types';
+
+// Monster registry, keyed by the ids listed in BIOME_CONFIG[...].monsters.
+// Gameplay fields (movement, hp, speed, split) are read by the simulation;
+// draw() is only used by the renderer.
+
+export type MonsterMovement =
+  | 'straight' // Walks straight to the cat
+  | 'zigzag'   // Weaves side to side on the way in
+  | 'orbit'    // Spirals in around the cat
+  | 'teleport'; // Blinks to another spot on the same ring every few seconds
+
+export interface MonsterDefinition {
+  movement: MonsterMovement;
+  hp: number; // Number of symbols that must be drawn, in order
+  speed: number; // Multiplier over the level's base speed
+  radius: number;
+  splitsInto?: { monster: string; count: number }; // Spawned where it dies
+  draw: (ctx: CanvasRenderingContext2D, enemy: Enemy, time: number) => void;
+}
+
+// Blink interval for 'teleport' monsters
+export const TELEPORT_INTERVAL = 2200;
+
+// -- Drawing helpers (all shapes are drawn around 0,0 and scaled by radius) --
+
+const BODY_STROKE = 'rgba(255,255,255,0.85)';
+const BODY_FILL = 'rgba(255,255,255,0.06)';
+
+const outline = (ctx: CanvasRenderingContext2D, build: () => void) => {
+  ctx.fillStyle = BODY_FILL;
+  ctx.strokeStyle = BODY_STROKE;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  build();
+  ctx.fill();
+  ctx.stroke();
+};
+
+const polygon = (ctx: CanvasRenderingContext2D, sides: number, r: number, rotation = 0) => {
+  for (let i = 0; i <= sides; i++) {
+    const a = rotation + (i / sides) * Math.PI * 2;
+    if (i === 0) ctx.moveTo(Math.cos(a) * r, Math.sin(a) * r);
+    else ctx.lineTo(Math.cos(a) * r, Math.sin(a) * r);
+  }
+};
+
+const star = (ctx: CanvasRenderingContext2D, points: number, outer: number, inner: number, rotation = 0) => {
+  for (let i = 0; i <= points * 2; i++) {
+    const r = i % 2 === 0 ? outer : inner;
+    const a = rotation + (i / (points * 2)) * Math.PI * 2;
+    if (i === 0) ctx.moveTo(Math.cos(a) * r, Math.sin(a) * r);
+    else ctx.lineTo(Math.cos(a) * r, Math.sin(a) * r);
+  }
+};
+
+const circle = (ctx: CanvasRenderingContext2D, r: number) => {
+  ctx.arc(0, 0, r, 0, Math.PI * 2);
+};
+
+const roundedRect = (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+  ctx.rect(-w / 2, -h / 2, w, h);
+};
+
+// --------------------------------------------------------------------------
+// REGISTRY
+// --------------------------------------------------------------------------
+
+export const MONSTERS: Record<string, MonsterDefinition> = {
+  // GARDEN
+  flower: {
+    movement: 'straight', hp: 1, speed: 0.9, radius: 22,
+    draw: (ctx, e, time) => outline(ctx, () => star(ctx, 6, e.radius, e.radius * 0.6, time / 1500))
+  },
+  bug: {
+    movement: 'zigzag', hp: 1, speed: 1.2, radius: 18,
+    draw: (ctx, e) => outline(ctx, () => ctx.ellipse(0, 0, e.radius * 0.8, e.radius, 0, 0, Math.PI * 2))
+  },
+  leaf: {
+    movement: 'orbit', hp: 1, speed: 1.0, radius: 20,
+    draw: (ctx, e, time) => outline(ctx, () => ctx.ellipse(0, 0, e.radius, e.radius * 0.55, time / 600, 0, Math.PI * 2))
+  },
+
+  // CITY
+  car: {
+    movement: 'straight', hp: 1, speed: 1.4, radius: 22,
+    draw: (ctx, e) => outline(ctx, () => roundedRect(ctx, e.radius * 2, e.radius * 1.2))
+  },
+  building: {
+    movement: 'straight', hp: 2, speed: 0.7, radius: 26,
+    draw: (ctx, e) => outline(ctx, () => roundedRect(ctx, e.radius * 1.3, e.radius * 2))
+  },
+  lamp: {
+    movement: 'teleport', hp: 1, speed: 1.0, radius: 20,
+    draw: (ctx, e, time) => outline(ctx, () => circle(ctx, e.radius * (0.9 + Math.sin(time / 200) * 0.1)))
+  },
+
+  // SEWER
+  rat: {
+    movement: 'zigzag', hp: 1, speed: 1.3, radius: 18,
+    draw: (ctx, e) => outline(ctx, () => polygon(ctx, 3, e.radius, -Math.PI / 2))
+  },
+  biohazard: {
+    movement: 'straight', hp: 1, speed: 0.9, radius: 24, splitsInto: { monster: 'droplet', count: 2 },
+    draw: (ctx, e, time) => outline(ctx, () => star(ctx, 3, e.radius, e.radius * 0.45, time / 900))
+  },
+  skull: {
+    movement: 'orbit', hp: 2, speed: 0.9, radius: 24,
+    draw: (ctx, e) => outline(ctx, () => polygon(ctx, 5, e.radius, -Math.PI / 2))
+  },
+
+  // HOUSE
+  ghost: {
+    movement: 'teleport', hp: 1, speed: 1.0, radius: 22,
+    draw: (ctx, e, time) => {
+      ctx.globalAlpha = 0.6 + Math.sin(time / 300) * 0.3;
+      outline(ctx, () => ctx.arc(0, 0, e.radius, Math.PI, 0));
+      ctx.globalAlpha = 1;
+    }
+  },
+  bed: {
+    movement: 'straight', hp: 2, speed: 0.7, radius: 26,
+    draw: (ctx, e) => outline(ctx, () => roundedRect(ctx, e.radius * 2, e.radius * 1.1))
+  },
+  book: {
+    movement: 'zigzag', hp: 1, speed: 1.0, radius: 22, splitsInto: { monster: 'page', count: 2 },
+    draw: (ctx, e) => outline(ctx, () => polygon(ctx, 4, e.radius, Math.PI / 4))
+  },
+
+  // CEMETERY (shares 'skull' with the sewer)
+  cross: {
+    movement: 'straight', hp: 2, speed: 0.8, radius: 24,
+    draw: (ctx, e) => {
+      const r = e.radius;
+      outline(ctx, () => {
+        ctx.rect(-r * 0.25, -r, r * 0.5, r * 2);
+        ctx.rect(-r * 0.75, -r * 0.5, r * 1.5, r * 0.5);
+      });
+    }
+  },
+  bone: {
+    movement: 'zigzag', hp: 1, speed: 1.2, radius: 20,
+    draw: (ctx, e, time) => outline(ctx, () => ctx.ellipse(0, 0, e.radius, e.radius * 0.35, time / 400, 0, Math.PI * 2))
+  },
+
+  // FACTORY
+  gear: {
+    movement: 'orbit', hp: 2, speed: 1.0, radius: 24,
+    draw: (ctx, e, time) => outline(ctx, () => star(ctx, 8, e.radius, e.radius * 0.78, time / 500))
+  },
+  robot: {
+    movement: 'straight', hp: 3, speed: 0.6, radius: 28,
+    draw: (ctx, e) => outline(ctx, () => roundedRect(ctx, e.radius * 1.8, e.radius * 1.8))
+  },
+  fire: {
+    movement: 'zigzag', hp: 1, speed: 1.2, radius: 22, splitsInto: { monster: 'ember', count: 2 },
+    draw: (ctx, e, time) => outline(ctx, () => star(ctx, 5, e.radius * (1 + Math.sin(time / 120) * 0.1), e.radius * 0.5, -Math.PI / 2))
+  },
+
+  // ASTRAL
+  star: {
+    movement: 'orbit', hp: 1, speed: 1.4, radius: 20,
+    draw: (ctx, e, time) => outline(ctx, () => star(ctx, 5, e.radius, e.radius * 0.45, time / 700))
+  },
+  eye: {
+    movement: 'teleport', hp: 2, speed: 1.0, radius: 24,
+    draw: (ctx, e) => {
+      outline(ctx, () => ctx.ellipse(0, 0, e.radius, e.radius * 0.6, 0, 0, Math.PI * 2));
+      ctx.strokeStyle = BODY_STROKE;
+      ctx.beginPath();
+      ctx.arc(0, 0, e.radius * 0.3, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+  },
+  void: {
+    movement: 'straight', hp: 2, speed: 0.8, radius: 26, splitsInto: { monster: 'shard', count: 3 },
+    draw: (ctx, e, time) => {
+      ctx.fillStyle = 'rgba(0,0,0,0.6)';
+      ctx.strokeStyle = BODY_STROKE;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      circle(ctx, e.radius * (1 + Math.sin(time / 250) * 0.08));
+      ctx.fill();
+      ctx.stroke();
+    }
+  },
+
+  // Split-only offspring (not listed in any biome)
+  droplet: {
+    movement: 'straight', hp: 1, speed: 1.5, radius: 14,
+    draw: (ctx, e) => outline(ctx, () => circle(ctx, e.radius))
+  },
+  page: {
+    movement: 'zigzag', hp: 1, speed: 1.4, radius: 14,
+    draw: (ctx, e) => outline(ctx, () => roundedRect(ctx, e.radius * 1.4, e.radius * 1.8))
+  },
+  ember: {
+    movement: 'straight', hp: 1, speed: 1.6, radius: 14,
+    draw: (ctx, e) => outline(ctx, () => polygon(ctx, 4, e.radius))
+  },
+  shard: {
+    movement: 'orbit', hp: 1, speed: 1.5, radius: 14,
+    draw: (ctx, e) => outline(ctx, () => polygon(ctx, 3, e.radius))
+  }
+};
+
+export const getMonster = (id: string | undefined): MonsterDefinition | undefined => {
+  return id ? MONSTERS[id] : undefined;
+};
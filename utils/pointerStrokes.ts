@@ -0,0 +1,75 @@
+import { Point, TimedPoint } from '../types';
+
+// Per-pointer stroke tracking on top of Pointer Events: every finger, pen or
+// mouse draws its own stroke, so two simultaneous strokes never mix. Moves read
+// the coalesced events too, which browsers batch between animation frames.
+
+// Coalesced samples are dense, so keep points closer together than the old
+// 5 px threshold but still drop sub-pixel jitter (the gesture heuristics thin
+// strokes back to 5 px themselves, see utils/gesture)
+export const MIN_POINT_DISTANCE = 2;
+
+// The subset of PointerEvent the tracker reads (plain objects work in tests)
+export interface PointerSample {
+  pointerId: number;
+  pointerType: string;
+  clientX: number;
+  clientY: number;
+  pressure: number;
+  timeStamp: number;
+  getCoalescedEvents?: () => PointerSample[];
+}
+
+export interface StrokeTracker {
+  begin: (e: PointerSample) => void;
+  move: (e: PointerSample) => void;
+  // Returns the finished stroke, or null if this pointer wasn't drawing
+  end: (e: PointerSample) => TimedPoint[] | null;
+  cancel: (e: PointerSample) => void;
+  // Strokes still being drawn, oldest first
+  active: () => TimedPoint[][];
+  clear: () => void;
+}
+
+export const createStrokeTracker = (toLocal: (clientX: number, clientY: number) => Point = (x, y) => ({ x, y })): StrokeTracker => {
+  const strokes = new Map<number, { start: number; points: TimedPoint[] }>();
+
+  const toPoint = (e: PointerSample, start: number): TimedPoint => {
+    const point: TimedPoint = { ...toLocal(e.clientX, e.clientY), t: Math.max(0, e.timeStamp - start) };
+    // Mice and fingers report a constant pressure, only pens are worth keeping
+    if (e.pointerType === 'pen') point.pressure = e.pressure;
+    return point;
+  };
+
+  const addSample = (e: PointerSample) => {
+    const stroke = strokes.get(e.pointerId);
+    if (!stroke) return;
+    const point = toPoint(e, stroke.start);
+    const last = stroke.points[stroke.points.length - 1];
+    if (Math.hypot(point.x - last.x, point.y - last.y) >= MIN_POINT_DISTANCE) stroke.points.push(point);
+  };
+
+  return {
+    begin: (e) => {
+      strokes.set(e.pointerId, { start: e.timeStamp, points: [] });
+      strokes.get(e.pointerId)!.points.push(toPoint(e, e.timeStamp));
+    },
+    move: (e) => {
+      if (!strokes.has(e.pointerId)) return;
+      const samples = e.getCoalescedEvents?.() ?? [];
+      (samples.length > 0 ? samples : [e]).forEach(addSample);
+    },
+    end: (e) => {
+      const stroke = strokes.get(e.pointerId);
+      if (!stroke) return null;
+      addSample(e);
+      strokes.delete(e.pointerId);
+      return stroke.points;
+    },
+    cancel: (e) => {
+      strokes.delete(e.pointerId);
+    },
+    active: () => [...strokes.values()].map(s => s.points),
+    clear: () => strokes.clear()
+  };
+};
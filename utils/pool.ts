@@ -0,0 +1,46 @@
+// Fixed-capacity object pools for things the game creates and drops every
+// frame (particles, enemies). Released objects wait on a free list for the next
+// acquire, so once a fight has warmed the pool up it stops producing garbage.
+// Nothing is allocated up front: creating a pool (e.g. in a render) is free.
+
+export interface PoolStats {
+  capacity: number;
+  free: number; // Ready to hand out
+  allocated: number; // Objects ever created; past capacity, the extras are garbage once released
+}
+
+export interface Pool<T> {
+  // A recycled object, or a new one when the free list is empty. Callers must
+  // overwrite every field: it still holds whatever its last user left there.
+  acquire: () => T;
+  // The free list never grows past capacity; anything beyond is left to the GC
+  release: (item: T) => void;
+  stats: () => PoolStats;
+}
+
+export const createPool = <T>(capacity: number, create: () => T): Pool<T> => {
+  const free: T[] = [];
+  let allocated = 0;
+
+  const acquire = (): T => {
+    const item = free.pop();
+    if (item !== undefined) return item;
+    allocated++;
+    return create();
+  };
+
+  const release = (item: T) => {
+    if (free.length < capacity) free.push(item);
+  };
+
+  return { acquire, release, stats: () => ({ capacity, free: free.length, allocated }) };
+};
+
+// Removes items[index] in O(1) by moving the last item into its slot, so the
+// order of what remains changes. Iterate backwards to remove while looping.
+export const swapRemove = <T>(items: T[], index: number): T => {
+  const item = items[index];
+  const last = items.pop()!;
+  if (index < items.length) items[index] = last;
+  return item;
+};
@@ -0,0 +1,27 @@
+// Small seedable PRNG (mulberry32). Everything that affects gameplay must draw
+// from one of these instead of Math.random() so runs are reproducible.
+
+export type Rng = () => number; // [0, 1)
+
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 0xFFFFFFFF);
+
+// FNV-1a: stable 32-bit hash for turning text (dates, names) into seeds
+export const hashString = (text: string): number => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
@@ -0,0 +1,194 @@
+import { GameMode, SkillId, SpellType, TimedPoint } from '../types';
+import { BIOME_ORDER } from './gameConfig';
+import { SKILL_ORDER } from './skills';
+import { isValidLevelWave } from './waves';
+import { SimulationConfig, SimulationStatus, createGameSimulation, GameSimulation, FIXED_STEP_MS } from './gameSimulation';
+
+// A replay is the seed/config of every level plus the inputs applied to it,
+// each keyed on the simulation tick it happened after. Feeding the same inputs
+// back at the same ticks reproduces the run exactly.
+
+// 2: enemies are swap-removed from pools (utils/pool), which reorders them and
+// so changes how random picks among them resolve; version 1 runs no longer match
+export const REPLAY_VERSION = 2;
+
+export type ReplayInput =
+  // points are flattened [x, y, t, x, y, t, ...] rounded to ints to keep files small
+  // confidence is missing in replays recorded before the scoring model used it
+  | { tick: number; kind: 'stroke'; spell: SpellType | null; confidence?: number; points: number[] }
+  | { tick: number; kind: 'skill'; skill: SkillId }
+  | { tick: number; kind: 'resize'; width: number; height: number };
+
+export interface ReplayLevel {
+  config: SimulationConfig;
+  inputs: ReplayInput[];
+  endTick: number;
+  outcome: SimulationStatus;
+}
+
+export interface ReplayFile {
+  version: number;
+  catName: string;
+  recordedAt: number;
+  levels: ReplayLevel[];
+}
+
+export interface ReplayRecorder {
+  beginLevel: (config: SimulationConfig) => void;
+  recordStroke: (tick: number, points: TimedPoint[], spell: SpellType | null, confidence: number) => void;
+  recordSkill: (tick: number, skill: SkillId) => void;
+  recordResize: (tick: number, width: number, height: number) => void;
+  endLevel: (tick: number, outcome: SimulationStatus) => void;
+  toReplay: () => ReplayFile;
+}
+
+export const createReplayRecorder = (catName: string): ReplayRecorder => {
+  const levels: ReplayLevel[] = [];
+  const current = () => levels[levels.length - 1];
+
+  return {
+    beginLevel: (config) => {
+      levels.push({ config: { ...config }, inputs: [], endTick: 0, outcome: 'playing' });
+    },
+    recordStroke: (tick, points, spell, confidence) => {
+      current()?.inputs.push({ tick, kind: 'stroke', spell, confidence, points: flattenStroke(points) });
+    },
+    recordSkill: (tick, skill) => {
+      current()?.inputs.push({ tick, kind: 'skill', skill });
+    },
+    recordResize: (tick, width, height) => {
+      current()?.inputs.push({ tick, kind: 'resize', width, height });
+    },
+    endLevel: (tick, outcome) => {
+      const level = current();
+      if (!level) return;
+      level.endTick = tick;
+      level.outcome = outcome;
+    },
+    toReplay: () => ({
+      version: REPLAY_VERSION,
+      catName,
+      recordedAt: Date.now(),
+      // Levels abandoned mid-way (e.g. back to menu) have no end tick to play to
+      levels: levels.filter(l => l.outcome !== 'playing')
+    })
+  };
+};
+
+export const flattenStroke = (points: TimedPoint[]): number[] => {
+  const flat: number[] = [];
+  points.forEach(p => flat.push(Math.round(p.x), Math.round(p.y), Math.round(p.t)));
+  return flat;
+};
+
+export const unflattenStroke = (flat: number[]): TimedPoint[] => {
+  const points: TimedPoint[] = [];
+  for (let i = 0; i + 2 < flat.length; i += 3) {
+    points.push({ x: flat[i], y: flat[i + 1], t: flat[i + 2] });
+  }
+  return points;
+};
+
+// Applies every input recorded for the simulation's current tick.
+// Strokes come back with how many enemies they hit so viewers can show misses.
+export const applyReplayInputs = (
+  sim: GameSimulation,
+  level: ReplayLevel,
+  cursor: number
+): { cursor: number; applied: { input: ReplayInput; hits: number }[] } => {
+  const applied: { input: ReplayInput; hits: number }[] = [];
+  while (cursor < level.inputs.length && level.inputs[cursor].tick <= sim.state.tick) {
+    const input = level.inputs[cursor++];
+    let hits = 0;
+    if (input.kind === 'stroke') hits = sim.castSpell(input.spell, input.confidence);
+    else if (input.kind === 'skill') sim.activateSkill(input.skill);
+    else if (input.kind === 'resize') sim.setViewport(input.width, input.height);
+    applied.push({ input, hits });
+  }
+  return { cursor, applied };
+};
+
+// Headless playback of a whole level, handy for verifying a replay file
+export const simulateReplayLevel = (level: ReplayLevel): GameSimulation => {
+  const sim = createGameSimulation(level.config);
+  let cursor = 0;
+  while (sim.state.status === 'playing' && sim.state.tick < level.endTick) {
+    cursor = applyReplayInputs(sim, level, cursor).cursor;
+    sim.step(FIXED_STEP_MS);
+  }
+  applyReplayInputs(sim, level, cursor);
+  return sim;
+};
+
+// --------------------------------------------------------------------------
+// IMPORT / EXPORT
+// --------------------------------------------------------------------------
+
+export const encodeReplay = (replay: ReplayFile): string => JSON.stringify(replay);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPositive = (value: unknown) => isFiniteNumber(value) && value > 0;
+
+const isSpell = (value: unknown): value is SpellType => Object.values(SpellType).includes(value as SpellType);
+
+const MODES: GameMode[] = ['campaign', 'endless', 'daily'];
+
+// Imported files are untrusted and go straight into createGameSimulation, so
+// every config field it reads without a default has to be sane
+const isValidConfig = (config: unknown): boolean =>
+  isRecord(config) &&
+  isFiniteNumber(config.seed) &&
+  isPositive(config.width) &&
+  isPositive(config.height) &&
+  Number.isInteger(config.biomeIndex) && BIOME_ORDER[config.biomeIndex as number] !== undefined &&
+  Number.isInteger(config.level) && (config.level as number) >= 1 &&
+  Number.isInteger(config.totalLevelsCleared) && (config.totalLevelsCleared as number) >= 0 &&
+  isPositive(config.maxHealth) &&
+  (config.mode === undefined || MODES.includes(config.mode as GameMode)) &&
+  (config.upgrades === undefined || isRecord(config.upgrades)) &&
+  (config.enemySpeed === undefined || isPositive(config.enemySpeed)) &&
+  (config.spawnRate === undefined || isPositive(config.spawnRate)) &&
+  (config.wave === undefined || isValidLevelWave(config.wave)) &&
+  (config.timeLimit === undefined || isPositive(config.timeLimit)) &&
+  (config.spellPool === undefined || (Array.isArray(config.spellPool) && config.spellPool.length > 0 && config.spellPool.every(isSpell))) &&
+  (config.skillsLocked === undefined || typeof config.skillsLocked === 'boolean');
+
+const isValidInput = (input: unknown): boolean =>
+  isRecord(input) && isFiniteNumber(input.tick) && (
+    (input.kind === 'stroke' && (input.spell === null || isSpell(input.spell)) &&
+      (input.confidence === undefined || isFiniteNumber(input.confidence)) &&
+      Array.isArray(input.points) && input.points.every(isFiniteNumber)) ||
+    (input.kind === 'skill' && typeof input.skill === 'string' && SKILL_ORDER.includes(input.skill as SkillId)) ||
+    (input.kind === 'resize' && isFiniteNumber(input.width) && isFiniteNumber(input.height))
+  );
+
+const isValidLevel = (level: unknown): boolean =>
+  isRecord(level) &&
+  isValidConfig(level.config) &&
+  Array.isArray(level.inputs) && level.inputs.every(isValidInput) &&
+  isFiniteNumber(level.endTick);
+
+export const decodeReplay = (text: string): ReplayFile | null => {
+  try {
+    const data: unknown = JSON.parse(text);
+    if (!isRecord(data) || data.version !== REPLAY_VERSION || typeof data.catName !== 'string' || !isFiniteNumber(data.recordedAt)) return null;
+    if (!Array.isArray(data.levels)) return null;
+    return data.levels.every(isValidLevel) ? data as unknown as ReplayFile : null;
+  } catch {
+    return null; // Not JSON
+  }
+};
+
+export const downloadReplay = (replay: ReplayFile) => {
+  const blob = new Blob([encodeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  const safeName = replay.catName.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'cat';
+  link.href = url;
+  link.download = `catsalom-${safeName}-${new Date(replay.recordedAt).toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,75 @@
+import { SkillId, SpellType } from '../types';
+import { GameSimulation, SimulationEvent } from './gameSimulation';
+
+// Statistics for one run (Start/Continue/Restart until Game Over), fed from
+// simulation events and finished strokes the same way the replay recorder is.
+
+export interface RunStats {
+  totalScore: number; // Across every level of the run
+  levelsCleared: number;
+  biomeReached: number; // Index into BIOME_ORDER
+  killsBySpell: Partial<Record<SpellType, number>>;
+  failedGestures: number; // Recognized, but hit nothing
+  unrecognizedGestures: number;
+  damageTaken: number;
+  skillsUsed: Partial<Record<SkillId, number>>;
+  playTimeMs: number; // Simulated time, so pauses don't count
+}
+
+export interface RunStatsCollector {
+  recordEvent: (sim: GameSimulation, event: SimulationEvent) => void;
+  recordCast: (recognized: boolean, hits: number) => void;
+  snapshot: () => RunStats;
+}
+
+export const createRunStatsCollector = (): RunStatsCollector => {
+  const stats: RunStats = {
+    totalScore: 0,
+    levelsCleared: 0,
+    biomeReached: 0,
+    killsBySpell: {},
+    failedGestures: 0,
+    unrecognizedGestures: 0,
+    damageTaken: 0,
+    skillsUsed: {},
+    playTimeMs: 0
+  };
+
+  return {
+    recordEvent: (sim, event) => {
+      stats.biomeReached = sim.state.biomeIndex;
+      switch (event.type) {
+        case 'enemyKilled':
+          if (event.enemy.isBossSigil) break;
+          stats.killsBySpell[event.enemy.symbol] = (stats.killsBySpell[event.enemy.symbol] ?? 0) + 1;
+          break;
+        case 'catHit':
+          stats.damageTaken += 1;
+          break;
+        case 'skillActivated':
+          stats.skillsUsed[event.skill] = (stats.skillsUsed[event.skill] ?? 0) + 1;
+          break;
+        case 'levelComplete':
+          stats.totalScore += event.score;
+          stats.levelsCleared += 1;
+          stats.playTimeMs += sim.state.time;
+          break;
+        case 'gameOver':
+          stats.totalScore += event.score;
+          // Endless has no level ends; its stages count instead
+          if (sim.config.mode === 'endless') stats.levelsCleared += sim.state.level - 1;
+          stats.playTimeMs += sim.state.time;
+          break;
+      }
+    },
+    recordCast: (recognized, hits) => {
+      if (!recognized) stats.unrecognizedGestures += 1;
+      else if (hits === 0) stats.failedGestures += 1;
+    },
+    snapshot: () => ({
+      ...stats,
+      killsBySpell: { ...stats.killsBySpell },
+      skillsUsed: { ...stats.skillsUsed }
+    })
+  };
+};
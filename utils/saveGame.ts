@@ -0,0 +1,163 @@
+import { BiomeType, CatOutfit, CosmeticId, Language, Progress, SkillUpgrades } from '../types';
+import { BIOME_ORDER } from './gameConfig';
+import { COSMETIC_IDS, getBiomeCosmetic, getEarnedCosmetics, sanitizeOutfit } from './cosmetics';
+import { UpgradeDefinition, getUpgradeCost } from './skills';
+import { isLanguage } from './i18n';
+
+// Bump SAVE_VERSION whenever SaveGame changes shape and add a migration from
+// the previous version below. Migrations run in order until the data is current.
+export const SAVE_VERSION = 3;
+
+const STORAGE_KEY = 'catsalom.save';
+
+export interface SaveGame {
+  version: number;
+  catName: string;
+  language: Language;
+  biome: BiomeType;
+  level: number;
+  totalLevelsCleared: number;
+  bestScores: Record<string, number>; // `${biome}:${level}` -> best level score
+  essence: number; // Unspent skill upgrade currency
+  upgrades: SkillUpgrades;
+  cosmetics: CosmeticId[]; // Unlocked
+  outfit: CatOutfit; // Worn
+  updatedAt: number;
+}
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+// Keyed by the version being migrated *from*
+const MIGRATIONS: Record<number, Migration> = {
+  // v2: essence and skill upgrades
+  1: (data) => ({ ...data, version: 2, essence: 0, upgrades: {} }),
+  // v3: cat cosmetics, with the ones for biomes already cleared unlocked
+  2: (data) => ({ ...data, version: 3, cosmetics: getEarnedCosmetics(Number(data.totalLevelsCleared) || 0), outfit: {} })
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Keeps only the numeric entries (best scores, upgrade levels)
+const toNumberRecord = (value: unknown): Record<string, number> =>
+  isRecord(value)
+    ? Object.fromEntries(Object.entries(value).filter((entry): entry is [string, number] => typeof entry[1] === 'number'))
+    : {};
+
+export const migrateSave = (raw: unknown): SaveGame | null => {
+  if (!isRecord(raw)) return null;
+
+  let data = raw;
+  let version = typeof data.version === 'number' ? data.version : 0;
+  if (version < 1 || version > SAVE_VERSION) return null; // Unknown or written by a newer build
+
+  while (version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    data = migrate(data);
+    version = Number(data.version);
+  }
+
+  const { catName, biome, cosmetics: unlocked } = data;
+  if (typeof catName !== 'string' || !BIOME_ORDER.includes(biome as BiomeType)) return null;
+  const cosmetics = Array.isArray(unlocked) ? COSMETIC_IDS.filter(id => unlocked.includes(id)) : [];
+  return {
+    version: SAVE_VERSION,
+    catName,
+    language: isLanguage(data.language) ? data.language : 'pt',
+    biome: biome as BiomeType,
+    level: Math.min(11, Math.max(1, Number(data.level) || 1)),
+    totalLevelsCleared: Math.max(0, Number(data.totalLevelsCleared) || 0),
+    bestScores: toNumberRecord(data.bestScores),
+    essence: Math.max(0, Number(data.essence) || 0),
+    upgrades: toNumberRecord(data.upgrades) as SkillUpgrades,
+    cosmetics,
+    outfit: sanitizeOutfit(data.outfit, cosmetics),
+    updatedAt: Number(data.updatedAt) || 0
+  };
+};
+
+export const loadSave = (): SaveGame | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? migrateSave(JSON.parse(raw)) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeSave = (save: SaveGame) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...save, version: SAVE_VERSION, updatedAt: Date.now() }));
+  } catch {
+    // Storage full or disabled: the run just won't be resumable
+  }
+};
+
+export const clearSave = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing to clear
+  }
+};
+
+// Cosmetics belong to the player rather than the run, so a new campaign keeps
+// the ones `previous` had
+export const createSave = (catName: string, language: Language, previous?: SaveGame | null): SaveGame => ({
+  version: SAVE_VERSION,
+  catName,
+  language,
+  biome: BIOME_ORDER[0],
+  level: 1,
+  totalLevelsCleared: 0,
+  bestScores: {},
+  essence: 0,
+  upgrades: {},
+  cosmetics: previous?.cosmetics ?? [],
+  outfit: previous?.outfit ?? {},
+  updatedAt: Date.now()
+});
+
+export const getSaveProgress = (save: SaveGame): Progress => ({
+  biomeIndex: Math.max(0, BIOME_ORDER.indexOf(save.biome)),
+  level: save.level,
+  totalLevelsCleared: save.totalLevelsCleared
+});
+
+// Spends essence on the next level of an upgrade; null when it can't be bought
+export const purchaseUpgrade = (save: SaveGame, upgrade: UpgradeDefinition): SaveGame | null => {
+  const cost = getUpgradeCost(upgrade, save.upgrades);
+  if (cost === null || save.essence < cost) return null;
+  return {
+    ...save,
+    essence: save.essence - cost,
+    upgrades: { ...save.upgrades, [upgrade.id]: (save.upgrades[upgrade.id] ?? 0) + 1 }
+  };
+};
+
+export interface ClearedLevel {
+  biome: BiomeType;
+  level: number;
+  score: number;
+  essence: number; // Level reward plus the orbs collected
+}
+
+// Records the progress reached plus the score and essence of the level just
+// cleared; a boss level also unlocks its biome's cosmetic
+export const applyProgress = (save: SaveGame, progress: Progress, cleared?: ClearedLevel): SaveGame => {
+  const bestScores = { ...save.bestScores };
+  if (cleared) {
+    const key = `${cleared.biome}:${cleared.level}`;
+    bestScores[key] = Math.max(bestScores[key] || 0, cleared.score);
+  }
+  const unlocked = cleared?.level === 11 ? getBiomeCosmetic(cleared.biome) : undefined;
+  return {
+    ...save,
+    biome: BIOME_ORDER[progress.biomeIndex],
+    level: progress.level,
+    totalLevelsCleared: progress.totalLevelsCleared,
+    bestScores,
+    essence: save.essence + (cleared?.essence ?? 0),
+    cosmetics: unlocked && !save.cosmetics.includes(unlocked) ? [...save.cosmetics, unlocked] : save.cosmetics
+  };
+};
@@ -0,0 +1,469 @@
+import { Enemy, Particle, Point, SkillUpgrades, TimedPoint } from '../types';
+import { CatAnimation, CatLook, drawCat, getCatPose } from './catAvatar';
+import { SimulationEvent, SimulationState } from './gameSimulation';
+import { getSymbolColor, getSymbolIcon } from './gesture';
+import { GlowMode, QUALITY_CONFIG, QualityConfig } from './graphics';
+import { getMonster } from './monsters';
+import { Rng, createRng } from './random';
+import { Pool, createPool, swapRemove } from './pool';
+import { getMagnetRadius } from './skills';
+
+// Canvas drawing shared by the live game and the replay viewer. Particles are
+// purely visual, but they still draw from a seeded Rng so replays look the same.
+
+// Chain lightning arcs, faded out like particles
+interface Bolt {
+  points: Point[];
+  life: number;
+}
+
+export interface ParticleSystem {
+  particles: Particle[]; // Live ones, in no particular order
+  bolts: Bolt[];
+  pool: Pool<Particle>;
+  rng: Rng;
+  nextId: number;
+  maxParticles: number; // The faintest particles make room past this (set from the quality config)
+}
+
+// Enough for the highest quality preset
+const PARTICLE_POOL_SIZE = Math.max(...Object.values(QUALITY_CONFIG).map(config => config.maxParticles));
+
+const createParticle = (): Particle => ({ id: 0, x: 0, y: 0, vx: 0, vy: 0, life: 0, color: '', size: 0, glow: false });
+
+// Seeded from the level seed (salted, so it is a different stream than the simulation's)
+export const createParticleSystem = (levelSeed: number): ParticleSystem => ({
+  particles: [],
+  bolts: [],
+  pool: createPool(PARTICLE_POOL_SIZE, createParticle),
+  rng: createRng(levelSeed ^ 0x5bd1e995),
+  nextId: 0,
+  maxParticles: PARTICLE_POOL_SIZE
+});
+
+const getParticleLimit = (system: ParticleSystem) => Math.min(system.maxParticles, PARTICLE_POOL_SIZE);
+
+// Every particle fades at the same rate, so the faintest is also the oldest
+const findFaintest = (particles: Particle[]): number => {
+  let faintest = 0;
+  for (let i = 1; i < particles.length; i++) {
+    if (particles[i].life < particles[faintest].life) faintest = i;
+  }
+  return faintest;
+};
+
+export const createParticles = (system: ParticleSystem, x: number, y: number, color: string, count: number = 10, glow: boolean = false) => {
+  const { rng, particles } = system;
+  const limit = getParticleLimit(system);
+  for (let i = 0; i < count; i++) {
+    // Drawn before the cap check so the Rng stream doesn't depend on the cap
+    const vx = (rng() - 0.5) * 15;
+    const vy = (rng() - 0.5) * 15;
+    const size = rng() * 4 + 2;
+    if (limit <= 0) continue;
+
+    let p: Particle;
+    if (particles.length < limit) {
+      p = system.pool.acquire();
+      particles.push(p);
+    } else {
+      p = particles[findFaintest(particles)];
+    }
+    p.id = system.nextId++;
+    p.x = x;
+    p.y = y;
+    p.vx = vx;
+    p.vy = vy;
+    p.life = 1.0;
+    p.color = color;
+    p.size = size;
+    p.glow = glow;
+  }
+};
+
+// Particle bursts triggered by simulation events
+export const spawnEventParticles = (system: ParticleSystem, state: SimulationState, event: SimulationEvent) => {
+  const centerX = state.width / 2;
+  const centerY = state.height / 2;
+
+  switch (event.type) {
+    case 'enemyKilled':
+      createParticles(system, event.enemy.x, event.enemy.y, event.enemy.color, 20, true);
+      break;
+    case 'enemyHit':
+      createParticles(system, event.enemy.x, event.enemy.y, event.enemy.color, 8, true);
+      break;
+    case 'enemyTeleported':
+      createParticles(system, event.from.x, event.from.y, '#a78bfa', 8);
+      createParticles(system, event.enemy.x, event.enemy.y, '#a78bfa', 8);
+      break;
+    case 'catHit':
+      createParticles(system, centerX, centerY, '#ef4444', 30, true);
+      break;
+    case 'shieldBlocked':
+      createParticles(system, centerX, centerY, '#60a5fa', 15, true);
+      break;
+    case 'skillActivated':
+      if (event.skill === 'bomb') createParticles(system, centerX, centerY, '#FFFFFF', 50, true);
+      break;
+    case 'healed':
+      createParticles(system, centerX, centerY, '#4ade80', 25, true);
+      break;
+    case 'chainLightning':
+      system.bolts.push({ points: event.points, life: 1.0 });
+      break;
+    case 'orbCollected':
+      createParticles(system, event.orb.x, event.orb.y, '#facc15', 6, true);
+      break;
+  }
+};
+
+// Particles for a finished stroke: grey when unrecognized, red when nothing matched
+export const spawnCastParticles = (system: ParticleSystem, at: Point, recognized: boolean, hits: number) => {
+  if (!recognized) {
+    createParticles(system, at.x, at.y, '#555555', 5);
+  } else if (hits === 0) {
+    createParticles(system, at.x, at.y, '#ef4444', 8);
+  }
+};
+
+// Particle speeds and decay were tuned as "per 60 Hz frame"
+const FRAME_MS = 1000 / 60;
+
+// Advances particles and bolts by one rendered frame. Like enemies, they slow
+// down under the hourglass; callers skip this while paused.
+export const updateParticles = (system: ParticleSystem, frameMs: number, timeScale: number) => {
+  const step = (frameMs / FRAME_MS) * timeScale;
+  const { particles, bolts, pool } = system;
+  // Backwards, so swap-removing never skips a particle
+  for (let i = particles.length - 1; i >= 0; i--) {
+    const p = particles[i];
+    p.x += p.vx * step;
+    p.y += p.vy * step;
+    p.life -= 0.02 * step;
+    if (p.life <= 0) pool.release(swapRemove(particles, i));
+  }
+  // The cap dropped (lower quality): shed the surplus
+  const limit = getParticleLimit(system);
+  while (particles.length > limit) pool.release(particles.pop()!);
+
+  for (let i = bolts.length - 1; i >= 0; i--) {
+    bolts[i].life -= 0.05 * step;
+    if (bolts[i].life <= 0) swapRemove(bolts, i);
+  }
+};
+
+const HIT_FLASH_MS = 200;
+const QUEUE_GLYPH_SPACING = 16;
+
+// Symbols still to draw, left to right above the enemy, plus one pip per link
+// of the chain (filled = already broken)
+const drawComboQueue = (ctx: CanvasRenderingContext2D, enemy: Enemy) => {
+  const queue = enemy.queue ?? [];
+  const top = enemy.y - enemy.radius - 12;
+  const startX = enemy.x - ((queue.length - 1) * QUEUE_GLYPH_SPACING) / 2;
+
+  ctx.font = 'bold 13px monospace';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  queue.forEach((symbol, i) => {
+    ctx.globalAlpha = i === 0 ? 0.9 : 0.5;
+    ctx.fillStyle = getSymbolColor(symbol);
+    ctx.fillText(getSymbolIcon(symbol), startX + i * QUEUE_GLYPH_SPACING, top);
+  });
+  ctx.globalAlpha = 1.0;
+
+  const total = enemy.symbolCount ?? queue.length + 1;
+  const broken = total - queue.length - 1;
+  const pipStart = enemy.x - ((total - 1) * 6) / 2;
+  for (let i = 0; i < total; i++) {
+    ctx.fillStyle = i < broken ? '#FFFFFF' : 'rgba(255,255,255,0.25)';
+    ctx.beginPath();
+    ctx.arc(pipStart + i * 6, enemy.y + enemy.radius + 8, 2, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+export interface SceneFrame {
+  state: SimulationState;
+  background: string;
+  bossColor: string;
+  particles: ParticleSystem;
+  strokes: TimedPoint[][]; // One per pointer still drawing
+  cat: { animation: CatAnimation; look: CatLook };
+  upgrades?: SkillUpgrades; // Only used for the magnet range
+  quality?: QualityConfig; // Defaults to high
+}
+
+// -- Glow --
+
+// Canvas shadows are the nicest glow but cost a blur per draw call, so only
+// high quality uses them; medium stamps a pre-rendered halo instead
+const setShadow = (ctx: CanvasRenderingContext2D, glow: GlowMode, color: string, blur: number) => {
+  if (glow !== 'blur') return;
+  ctx.shadowColor = color;
+  ctx.shadowBlur = blur;
+};
+
+const HALO_SPRITE_SIZE = 64;
+const haloSprites = new Map<string, HTMLCanvasElement>();
+
+const getHaloSprite = (color: string): HTMLCanvasElement => {
+  let sprite = haloSprites.get(color);
+  if (!sprite) {
+    sprite = document.createElement('canvas');
+    sprite.width = sprite.height = HALO_SPRITE_SIZE;
+    const ctx = sprite.getContext('2d')!;
+    const r = HALO_SPRITE_SIZE / 2;
+    const gradient = ctx.createRadialGradient(r, r, 0, r, r, r);
+    gradient.addColorStop(0, color);
+    gradient.addColorStop(1, 'transparent');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, HALO_SPRITE_SIZE, HALO_SPRITE_SIZE);
+    haloSprites.set(color, sprite);
+  }
+  return sprite;
+};
+
+const drawHalo = (ctx: CanvasRenderingContext2D, color: string, x: number, y: number, radius: number, alpha: number) => {
+  const previousAlpha = ctx.globalAlpha;
+  ctx.globalAlpha = previousAlpha * alpha;
+  ctx.drawImage(getHaloSprite(color), x - radius, y - radius, radius * 2, radius * 2);
+  ctx.globalAlpha = previousAlpha;
+};
+
+// -- Background grid --
+
+const GRID_SIZE = 50;
+
+// Drawn once per canvas size instead of one stroke per line every frame
+let gridCache: { canvas: HTMLCanvasElement; width: number; height: number; scale: number } | null = null;
+
+const getGridLayer = (width: number, height: number, scale: number): HTMLCanvasElement => {
+  if (!gridCache || gridCache.width !== width || gridCache.height !== height || gridCache.scale !== scale) {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext('2d')!;
+    ctx.scale(scale, scale);
+    ctx.strokeStyle = 'rgba(255,255,255,0.03)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let x = 0; x < width; x += GRID_SIZE) {
+      ctx.moveTo(x, 0); ctx.lineTo(x, height);
+    }
+    for (let y = 0; y < height; y += GRID_SIZE) {
+      ctx.moveTo(0, y); ctx.lineTo(width, y);
+    }
+    ctx.stroke();
+    gridCache = { canvas, width, height, scale };
+  }
+  return gridCache.canvas;
+};
+
+// Jagged line through the chain, re-jittered every frame so it crackles. The
+// jitter uses Math.random: frame counts depend on the display, and drawing from
+// the particle Rng here would shift every particle after it.
+const jitter = () => (Math.random() - 0.5) * 16;
+
+const drawBolt = (ctx: CanvasRenderingContext2D, bolt: Bolt, glow: GlowMode) => {
+  ctx.globalAlpha = bolt.life;
+  ctx.strokeStyle = '#fde047';
+  ctx.lineWidth = 2;
+  setShadow(ctx, glow, '#fde047', 12);
+  ctx.beginPath();
+  ctx.moveTo(bolt.points[0].x, bolt.points[0].y);
+  for (let i = 1; i < bolt.points.length; i++) {
+    const from = bolt.points[i - 1];
+    const to = bolt.points[i];
+    for (let s = 1; s < 4; s++) {
+      ctx.lineTo(from.x + (to.x - from.x) * s / 4 + jitter(), from.y + (to.y - from.y) * s / 4 + jitter());
+    }
+    ctx.lineTo(to.x, to.y);
+  }
+  ctx.stroke();
+  ctx.shadowBlur = 0;
+  ctx.globalAlpha = 1.0;
+};
+
+const tracePath = (ctx: CanvasRenderingContext2D, stroke: TimedPoint[]) => {
+  ctx.beginPath();
+  ctx.moveTo(stroke[0].x, stroke[0].y);
+  for (let i = 1; i < stroke.length; i++) {
+    ctx.lineTo(stroke[i].x, stroke[i].y);
+  }
+};
+
+// Pen strokes get thicker with pressure; everything else uses a fixed width
+const drawStroke = (ctx: CanvasRenderingContext2D, stroke: TimedPoint[], glow: GlowMode) => {
+  ctx.strokeStyle = '#FFFFFF';
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  setShadow(ctx, glow, '#FFFFFF', 15);
+
+  // Sprite glow: a wide faint pass under the trail
+  if (glow === 'sprite') {
+    ctx.globalAlpha = 0.15;
+    ctx.lineWidth = 14;
+    tracePath(ctx, stroke);
+    ctx.stroke();
+    ctx.globalAlpha = 1.0;
+  }
+
+  if (stroke.some(p => p.pressure !== undefined)) {
+    for (let i = 1; i < stroke.length; i++) {
+      ctx.lineWidth = 1 + (stroke[i].pressure ?? 0.5) * 6;
+      ctx.beginPath();
+      ctx.moveTo(stroke[i - 1].x, stroke[i - 1].y);
+      ctx.lineTo(stroke[i].x, stroke[i].y);
+      ctx.stroke();
+    }
+  } else {
+    ctx.lineWidth = 4;
+    tracePath(ctx, stroke);
+    ctx.stroke();
+  }
+  ctx.shadowBlur = 0;
+};
+
+// Draws in simulation (CSS pixel) coordinates; a backing store larger than the
+// viewport, e.g. for high-DPI screens, is scaled to fit
+export const drawScene = (ctx: CanvasRenderingContext2D, { state, background, bossColor, particles, strokes, cat, upgrades = {}, quality = QUALITY_CONFIG.high }: SceneFrame) => {
+  const { width, height } = state;
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const scale = width > 0 ? ctx.canvas.width / width : 1;
+  const { glow } = quality;
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+
+  // -- Render Background --
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(getGridLayer(width, height, scale), 0, 0, width, height);
+
+  // -- Render Entities --
+
+  if (state.isBossLevel) {
+    const { boss } = state;
+    // The body shrinks as the boss loses HP and speeds up its spin
+    const hpRatio = boss.maxHp > 0 ? boss.hp / boss.maxHp : 1;
+    ctx.save();
+    ctx.translate(centerX, centerY);
+    ctx.rotate(state.worldTime / (2000 - (1 - hpRatio) * 1200));
+    ctx.strokeStyle = bossColor;
+    ctx.globalAlpha = 0.15 + (1 - hpRatio) * 0.25;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    const bossSize = (70 + hpRatio * 30) + Math.sin(state.worldTime / 500) * 10;
+    ctx.rect(-bossSize / 2, -bossSize / 2, bossSize, bossSize);
+    ctx.stroke();
+    ctx.restore();
+
+    if (boss.shieldSequence.length > 0) {
+      ctx.save();
+      ctx.strokeStyle = bossColor;
+      ctx.globalAlpha = 0.6;
+      ctx.lineWidth = 3;
+      ctx.setLineDash([12, 8]);
+      ctx.lineDashOffset = -state.time / 40;
+      ctx.beginPath();
+      ctx.arc(centerX, centerY, 175, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.restore();
+    }
+  }
+
+  ctx.save();
+  ctx.translate(centerX, centerY);
+  if (state.skills.magnet.isActive) {
+    ctx.strokeStyle = 'rgba(250,204,21,0.25)';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 10]);
+    ctx.lineDashOffset = state.time / 30;
+    ctx.beginPath();
+    ctx.arc(0, 0, getMagnetRadius(upgrades), 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+  if (state.skills.shield.isActive) {
+    ctx.strokeStyle = '#60a5fa';
+    ctx.lineWidth = 2;
+    setShadow(ctx, glow, '#60a5fa', 10);
+    ctx.beginPath();
+    ctx.arc(0, 0, 50, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.shadowBlur = 0;
+  }
+  ctx.restore();
+  drawCat(ctx, centerX, centerY, getCatPose(cat.animation, state.time, state.skills.shield.isActive), state.time, cat.look, glow);
+
+  state.enemies.forEach(enemy => {
+    const monster = getMonster(enemy.monster);
+    if (monster) {
+      ctx.save();
+      ctx.translate(enemy.x, enemy.y);
+      monster.draw(ctx, enemy, state.worldTime);
+      ctx.restore();
+    } else {
+      ctx.strokeStyle = enemy.isBossSigil || enemy.isProjectile ? '#f87171' : '#FFFFFF';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(enemy.x, enemy.y, enemy.radius, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    if (glow === 'sprite') drawHalo(ctx, enemy.color, enemy.x, enemy.y, 16, 0.35);
+    ctx.fillStyle = enemy.isBossSigil ? '#f87171' : enemy.color;
+    setShadow(ctx, glow, enemy.color, 5);
+    ctx.font = enemy.isProjectile ? 'bold 16px monospace' : 'bold 22px monospace';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(getSymbolIcon(enemy.symbol), enemy.x, enemy.y);
+    ctx.shadowBlur = 0;
+
+    if (enemy.queue && enemy.queue.length > 0) drawComboQueue(ctx, enemy);
+
+    // Brief ring flash when a combo link breaks
+    if (enemy.lastHitTime !== undefined && state.time - enemy.lastHitTime < HIT_FLASH_MS) {
+      ctx.globalAlpha = 1 - (state.time - enemy.lastHitTime) / HIT_FLASH_MS;
+      ctx.strokeStyle = '#FFFFFF';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.arc(enemy.x, enemy.y, enemy.radius + 6, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.globalAlpha = 1.0;
+    }
+  });
+
+  state.orbs.forEach(orb => {
+    const radius = 4 + Math.sin((state.worldTime - orb.spawnTime) / 150);
+    if (glow === 'sprite') drawHalo(ctx, '#facc15', orb.x, orb.y, radius * 3, 0.6);
+    ctx.fillStyle = '#facc15';
+    setShadow(ctx, glow, '#facc15', 8);
+    ctx.beginPath();
+    ctx.arc(orb.x, orb.y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.shadowBlur = 0;
+  });
+
+  particles.bolts.forEach(bolt => drawBolt(ctx, bolt, glow));
+
+  particles.particles.forEach(p => {
+    ctx.globalAlpha = Math.max(0, p.life);
+    const radius = Math.max(0, p.size * p.life);
+    if (p.glow) {
+      if (glow === 'sprite') drawHalo(ctx, p.color, p.x, p.y, radius * 2.5, 0.5);
+      setShadow(ctx, glow, p.color, 10);
+    }
+    ctx.fillStyle = p.color;
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.shadowBlur = 0;
+    ctx.globalAlpha = 1.0;
+  });
+
+  strokes.forEach(stroke => {
+    if (stroke.length > 0) drawStroke(ctx, stroke, glow);
+  });
+};
@@ -0,0 +1,95 @@
+import { MIN_TEMPLATE_CONFIDENCE } from './gesture';
+
+// Scoring model for a single level. Every kill has a base value; bonuses for
+// multi-kills, near-misses and clean strokes are added on top, and the total
+// is scaled by the streak multiplier (consecutive casts that hit something).
+
+// Kills closer than this to the cat (px from centre) count as near-misses
+export const NEAR_MISS_RADIUS = 110;
+
+// Multiplier grows by STREAK_STEP every STREAK_PER_STEP successful casts
+const STREAK_PER_STEP = 5;
+const STREAK_STEP = 0.5;
+const MAX_MULTIPLIER = 4;
+
+const MULTI_KILL_BONUS = 0.25; // Per extra kill in the same stroke
+const NEAR_MISS_BONUS = 0.5;
+const MAX_ACCURACY_BONUS = 0.5; // At confidence 1.0; nothing at the recognizer's threshold
+
+export const BOSS_DEFEAT_BONUS = 1000;
+
+export interface ScoreBreakdown {
+  base: number;
+  multiKill: number;
+  nearMiss: number;
+  accuracy: number;
+  boss: number;
+  streak: number; // Extra points from the multiplier
+}
+
+export interface ScoringState {
+  streak: number;
+  bestStreak: number;
+  multiplier: number;
+  breakdown: ScoreBreakdown;
+}
+
+export interface KillContext {
+  basePoints: number;
+  killsInStroke: number;
+  distanceToCat: number;
+  confidence: number;
+}
+
+export const createScoringState = (): ScoringState => ({
+  streak: 0,
+  bestStreak: 0,
+  multiplier: 1,
+  breakdown: { base: 0, multiKill: 0, nearMiss: 0, accuracy: 0, boss: 0, streak: 0 }
+});
+
+export const getStreakMultiplier = (streak: number): number => {
+  return Math.min(MAX_MULTIPLIER, 1 + Math.floor(streak / STREAK_PER_STEP) * STREAK_STEP);
+};
+
+// A cast that hit at least one enemy extends the streak; anything else breaks it
+export const registerCast = (scoring: ScoringState, hit: boolean) => {
+  scoring.streak = hit ? scoring.streak + 1 : 0;
+  scoring.bestStreak = Math.max(scoring.bestStreak, scoring.streak);
+  scoring.multiplier = getStreakMultiplier(scoring.streak);
+};
+
+export const breakStreak = (scoring: ScoringState) => registerCast(scoring, false);
+
+// Adds a kill to the breakdown and returns the points it is worth
+export const scoreKill = (scoring: ScoringState, kill: KillContext): number => {
+  const { basePoints } = kill;
+  const multiKill = basePoints * MULTI_KILL_BONUS * Math.max(0, kill.killsInStroke - 1);
+  const nearMiss = kill.distanceToCat < NEAR_MISS_RADIUS ? basePoints * NEAR_MISS_BONUS : 0;
+  const accuracyRatio = (kill.confidence - MIN_TEMPLATE_CONFIDENCE) / (1 - MIN_TEMPLATE_CONFIDENCE);
+  const accuracy = basePoints * MAX_ACCURACY_BONUS * Math.min(1, Math.max(0, accuracyRatio));
+  return addPoints(scoring, { base: basePoints, multiKill, nearMiss, accuracy });
+};
+
+export const scoreBossDefeat = (scoring: ScoringState): number => {
+  return addPoints(scoring, { boss: BOSS_DEFEAT_BONUS });
+};
+
+const addPoints = (scoring: ScoringState, parts: Partial<Omit<ScoreBreakdown, 'streak'>>): number => {
+  const { breakdown } = scoring;
+  const base = Math.round(parts.base ?? 0);
+  const multiKill = Math.round(parts.multiKill ?? 0);
+  const nearMiss = Math.round(parts.nearMiss ?? 0);
+  const accuracy = Math.round(parts.accuracy ?? 0);
+  const boss = Math.round(parts.boss ?? 0);
+  const subtotal = base + multiKill + nearMiss + accuracy + boss;
+  const total = Math.round(subtotal * scoring.multiplier);
+
+  breakdown.base += base;
+  breakdown.multiKill += multiKill;
+  breakdown.nearMiss += nearMiss;
+  breakdown.accuracy += accuracy;
+  breakdown.boss += boss;
+  breakdown.streak += total - subtotal;
+  return total;
+};
@@ -0,0 +1,49 @@
+// Offline support: the production build emits sw.js (see vite.config.ts),
+// which precaches the whole bundle. A new version installs in the background
+// and waits; the menu offers to switch instead of swapping code mid-run.
+
+type UpdateListener = () => void;
+
+let waitingWorker: ServiceWorker | null = null;
+const listeners = new Set<UpdateListener>();
+
+const announceUpdate = (worker: ServiceWorker) => {
+  waitingWorker = worker;
+  listeners.forEach(listener => listener());
+};
+
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+      // Installed on an earlier visit and still waiting
+      if (registration.waiting && navigator.serviceWorker.controller) announceUpdate(registration.waiting);
+      registration.addEventListener('updatefound', () => {
+        const installing = registration.installing;
+        installing?.addEventListener('statechange', () => {
+          // Without a controller this is the first install, not an update
+          if (installing.state === 'installed' && navigator.serviceWorker.controller) announceUpdate(installing);
+        });
+      });
+    } catch {
+      // Registration refused (private mode, insecure origin): the game still runs online
+    }
+  });
+};
+
+// Fires right away if an update is already waiting; returns the unsubscribe
+export const onUpdateAvailable = (listener: UpdateListener): (() => void) => {
+  listeners.add(listener);
+  if (waitingWorker) listener();
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Lets the waiting version take over, then reloads into it
+export const applyUpdate = () => {
+  if (!waitingWorker) return;
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+};
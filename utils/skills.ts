@@ -0,0 +1,98 @@
+import { SkillId, SkillState, SkillUpgradeId, SkillUpgrades } from '../types';
+
+// Skill and upgrade definitions. The simulation reads durations/cooldowns
+// through the getters below so purchased upgrades apply everywhere.
+
+// Names live in the message catalog under skill.<id>
+export interface SkillDefinition {
+  id: SkillId;
+  unlockAt: number; // totalLevelsCleared
+  duration: number; // ms, 0 = instant
+  cooldown: number; // ms
+}
+
+export const SKILL_ORDER: SkillId[] = ['shield', 'heal', 'hourglass', 'magnet', 'bomb', 'chainLightning'];
+
+export const SKILL_DEFS: Record<SkillId, SkillDefinition> = {
+  shield: { id: 'shield', unlockAt: 5, duration: 4000, cooldown: 15000 },
+  heal: { id: 'heal', unlockAt: 8, duration: 0, cooldown: 30000 },
+  hourglass: { id: 'hourglass', unlockAt: 10, duration: 4000, cooldown: 20000 },
+  magnet: { id: 'magnet', unlockAt: 12, duration: 6000, cooldown: 20000 },
+  bomb: { id: 'bomb', unlockAt: 15, duration: 0, cooldown: 25000 },
+  chainLightning: { id: 'chainLightning', unlockAt: 20, duration: 6000, cooldown: 30000 }
+};
+
+// Chain lightning strikes on its own while active
+export const CHAIN_INTERVAL_MS = 900;
+const CHAIN_BASE_JUMPS = 2;
+
+const MAGNET_BASE_RADIUS = 250;
+const HEAL_BASE_AMOUNT = 1;
+
+// Name and description live in the message catalog under upgrade.<id>
+export interface UpgradeDefinition {
+  id: SkillUpgradeId;
+  skill: SkillId | null; // null = affects every skill
+  maxLevel: number;
+  baseCost: number; // Cost of level 1; each level costs baseCost * level
+}
+
+export const UPGRADES: UpgradeDefinition[] = [
+  {
+    id: 'shieldDuration', skill: 'shield', maxLevel: 3, baseCost: 10
+  },
+  {
+    id: 'cooldownReduction', skill: null, maxLevel: 3, baseCost: 15
+  },
+  {
+    id: 'bombSigils', skill: 'bomb', maxLevel: 2, baseCost: 20
+  },
+  {
+    id: 'healAmount', skill: 'heal', maxLevel: 2, baseCost: 15
+  },
+  {
+    id: 'chainJumps', skill: 'chainLightning', maxLevel: 3, baseCost: 12
+  },
+  {
+    id: 'magnetRadius', skill: 'magnet', maxLevel: 3, baseCost: 8
+  }
+];
+
+export const isSkillUnlocked = (skill: SkillId, totalLevelsCleared: number): boolean => {
+  return totalLevelsCleared >= SKILL_DEFS[skill].unlockAt;
+};
+
+// Fraction of the cooldown still to go (1 = just used, 0 = ready), on the simulation clock
+export const getCooldownRemaining = (skill: SkillState, time: number): number => {
+  if (skill.lastUsed === null) return 0;
+  return Math.max(0, Math.min(1, (skill.lastUsed + skill.cooldownTime - time) / skill.cooldownTime));
+};
+
+const upgradeLevel = (upgrades: SkillUpgrades, id: SkillUpgradeId) => upgrades[id] ?? 0;
+
+export const getSkillDuration = (skill: SkillId, upgrades: SkillUpgrades): number => {
+  const bonus = skill === 'shield' ? upgradeLevel(upgrades, 'shieldDuration') * 1000 : 0;
+  return SKILL_DEFS[skill].duration + bonus;
+};
+
+export const getSkillCooldown = (skill: SkillId, upgrades: SkillUpgrades): number => {
+  return Math.round(SKILL_DEFS[skill].cooldown * (1 - upgradeLevel(upgrades, 'cooldownReduction') * 0.1));
+};
+
+export const getHealAmount = (upgrades: SkillUpgrades) => HEAL_BASE_AMOUNT + upgradeLevel(upgrades, 'healAmount');
+export const getChainJumps = (upgrades: SkillUpgrades) => CHAIN_BASE_JUMPS + upgradeLevel(upgrades, 'chainJumps');
+export const getMagnetRadius = (upgrades: SkillUpgrades) => MAGNET_BASE_RADIUS * (1 + upgradeLevel(upgrades, 'magnetRadius') * 0.4);
+export const getBombSigilDamage = (upgrades: SkillUpgrades) => upgradeLevel(upgrades, 'bombSigils');
+
+// null when the upgrade is maxed out
+export const getUpgradeCost = (upgrade: UpgradeDefinition, upgrades: SkillUpgrades): number | null => {
+  const level = upgradeLevel(upgrades, upgrade.id);
+  return level >= upgrade.maxLevel ? null : upgrade.baseCost * (level + 1);
+};
+
+// -- Essence (the upgrade currency) --
+
+// Awarded for clearing a level, on top of the orbs collected during it
+export const getLevelEssence = (biomeIndex: number, isBoss: boolean): number => {
+  return isBoss ? 20 + biomeIndex * 5 : 3 + biomeIndex;
+};
@@ -0,0 +1,283 @@
+import { Point, SpellType } from '../types';
+
+// Point-cloud recognizer in the style of $P (Vatavu, Anthony & Wobbrock).
+// Strokes are resampled, scaled uniformly and centred, then matched against
+// templates ignoring stroke direction, so a "C" drawn bottom-up (common for
+// left-handed players) matches the same template as one drawn top-down.
+
+export interface GestureTemplate {
+  type: SpellType;
+  points: Point[]; // Already normalized
+  isCustom?: boolean;
+}
+
+export interface TemplateMatch {
+  type: SpellType;
+  score: number; // 0..1 confidence
+  distance: number;
+}
+
+const SAMPLE_POINTS = 32;
+// Cloud distance at which the score reaches 0. Tuned against the default templates.
+const MAX_CLOUD_DISTANCE = 5;
+
+const STORAGE_KEY = 'catsalom.calibration.v1';
+
+// --------------------------------------------------------------------------
+// NORMALIZATION
+// --------------------------------------------------------------------------
+
+const getDistance = (p1: Point, p2: Point): number => {
+  return Math.hypot(p2.x - p1.x, p2.y - p1.y);
+};
+
+const getPathLength = (points: Point[]): number => {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += getDistance(points[i - 1], points[i]);
+  }
+  return length;
+};
+
+const resample = (points: Point[], n: number): Point[] => {
+  const interval = getPathLength(points) / (n - 1);
+  const source = points.map(p => ({ x: p.x, y: p.y }));
+  const result: Point[] = [{ ...source[0] }];
+  let accumulated = 0;
+
+  for (let i = 1; i < source.length; i++) {
+    const d = getDistance(source[i - 1], source[i]);
+    if (accumulated + d >= interval && d > 0) {
+      const t = (interval - accumulated) / d;
+      const q = {
+        x: source[i - 1].x + t * (source[i].x - source[i - 1].x),
+        y: source[i - 1].y + t * (source[i].y - source[i - 1].y)
+      };
+      result.push(q);
+      source.splice(i, 0, q); // q becomes the next segment start
+      accumulated = 0;
+    } else {
+      accumulated += d;
+    }
+  }
+
+  // Rounding can leave us one short
+  while (result.length < n) result.push({ ...source[source.length - 1] });
+  return result.slice(0, n);
+};
+
+// Uniform scale keeps "—" and "|" distinguishable (non-uniform scaling would turn both into a diagonal)
+const scaleAndCenter = (points: Point[]): Point[] => {
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  points.forEach(p => {
+    if (p.x < minX) minX = p.x;
+    if (p.x > maxX) maxX = p.x;
+    if (p.y < minY) minY = p.y;
+    if (p.y > maxY) maxY = p.y;
+  });
+  const size = Math.max(maxX - minX, maxY - minY) || 1;
+
+  let cx = 0, cy = 0;
+  points.forEach(p => { cx += p.x; cy += p.y; });
+  cx /= points.length;
+  cy /= points.length;
+
+  return points.map(p => ({ x: (p.x - cx) / size, y: (p.y - cy) / size }));
+};
+
+export const normalizeStroke = (points: Point[]): Point[] => {
+  return scaleAndCenter(resample(points, SAMPLE_POINTS));
+};
+
+// --------------------------------------------------------------------------
+// MATCHING
+// --------------------------------------------------------------------------
+
+const cloudDistance = (a: Point[], b: Point[], start: number): number => {
+  const n = a.length;
+  const matched = new Array<boolean>(n).fill(false);
+  let sum = 0;
+  let i = start;
+
+  do {
+    let min = Infinity;
+    let index = -1;
+    for (let j = 0; j < n; j++) {
+      if (matched[j]) continue;
+      const d = getDistance(a[i], b[j]);
+      if (d < min) {
+        min = d;
+        index = j;
+      }
+    }
+    matched[index] = true;
+    const weight = 1 - ((i - start + n) % n) / n;
+    sum += weight * min;
+    i = (i + 1) % n;
+  } while (i !== start);
+
+  return sum;
+};
+
+const greedyCloudMatch = (points: Point[], template: Point[]): number => {
+  const step = Math.floor(Math.sqrt(points.length));
+  let min = Infinity;
+  for (let i = 0; i < points.length; i += step) {
+    min = Math.min(min, cloudDistance(points, template, i), cloudDistance(template, points, i));
+  }
+  return min;
+};
+
+export const matchTemplates = (points: Point[], templates: GestureTemplate[]): TemplateMatch | null => {
+  if (points.length < 2 || templates.length === 0) return null;
+  if (getPathLength(points) < 20) return null; // Taps are never spells
+
+  const candidate = normalizeStroke(points);
+  let best: TemplateMatch | null = null;
+
+  templates.forEach(template => {
+    const distance = greedyCloudMatch(candidate, template.points);
+    if (!best || distance < best.distance) {
+      best = {
+        type: template.type,
+        distance,
+        score: Math.max(0, 1 - distance / MAX_CLOUD_DISTANCE)
+      };
+    }
+  });
+
+  return best;
+};
+
+// --------------------------------------------------------------------------
+// DEFAULT TEMPLATES
+// --------------------------------------------------------------------------
+
+const polyline = (...corners: [number, number][]): Point[] => {
+  const points: Point[] = [];
+  for (let i = 1; i < corners.length; i++) {
+    const [x1, y1] = corners[i - 1];
+    const [x2, y2] = corners[i];
+    for (let s = 0; s < 10; s++) {
+      points.push({ x: x1 + (x2 - x1) * (s / 10), y: y1 + (y2 - y1) * (s / 10) });
+    }
+  }
+  const [lx, ly] = corners[corners.length - 1];
+  points.push({ x: lx, y: ly });
+  return points;
+};
+
+// Screen coordinates: y grows downwards, so angles are mirrored on the y axis
+const arc = (cx: number, cy: number, r: number, from: number, to: number, steps = 24): Point[] => {
+  const points: Point[] = [];
+  for (let s = 0; s <= steps; s++) {
+    const angle = from + (to - from) * (s / steps);
+    points.push({ x: cx + Math.cos(angle) * r, y: cy - Math.sin(angle) * r });
+  }
+  return points;
+};
+
+const eight = (): Point[] => {
+  const points: Point[] = [];
+  for (let s = 0; s <= 48; s++) {
+    const t = (s / 48) * Math.PI * 2;
+    points.push({ x: 0.5 + 0.3 * Math.sin(2 * t), y: 0.5 - 0.5 * Math.cos(t) });
+  }
+  return points;
+};
+
+const RAW_DEFAULT_TEMPLATES: [SpellType, Point[]][] = [
+  [SpellType.HORIZONTAL, polyline([0, 0], [1, 0])],
+  [SpellType.VERTICAL, polyline([0, 0], [0, 1])],
+  [SpellType.LIGHTNING, polyline([0, 0], [1, 0], [0, 1], [1, 1])],
+  [SpellType.LIGHTNING, polyline([0, 0], [1, 0.2], [0, 0.8], [1, 1])],
+  [SpellType.C_SHAPE, arc(0.5, 0.5, 0.5, Math.PI / 4, Math.PI * 7 / 4)],
+  [SpellType.C_SHAPE, arc(0.5, 0.5, 0.5, Math.PI / 3, Math.PI * 5 / 3)],
+  [SpellType.S_SHAPE, [
+    ...arc(0.5, 0.25, 0.25, Math.PI / 6, Math.PI * 3 / 2),
+    ...arc(0.5, 0.75, 0.25, Math.PI / 2, -Math.PI * 5 / 6)
+  ]],
+  [SpellType.EIGHT_SHAPE, eight()],
+  [SpellType.SEVEN_SHAPE, polyline([0, 0], [1, 0], [0.4, 1])],
+  [SpellType.SEVEN_SHAPE, polyline([0, 0], [1, 0], [0.8, 1])],
+  [SpellType.X_SHAPE, polyline([0, 0], [1, 1], [1, 0], [0, 1])],
+  [SpellType.X_SHAPE, polyline([0, 0], [1, 1], [0.5, 1.2], [1, 0], [0, 1])]
+];
+
+export const DEFAULT_TEMPLATES: GestureTemplate[] = RAW_DEFAULT_TEMPLATES.map(([type, points]) => ({
+  type,
+  points: normalizeStroke(points)
+}));
+
+// The textbook way to draw a symbol, in its own unit box and stroke order
+// (Training animates it as a ghost stroke)
+export const getCanonicalStroke = (type: SpellType): Point[] =>
+  RAW_DEFAULT_TEMPLATES.find(([templateType]) => templateType === type)![1];
+
+// --------------------------------------------------------------------------
+// PER-PLAYER CALIBRATION
+// --------------------------------------------------------------------------
+
+type CalibrationSample = { type: SpellType; points: Point[] };
+type CalibrationStore = Record<string, CalibrationSample[]>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isPoint = (value: unknown): value is Point =>
+  isRecord(value) && Number.isFinite(value.x) && Number.isFinite(value.y);
+
+// Matching pairs points one to one, so a sample must be normalized to SAMPLE_POINTS
+const isSample = (value: unknown): value is CalibrationSample =>
+  isRecord(value) && Object.values(SpellType).includes(value.type as SpellType)
+  && Array.isArray(value.points) && value.points.length === SAMPLE_POINTS && value.points.every(isPoint);
+
+// Drops anything malformed: a player's list that isn't an array, or samples in it
+const readStore = (): CalibrationStore => {
+  let parsed: unknown = null;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    parsed = raw ? JSON.parse(raw) : null;
+  } catch {
+    // Unreadable: start from an empty store
+  }
+  if (!isRecord(parsed)) return {};
+  return Object.fromEntries(Object.entries(parsed).map(([key, samples]) => [key, Array.isArray(samples) ? samples.filter(isSample) : []]));
+};
+
+const writeStore = (store: CalibrationStore) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch {
+    // Storage full or disabled: calibration just won't persist
+  }
+};
+
+const playerKey = (playerName: string) => playerName.trim().toLowerCase();
+
+export const loadPlayerTemplates = (playerName: string): GestureTemplate[] => {
+  const samples = readStore()[playerKey(playerName)] || [];
+  return samples.map(s => ({ type: s.type, points: s.points, isCustom: true }));
+};
+
+export const addPlayerSample = (playerName: string, type: SpellType, rawPoints: Point[]): GestureTemplate[] => {
+  const store = readStore();
+  const key = playerKey(playerName);
+  const samples = store[key] || [];
+  samples.push({ type, points: normalizeStroke(rawPoints) });
+  store[key] = samples;
+  writeStore(store);
+  return loadPlayerTemplates(playerName);
+};
+
+export const clearPlayerSamples = (playerName: string, type?: SpellType): GestureTemplate[] => {
+  const store = readStore();
+  const key = playerKey(playerName);
+  store[key] = type ? (store[key] || []).filter(s => s.type !== type) : [];
+  writeStore(store);
+  return loadPlayerTemplates(playerName);
+};
+
+// Player samples go first so they win ties against the defaults
+export const getTemplatesForPlayer = (playerName: string): GestureTemplate[] => {
+  return [...loadPlayerTemplates(playerName), ...DEFAULT_TEMPLATES];
+};
@@ -0,0 +1,94 @@
+import { SpellType } from '../types';
+import { GestureFailure } from './gesture';
+
+// Training results per cat and symbol, kept across sessions so players can
+// see which shapes they struggle with (and why).
+
+const STORAGE_KEY = 'catsalom.training.v1';
+
+export interface SymbolStats {
+  attempts: number;
+  successes: number;
+  failures: Partial<Record<GestureFailure, number>>; // Heuristic that failed, per rejected stroke
+}
+
+export type TrainingStats = Partial<Record<SpellType, SymbolStats>>;
+
+type TrainingStore = Record<string, TrainingStats>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const toSymbolStats = (value: unknown): SymbolStats | null => {
+  if (!isRecord(value) || !isCount(value.attempts) || !isCount(value.successes)) return null;
+  const failures = isRecord(value.failures) ? Object.entries(value.failures).filter(([, count]) => isCount(count)) : [];
+  return { attempts: value.attempts, successes: value.successes, failures: Object.fromEntries(failures) };
+};
+
+// Keeps only well-formed stats for known symbols
+const toTrainingStats = (value: unknown): TrainingStats => {
+  const stats: TrainingStats = {};
+  if (!isRecord(value)) return stats;
+  Object.values(SpellType).forEach(spell => {
+    const symbol = toSymbolStats(value[spell]);
+    if (symbol) stats[spell] = symbol;
+  });
+  return stats;
+};
+
+const readStore = (): TrainingStore => {
+  let parsed: unknown = null;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    parsed = raw ? JSON.parse(raw) : null;
+  } catch {
+    // Unreadable: start from an empty store
+  }
+  if (!isRecord(parsed)) return {};
+  return Object.fromEntries(Object.entries(parsed).map(([key, stats]) => [key, toTrainingStats(stats)]));
+};
+
+const writeStore = (store: TrainingStore) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch {
+    // Storage full or disabled: stats last for this session only
+  }
+};
+
+const playerKey = (playerName: string) => playerName.trim().toLowerCase();
+
+export const loadTrainingStats = (playerName: string): TrainingStats => readStore()[playerKey(playerName)] ?? {};
+
+// failure is null for successes, and for misses that passed every heuristic
+// of the symbol but were read as another one
+export const recordTrainingAttempt = (playerName: string, spell: SpellType, success: boolean, failure: GestureFailure | null): TrainingStats => {
+  const store = readStore();
+  const stats = store[playerKey(playerName)] ?? {};
+  const current = stats[spell] ?? { attempts: 0, successes: 0, failures: {} };
+  stats[spell] = {
+    attempts: current.attempts + 1,
+    successes: current.successes + (success ? 1 : 0),
+    failures: failure ? { ...current.failures, [failure]: (current.failures[failure] ?? 0) + 1 } : current.failures
+  };
+  store[playerKey(playerName)] = stats;
+  writeStore(store);
+  return stats;
+};
+
+export const clearTrainingStats = (playerName: string): TrainingStats => {
+  const store = readStore();
+  delete store[playerKey(playerName)];
+  writeStore(store);
+  return {};
+};
+
+// 0..1, or null before the first attempt
+export const getSuccessRate = (stats?: SymbolStats): number | null =>
+  stats && stats.attempts > 0 ? stats.successes / stats.attempts : null;
+
+export const getTopFailure = (stats?: SymbolStats): GestureFailure | null => {
+  const entries = Object.entries(stats?.failures ?? {}) as [GestureFailure, number][];
+  return entries.length > 0 ? entries.reduce((a, b) => b[1] > a[1] ? b : a)[0] : null;
+};
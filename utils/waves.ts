@@ -0,0 +1,194 @@
+import { BiomeType, BossAttack, BossDefinition, BossPhase, Progress, SpellType } from '../types';
+import { LocalizedText } from './i18n';
+import { BIOME_CONFIG, BIOME_ORDER } from './gameConfig';
+import { BOSS_CONFIG } from './bosses';
+import { MONSTERS } from './monsters';
+
+// Hand-authored levels. A wave file lists levels by biome and number; when one
+// matches, the simulation plays its spawn schedule instead of the formula
+// spawner and ends it by the wave's own goal (see isWaveCleared).
+
+export const WAVE_VERSION = 1;
+
+const STORAGE_KEY = 'catsalom.waves.v1';
+
+export type SpawnSide = 'top' | 'right' | 'bottom' | 'left' | 'random';
+
+// Same order as the formula spawner's side roll
+export const SPAWN_SIDES: Exclude<SpawnSide, 'random'>[] = ['top', 'right', 'bottom', 'left'];
+
+export interface WaveSpawn {
+  time: number; // ms of world time after the level starts (the hourglass delays it)
+  side: SpawnSide;
+  position?: number; // 0..1 along the side, random when missing
+  monster: string; // Id in the MONSTERS registry
+  symbols?: SpellType[]; // Chain to draw, in order; rolled from the level's pool when missing
+  speed?: number; // Pixels per 60 Hz frame before difficulty; rolled when missing
+}
+
+// Overrides on the biome's boss; missing fields keep the BOSS_CONFIG values
+export interface WaveBoss {
+  name?: LocalizedText; // Replaces the catalog name
+  color?: string;
+  phases?: BossPhase[];
+}
+
+export interface LevelWave {
+  biome: BiomeType;
+  level: number;
+  // Goals: reach the score, survive the duration, or beat the boss.
+  // With none of them the level ends once every spawn has been cleared.
+  targetScore?: number;
+  duration?: number; // ms of world time
+  spawns: WaveSpawn[]; // Sorted by time
+  boss?: WaveBoss;
+}
+
+export interface WaveFile {
+  version: number;
+  name: string;
+  levels: LevelWave[];
+}
+
+export const createWaveFile = (name: string): WaveFile => ({ version: WAVE_VERSION, name, levels: [] });
+
+// Level 11 ends the biome in the campaign, so it is always a boss fight
+export const BOSS_LEVEL = 11;
+
+export const createLevelWave = (biome: BiomeType, level: number): LevelWave =>
+  level === BOSS_LEVEL ? { biome, level, spawns: [], boss: {} } : { biome, level, duration: 30000, spawns: [] };
+
+export const findLevelWave = (file: WaveFile | null, biome: BiomeType, level: number): LevelWave | undefined =>
+  file?.levels.find(l => l.biome === biome && l.level === level);
+
+export const resolveWaveBoss = (wave: LevelWave): BossDefinition => ({ ...BOSS_CONFIG[wave.biome], ...wave.boss });
+
+// Campaign progress of a player who reached this level, so play-tests unlock
+// the same skills they would have in a real run
+export const getWaveProgress = (wave: LevelWave): Progress => {
+  const biomeIndex = Math.max(0, BIOME_ORDER.indexOf(wave.biome));
+  return { biomeIndex, level: wave.level, totalLevelsCleared: biomeIndex * 11 + wave.level - 1 };
+};
+
+// Monsters native to the biome come first in the editor's picker
+export const getWaveMonsters = (biome: BiomeType): string[] => {
+  const native = BIOME_CONFIG[biome].monsters;
+  return [...native, ...Object.keys(MONSTERS).filter(id => !native.includes(id))];
+};
+
+export const isWaveCleared = (wave: LevelWave, score: number, worldTime: number, spawnsLeft: number, enemiesLeft: number): boolean => {
+  if (wave.targetScore !== undefined && score >= wave.targetScore) return true;
+  if (wave.duration !== undefined && worldTime >= wave.duration) return true;
+  return wave.targetScore === undefined && wave.duration === undefined && spawnsLeft === 0 && enemiesLeft === 0;
+};
+
+export const sortSpawns = (spawns: WaveSpawn[]): WaveSpawn[] => [...spawns].sort((a, b) => a.time - b.time);
+
+// --------------------------------------------------------------------------
+// VALIDATION
+// --------------------------------------------------------------------------
+
+const SPELLS = Object.values(SpellType) as string[];
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOptionalNumber = (value: unknown) => value === undefined || (isNumber(value) && value >= 0);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isPositive = (value: unknown) => isNumber(value) && value > 0;
+const isSpellList = (value: unknown) => Array.isArray(value) && value.length > 0 && value.every(s => SPELLS.includes(s as string));
+
+const isValidSpawn = (spawn: unknown): spawn is WaveSpawn =>
+  isRecord(spawn) && isNumber(spawn.time) && spawn.time >= 0
+  && (spawn.side === 'random' || SPAWN_SIDES.includes(spawn.side as typeof SPAWN_SIDES[number]))
+  && (spawn.position === undefined || (isNumber(spawn.position) && spawn.position >= 0 && spawn.position <= 1))
+  && typeof spawn.monster === 'string' && spawn.monster in MONSTERS
+  && (spawn.symbols === undefined || isSpellList(spawn.symbols))
+  && (spawn.speed === undefined || isPositive(spawn.speed));
+
+// Every field the simulation reads for that attack type
+const isValidAttack = (attack: unknown): attack is BossAttack => {
+  if (!isRecord(attack)) return false;
+  if (attack.type === 'volley') return isPositive(attack.count) && isPositive(attack.speed) && isSpellList(attack.symbols);
+  if (attack.type === 'regenerate') return isPositive(attack.count);
+  if (attack.type === 'shield') return isPositive(attack.length);
+  return false;
+};
+
+const isValidPhase = (phase: unknown): phase is BossPhase =>
+  isRecord(phase) && isPositive(phase.sigils) && isPositive(phase.attackInterval)
+  && Array.isArray(phase.attacks) && phase.attacks.length > 0 && phase.attacks.every(isValidAttack);
+
+const isValidBoss = (boss: unknown): boss is WaveBoss =>
+  isRecord(boss)
+  && (boss.name === undefined || (isRecord(boss.name) && Object.values(boss.name).every(text => typeof text === 'string')))
+  && (boss.color === undefined || typeof boss.color === 'string')
+  && (boss.phases === undefined || (Array.isArray(boss.phases) && boss.phases.length > 0 && boss.phases.every(isValidPhase)));
+
+// Also guards the wave inside imported replays (utils/replay)
+export const isValidLevelWave = (level: unknown): level is LevelWave =>
+  isRecord(level) && BIOME_ORDER.includes(level.biome as BiomeType)
+  && Number.isInteger(level.level) && (level.level as number) >= 1 && (level.level as number) <= BOSS_LEVEL
+  && isOptionalNumber(level.targetScore) && isOptionalNumber(level.duration)
+  && Array.isArray(level.spawns) && level.spawns.every(isValidSpawn)
+  && (level.boss === undefined ? level.level !== BOSS_LEVEL : isValidBoss(level.boss));
+
+// --------------------------------------------------------------------------
+// IMPORT / EXPORT
+// --------------------------------------------------------------------------
+
+export const encodeWaveFile = (file: WaveFile): string => JSON.stringify(file, null, 2);
+
+// Null when the file is not a wave file this version understands
+export const decodeWaveFile = (text: string): WaveFile | null => {
+  try {
+    const data: unknown = JSON.parse(text);
+    if (!isRecord(data) || data.version !== WAVE_VERSION || !Array.isArray(data.levels) || !data.levels.every(isValidLevelWave)) return null;
+    return {
+      version: WAVE_VERSION,
+      name: typeof data.name === 'string' ? data.name : '',
+      levels: data.levels.map((l: LevelWave) => ({ ...l, spawns: sortSpawns(l.spawns) }))
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const downloadWaveFile = (file: WaveFile) => {
+  const blob = new Blob([encodeWaveFile(file)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  const safeName = file.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'waves';
+  link.href = url;
+  link.download = `catsalom-${safeName}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// --------------------------------------------------------------------------
+// PERSISTENCE
+// --------------------------------------------------------------------------
+
+// The editor's working file, and whether the campaign plays it
+export interface StoredWaves {
+  file: WaveFile;
+  useInCampaign: boolean;
+}
+
+export const loadWaves = (): StoredWaves => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const saved = raw ? JSON.parse(raw) : null;
+    const file = saved ? decodeWaveFile(JSON.stringify(saved.file)) : null;
+    if (file) return { file, useInCampaign: saved.useInCampaign === true };
+  } catch {
+    // Corrupt entry: start over with an empty file
+  }
+  return { file: createWaveFile(''), useInCampaign: false };
+};
+
+export const saveWaves = (waves: StoredWaves) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(waves));
+  } catch {
+    // Storage full or disabled: export the file to keep it
+  }
+};
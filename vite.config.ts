@@ -1,6 +1,53 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { Plugin, defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { findMissingKeys } from './utils/i18n';
+
+// Lists untranslated message keys on every build; they fall back to English at runtime
+const i18nCheck = (): Plugin => ({
+  name: 'catsalom-i18n-check',
+  buildStart() {
+    Object.entries(findMissingKeys()).forEach(([language, keys]) => {
+      this.warn(`${keys.length} missing "${language}" message(s): ${keys.join(', ')}`);
+    });
+  }
+});
+
+// Emits sw.js with every built and public file precached, under a cache name
+// hashed from their contents so each release replaces the last one. URLs are
+// relative to sw.js, so the build works under any base path.
+const precacheServiceWorker = (): Plugin => {
+  let publicDir = '';
+  return {
+    name: 'catsalom-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_, bundle) {
+      const hash = createHash('sha256');
+      const urls: string[] = [];
+      Object.values(bundle).forEach(file => {
+        if (file.fileName.endsWith('.map')) return;
+        hash.update(file.type === 'chunk' ? file.code : file.source);
+        urls.push(`./${file.fileName}`);
+      });
+      if (publicDir && fs.existsSync(publicDir)) {
+        fs.readdirSync(publicDir).forEach(name => {
+          hash.update(fs.readFileSync(path.join(publicDir, name)));
+          urls.push(`./${name}`);
+        });
+      }
+      const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8')
+        .replace('__CACHE_NAME__', JSON.stringify(`catsalom-${hash.digest('hex').slice(0, 12)}`))
+        .replace('__PRECACHE_URLS__', JSON.stringify(urls));
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    }
+  };
+};
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +56,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), i18nCheck(), precacheServiceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)